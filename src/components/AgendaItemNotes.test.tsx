@@ -0,0 +1,99 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useState } from "react";
+import { describe, expect, it, vi } from "vitest";
+import { LanguageProvider } from "../contexts/LanguageContext";
+import type { ItemMinutes } from "../lib/meeting";
+import { AgendaItemNotes } from "./AgendaItemNotes";
+
+// Stateful wrapper so edits are reflected like in MeetingProgress
+const NotesWithProvider = ({
+  initial = {},
+  onChange,
+}: {
+  initial?: ItemMinutes;
+  onChange: (minutes: ItemMinutes) => void;
+}) => {
+  const [minutes, setMinutes] = useState(initial);
+  return (
+    <LanguageProvider>
+      <AgendaItemNotes
+        minutes={minutes}
+        assignees={["Sato", "Suzuki"]}
+        onChange={(next) => {
+          setMinutes(next);
+          onChange(next);
+        }}
+      />
+    </LanguageProvider>
+  );
+};
+
+describe("AgendaItemNotes", () => {
+  it("should update free-text notes", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<NotesWithProvider onChange={onChange} />);
+
+    await user.type(screen.getByLabelText("Notes"), "Hi");
+
+    expect(onChange).toHaveBeenLastCalledWith({ notes: "Hi" });
+  });
+
+  it("should add and remove decisions", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<NotesWithProvider onChange={onChange} />);
+
+    await user.type(
+      screen.getByPlaceholderText("Add a decision"),
+      "Ship on Friday{Enter}",
+    );
+    expect(screen.getByText("Ship on Friday")).toBeInTheDocument();
+    expect(onChange).toHaveBeenLastCalledWith({
+      decisions: ["Ship on Friday"],
+    });
+
+    await user.click(screen.getByRole("button", { name: "Remove" }));
+    expect(onChange).toHaveBeenLastCalledWith({ decisions: [] });
+  });
+
+  it("should not add a decision while an IME conversion is confirmed", () => {
+    const onChange = vi.fn();
+    render(<NotesWithProvider onChange={onChange} />);
+    const input = screen.getByPlaceholderText("Add a decision");
+
+    fireEvent.change(input, { target: { value: "金曜に出荷" } });
+    fireEvent.keyDown(input, { key: "Enter", isComposing: true });
+    expect(onChange).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(onChange).toHaveBeenLastCalledWith({ decisions: ["金曜に出荷"] });
+  });
+
+  it("should add action items with assignee and due date", async () => {
+    const user = userEvent.setup();
+    const onChange = vi.fn();
+    render(<NotesWithProvider onChange={onChange} />);
+
+    await user.type(
+      screen.getByPlaceholderText("Add an action item"),
+      "Write release notes",
+    );
+    await user.selectOptions(screen.getByLabelText("Assignee"), "Suzuki");
+    await user.type(screen.getByLabelText("Due date"), "2021-01-08");
+    await user.click(screen.getByRole("button", { name: "Add action item" }));
+
+    expect(onChange).toHaveBeenLastCalledWith({
+      actionItems: [
+        {
+          id: expect.any(String),
+          text: "Write release notes",
+          assignee: "Suzuki",
+          dueDate: "2021-01-08",
+        },
+      ],
+    });
+    expect(screen.getByText("(Suzuki, 2021-01-08)")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,220 @@
+import { CheckSquare, Gavel, Plus, X } from "lucide-react";
+import { useState } from "react";
+import { useLanguage } from "../contexts/LanguageContext";
+import type { ActionItem, ItemMinutes } from "../lib/meeting";
+import { isImeKey } from "../lib/shortcuts";
+import { occurrenceKeys } from "../lib/utils";
+
+interface AgendaItemNotesProps {
+  minutes: ItemMinutes;
+  assignees?: string[];
+  onChange: (minutes: ItemMinutes) => void;
+}
+
+/**
+ * Inline minutes editor for the active agenda item.
+ *
+ * Captures free-text notes, a list of decisions, and action items with an
+ * optional assignee (from the meeting participants) and due date. Every
+ * change is passed up immediately so it is persisted with the session.
+ *
+ * @param minutes - Current notes, decisions and action items
+ * @param assignees - Names offered as action item assignees
+ * @param onChange - Callback with the updated minutes
+ */
+export function AgendaItemNotes({
+  minutes,
+  assignees = [],
+  onChange,
+}: AgendaItemNotesProps) {
+  const { t } = useLanguage();
+  const [newDecision, setNewDecision] = useState("");
+  const [newAction, setNewAction] = useState("");
+  const [newAssignee, setNewAssignee] = useState("");
+  const [newDueDate, setNewDueDate] = useState("");
+
+  const decisions = minutes.decisions ?? [];
+  const actionItems = minutes.actionItems ?? [];
+
+  /**
+   * Adds the typed decision to the list.
+   */
+  const addDecision = () => {
+    if (!newDecision.trim()) return;
+    onChange({ ...minutes, decisions: [...decisions, newDecision.trim()] });
+    setNewDecision("");
+  };
+
+  const removeDecision = (index: number) => {
+    onChange({
+      ...minutes,
+      decisions: decisions.filter((_, i) => i !== index),
+    });
+  };
+
+  /**
+   * Adds the typed action item with its assignee and due date.
+   */
+  const addActionItem = () => {
+    if (!newAction.trim()) return;
+    const actionItem: ActionItem = {
+      id: Date.now().toString(),
+      text: newAction.trim(),
+      assignee: newAssignee || undefined,
+      dueDate: newDueDate || undefined,
+    };
+    onChange({ ...minutes, actionItems: [...actionItems, actionItem] });
+    setNewAction("");
+    setNewAssignee("");
+    setNewDueDate("");
+  };
+
+  const removeActionItem = (id: string) => {
+    onChange({
+      ...minutes,
+      actionItems: actionItems.filter((item) => item.id !== id),
+    });
+  };
+
+  const decisionKeys = occurrenceKeys(decisions);
+
+  const inputClassName =
+    "px-2 py-1 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm";
+
+  return (
+    <div className="mt-3 space-y-3 p-3 bg-muted/50 rounded-lg">
+      <textarea
+        value={minutes.notes ?? ""}
+        onChange={(e) =>
+          onChange({ ...minutes, notes: e.target.value || undefined })
+        }
+        placeholder={t("notes.placeholder")}
+        aria-label={t("notes.title")}
+        rows={3}
+        className={`${inputClassName} w-full`}
+      />
+
+      <div>
+        <div className="flex items-center gap-1 text-sm font-medium mb-1">
+          <Gavel className="w-4 h-4" />
+          {t("notes.decisions")}
+        </div>
+        <ul className="space-y-1 mb-2">
+          {decisions.map((decision, index) => (
+            <li
+              key={decisionKeys[index]}
+              className="flex items-start gap-2 text-sm"
+            >
+              <span className="flex-1">{decision}</span>
+              <button
+                type="button"
+                onClick={() => removeDecision(index)}
+                aria-label={t("notes.remove")}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newDecision}
+            onChange={(e) => setNewDecision(e.target.value)}
+            onKeyDown={(e) =>
+              // Enter also confirms an IME conversion; leave that to the IME
+              e.key === "Enter" && !isImeKey(e.nativeEvent) && addDecision()
+            }
+            placeholder={t("notes.decisionPlaceholder")}
+            className={`${inputClassName} flex-1 min-w-0`}
+          />
+          <button
+            type="button"
+            onClick={addDecision}
+            aria-label={t("notes.addDecision")}
+            className="p-1 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center gap-1 text-sm font-medium mb-1">
+          <CheckSquare className="w-4 h-4" />
+          {t("notes.actionItems")}
+        </div>
+        <ul className="space-y-1 mb-2">
+          {actionItems.map((actionItem) => (
+            <li key={actionItem.id} className="flex items-start gap-2 text-sm">
+              <span className="flex-1">
+                {actionItem.text}
+                {(actionItem.assignee || actionItem.dueDate) && (
+                  <span className="text-muted-foreground">
+                    {" "}
+                    (
+                    {[actionItem.assignee, actionItem.dueDate]
+                      .filter(Boolean)
+                      .join(", ")}
+                    )
+                  </span>
+                )}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeActionItem(actionItem.id)}
+                aria-label={t("notes.remove")}
+                className="text-muted-foreground hover:text-destructive"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            value={newAction}
+            onChange={(e) => setNewAction(e.target.value)}
+            onKeyDown={(e) =>
+              e.key === "Enter" && !isImeKey(e.nativeEvent) && addActionItem()
+            }
+            placeholder={t("notes.actionPlaceholder")}
+            className={`${inputClassName} flex-1 min-w-40`}
+          />
+          {assignees.length > 0 && (
+            <select
+              value={newAssignee}
+              onChange={(e) => setNewAssignee(e.target.value)}
+              aria-label={t("notes.assignee")}
+              className={inputClassName}
+            >
+              <option value="">{t("notes.assignee")}</option>
+              {assignees.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            type="date"
+            value={newDueDate}
+            onChange={(e) => setNewDueDate(e.target.value)}
+            aria-label={t("notes.dueDate")}
+            className={inputClassName}
+          />
+          <button
+            type="button"
+            onClick={addActionItem}
+            aria-label={t("notes.addActionItem")}
+            className="p-1 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import { LanguageProvider } from "../contexts/LanguageContext";
+import type { AgendaItem } from "../lib/meeting";
+import { AgendaTextImport } from "./AgendaTextImport";
+
+describe("AgendaTextImport", () => {
+  const current: AgendaItem[] = [
+    {
+      id: "1",
+      name: "Existing item",
+      estimatedMinutes: 5,
+      isActive: false,
+      elapsedTime: 0,
+    },
+  ];
+
+  const renderImport = (onImport = vi.fn()) => {
+    render(
+      <LanguageProvider>
+        <AgendaTextImport currentItems={current} onImport={onImport} />
+      </LanguageProvider>,
+    );
+    return onImport;
+  };
+
+  it("should preview pasted items after the current agenda", async () => {
+    const user = userEvent.setup();
+    renderImport();
+
+    await user.click(screen.getByRole("button", { name: "Paste agenda" }));
+    await user.type(
+      screen.getByLabelText("Agenda text"),
+      "- Project update (10m)",
+    );
+
+    const preview = screen.getByRole("list", { name: "Preview" });
+    expect(preview).toHaveTextContent("Existing item");
+    expect(preview).toHaveTextContent("+ Project update10 min");
+  });
+
+  it("should mark current items as removed when replacing", async () => {
+    const user = userEvent.setup();
+    const onImport = renderImport();
+
+    await user.click(screen.getByRole("button", { name: "Paste agenda" }));
+    await user.type(screen.getByLabelText("Agenda text"), "Demo 1h");
+    await user.click(screen.getByLabelText("Replace current agenda"));
+
+    expect(screen.getByText(/Existing item/)).toHaveTextContent(
+      "− Existing item",
+    );
+
+    await user.click(screen.getByRole("button", { name: "Import" }));
+
+    expect(onImport).toHaveBeenCalledWith(
+      [expect.objectContaining({ name: "Demo", estimatedMinutes: 60 })],
+      "replace",
+    );
+    expect(screen.queryByLabelText("Agenda text")).not.toBeInTheDocument();
+  });
+
+  it("should not import empty text", async () => {
+    const user = userEvent.setup();
+    renderImport();
+
+    await user.click(screen.getByRole("button", { name: "Paste agenda" }));
+
+    expect(screen.getByRole("button", { name: "Import" })).toBeDisabled();
+  });
+});
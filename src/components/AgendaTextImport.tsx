@@ -0,0 +1,144 @@
+import { ClipboardPaste } from "lucide-react";
+import { useState } from "react";
+import { useLanguage } from "../contexts/LanguageContext";
+import { type AgendaImportMode, parseAgendaText } from "../lib/agendaText";
+import type { AgendaItem } from "../lib/meeting";
+
+interface AgendaTextImportProps {
+  currentItems: AgendaItem[];
+  onImport: (items: AgendaItem[], mode: AgendaImportMode) => void;
+}
+
+/**
+ * Paste-to-import box for agendas written as Markdown or plain-text lists.
+ *
+ * The pasted text is parsed as it is typed and previewed as a diff against
+ * the current agenda: replaced items are struck through, imported items are
+ * marked as added. The agenda only changes when the import is confirmed.
+ *
+ * @param currentItems - Current agenda, shown in the preview
+ * @param onImport - Callback with the parsed items and whether they replace or extend the agenda
+ */
+export function AgendaTextImport({
+  currentItems,
+  onImport,
+}: AgendaTextImportProps) {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [mode, setMode] = useState<AgendaImportMode>("append");
+
+  const imported = parseAgendaText(text);
+
+  const handleImport = () => {
+    if (imported.length === 0) return;
+    onImport(imported, mode);
+    setText("");
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-center">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors flex items-center gap-2"
+        >
+          <ClipboardPaste className="w-4 h-4" />
+          {t("agendaImport.title")}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 p-4 bg-card border border-border rounded-lg space-y-3 text-left">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={5}
+            placeholder={t("agendaImport.placeholder")}
+            aria-label={t("agendaImport.text")}
+            className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm font-mono"
+          />
+
+          {currentItems.length > 0 && (
+            <fieldset className="flex flex-wrap gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="agenda-import-mode"
+                  checked={mode === "append"}
+                  onChange={() => setMode("append")}
+                />
+                {t("agendaImport.append")}
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name="agenda-import-mode"
+                  checked={mode === "replace"}
+                  onChange={() => setMode("replace")}
+                />
+                {t("agendaImport.replace")}
+              </label>
+            </fieldset>
+          )}
+
+          {imported.length > 0 && (
+            <div>
+              <div className="text-xs font-medium text-muted-foreground mb-1">
+                {t("agendaImport.preview")}
+              </div>
+              <ul
+                className="text-sm space-y-1"
+                aria-label={t("agendaImport.preview")}
+              >
+                {currentItems.map((item) => (
+                  <li
+                    key={item.id}
+                    className={`flex justify-between gap-2 px-2 py-1 rounded ${
+                      mode === "replace"
+                        ? "bg-destructive/10 text-destructive line-through"
+                        : "text-muted-foreground"
+                    }`}
+                  >
+                    <span className="truncate">
+                      {mode === "replace" && "− "}
+                      {item.name}
+                    </span>
+                    <span>
+                      {item.estimatedMinutes} {t("time.minutes")}
+                    </span>
+                  </li>
+                ))}
+                {imported.map((item) => (
+                  <li
+                    key={item.id}
+                    className="flex justify-between gap-2 px-2 py-1 rounded bg-green-500/10 text-green-700 dark:text-green-500"
+                  >
+                    <span className="truncate">+ {item.name}</span>
+                    <span>
+                      {item.estimatedMinutes} {t("time.minutes")}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={imported.length === 0}
+              className="px-3 py-1 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors text-sm disabled:opacity-50"
+            >
+              {t("agendaImport.import")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+import { LanguageProvider } from "../contexts/LanguageContext";
+import { CalendarImport } from "./CalendarImport";
+
+describe("CalendarImport", () => {
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "SUMMARY:Weekly sync",
+    "DTSTART:20240105T010000Z",
+    "DTEND:20240105T020000Z",
+    "DESCRIPTION:- Updates (10m)\\n- Demo (20m)",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  // jsdom's File has no text()
+  const icsFile = (content: string) =>
+    Object.assign(
+      new File([content], "invite.ics", { type: "text/calendar" }),
+      {
+        text: async () => content,
+      },
+    );
+
+  const renderImport = () => {
+    const onImport = vi.fn();
+    render(
+      <LanguageProvider>
+        <CalendarImport onImport={onImport} />
+      </LanguageProvider>,
+    );
+    return onImport;
+  };
+
+  it("should list events from a chosen file and import the picked one", async () => {
+    const user = userEvent.setup();
+    const onImport = renderImport();
+
+    await user.click(
+      screen.getByRole("button", { name: "Import from calendar" }),
+    );
+    await user.upload(screen.getByLabelText("Choose .ics file"), icsFile(ics));
+
+    expect(await screen.findByText("Weekly sync")).toBeInTheDocument();
+    expect(screen.getByText(/2 items/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Use" }));
+
+    expect(onImport).toHaveBeenCalledWith({
+      details: {
+        title: "Weekly sync",
+        scheduledStart: "2024-01-05T01:00:00.000Z",
+        scheduledEnd: "2024-01-05T02:00:00.000Z",
+      },
+      agendaItems: [
+        expect.objectContaining({ name: "Updates", estimatedMinutes: 10 }),
+        expect.objectContaining({ name: "Demo", estimatedMinutes: 20 }),
+      ],
+    });
+  });
+
+  it("should report files without events", async () => {
+    const user = userEvent.setup();
+    renderImport();
+
+    await user.click(
+      screen.getByRole("button", { name: "Import from calendar" }),
+    );
+    await user.upload(
+      screen.getByLabelText("Choose .ics file"),
+      icsFile("BEGIN:VCALENDAR\r\nEND:VCALENDAR"),
+    );
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "No events found in this file.",
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import { CalendarPlus, Upload } from "lucide-react";
+import { useState } from "react";
+import { useLanguage } from "../contexts/LanguageContext";
+import {
+  type CalendarEvent,
+  type CalendarMeeting,
+  meetingFromCalendarEvent,
+  parseIcsEvents,
+} from "../lib/ics";
+
+interface CalendarImportProps {
+  onImport: (meeting: CalendarMeeting) => void;
+}
+
+/**
+ * Formats an event's start and end in local time.
+ */
+function formatEventTime(event: CalendarEvent): string {
+  if (!event.start) return "";
+  const start = new Date(event.start);
+  if (!event.end) return start.toLocaleString();
+  const end = new Date(event.end);
+  const endText =
+    end.toDateString() === start.toDateString()
+      ? end.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      : end.toLocaleString();
+  return `${start.toLocaleString()} – ${endText}`;
+}
+
+/**
+ * Import of a meeting from an iCalendar (.ics) file.
+ *
+ * A file can be dropped onto the panel or chosen with the file picker. The
+ * file is parsed in the browser and its events are listed; picking one
+ * passes its title, scheduled times and agenda to the parent.
+ *
+ * @param onImport - Callback with the picked event mapped to meeting details and agenda items
+ */
+export function CalendarImport({ onImport }: CalendarImportProps) {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [events, setEvents] = useState<CalendarEvent[] | null>(null);
+
+  const readFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setEvents(parseIcsEvents(await file.text()));
+    } catch (e) {
+      console.error("Failed to read calendar file:", e);
+      setEvents([]);
+    }
+  };
+
+  const handlePick = (event: CalendarEvent) => {
+    onImport(meetingFromCalendarEvent(event));
+    setEvents(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-center">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors flex items-center gap-2"
+        >
+          <CalendarPlus className="w-4 h-4" />
+          {t("calendarImport.title")}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 p-4 bg-card border border-border rounded-lg space-y-3 text-left">
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              readFile(e.dataTransfer.files[0]);
+            }}
+            className={`flex flex-col items-center gap-2 p-6 border-2 border-dashed rounded-lg text-sm text-muted-foreground transition-colors ${
+              isDragging ? "border-primary bg-primary/10" : "border-border"
+            }`}
+          >
+            {t("calendarImport.drop")}
+            <label className="inline-flex items-center gap-2 px-3 py-1 bg-secondary text-secondary-foreground rounded hover:bg-secondary/80 transition-colors cursor-pointer">
+              <Upload className="w-4 h-4" />
+              {t("calendarImport.chooseFile")}
+              <input
+                type="file"
+                accept="text/calendar,.ics"
+                onChange={(e) => {
+                  readFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+                className="sr-only"
+              />
+            </label>
+          </div>
+
+          {events?.length === 0 && (
+            <p className="text-sm text-destructive" role="alert">
+              {t("calendarImport.noEvents")}
+            </p>
+          )}
+
+          {events && events.length > 0 && (
+            <ul className="space-y-2">
+              {events.map((event, index) => {
+                const itemCount =
+                  meetingFromCalendarEvent(event).agendaItems.length;
+                return (
+                  <li
+                    key={event.uid ?? index}
+                    className="flex items-center gap-2 p-2 rounded-md bg-muted"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {event.summary || t("calendarImport.untitled")}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatEventTime(event)}
+                        {itemCount > 0 &&
+                          ` • ${itemCount} ${t("history.items")}`}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handlePick(event)}
+                      className="px-3 py-1 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors text-sm"
+                    >
+                      {t("calendarImport.use")}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
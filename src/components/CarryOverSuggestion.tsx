@@ -0,0 +1,61 @@
+import { SquareParking, X } from "lucide-react";
+import { useLanguage } from "../contexts/LanguageContext";
+import type { AgendaItem } from "../lib/meeting";
+
+interface CarryOverSuggestionProps {
+  items: AgendaItem[];
+  onAdd: () => void;
+  onDismiss: () => void;
+}
+
+/**
+ * Offers the items the previous meeting left in the parking lot for the
+ * agenda of the next one.
+ *
+ * @param items - Carried-over items, as they would be added
+ * @param onAdd - Callback to append the items to the agenda
+ * @param onDismiss - Callback to hide the suggestion
+ */
+export function CarryOverSuggestion({
+  items,
+  onAdd,
+  onDismiss,
+}: CarryOverSuggestionProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="bg-card rounded-lg shadow-lg p-4 border border-border mb-4 sm:mb-6">
+      <div className="flex items-center gap-2 mb-2">
+        <SquareParking className="w-5 h-5 text-amber-600 dark:text-amber-500" />
+        <span className="text-sm font-medium text-card-foreground">
+          {t("carryOver.title")}
+        </span>
+        <button
+          type="button"
+          onClick={onDismiss}
+          aria-label={t("button.cancel")}
+          className="ml-auto p-1 text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      <ul className="text-sm space-y-1 mb-3">
+        {items.map((item) => (
+          <li key={item.id} className="flex justify-between gap-2">
+            <span className="truncate">{item.name}</span>
+            <span className="text-muted-foreground">
+              {item.estimatedMinutes} {t("time.minutes")}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={onAdd}
+        className="px-3 py-1 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors text-sm"
+      >
+        {t("carryOver.add")}
+      </button>
+    </div>
+  );
+}
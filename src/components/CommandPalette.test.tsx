@@ -0,0 +1,79 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { LanguageProvider } from "../contexts/LanguageContext";
+import { CommandPalette } from "./CommandPalette";
+
+/**
+ * Test suite for the command palette.
+ *
+ * Tests filtering, keyboard selection and closing.
+ */
+describe("CommandPalette", () => {
+  const renderPalette = () => {
+    const jump = vi.fn();
+    const apply = vi.fn();
+    const onClose = vi.fn();
+    render(
+      <LanguageProvider>
+        <CommandPalette
+          commands={[
+            { id: "a", label: "Progress", group: "Items", run: jump },
+            {
+              id: "b",
+              label: "Retro template",
+              group: "Templates",
+              run: apply,
+            },
+          ]}
+          onClose={onClose}
+        />
+      </LanguageProvider>,
+    );
+    return { jump, apply, onClose, input: screen.getByRole("textbox") };
+  };
+
+  it("should focus the search field when opened", () => {
+    const { input } = renderPalette();
+
+    expect(document.activeElement).toBe(input);
+  });
+
+  it("should filter commands and run the selected one with Enter", () => {
+    const { jump, apply, onClose, input } = renderPalette();
+
+    fireEvent.change(input, { target: { value: "retro" } });
+    expect(screen.queryByText("Progress")).toBeNull();
+
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(apply).toHaveBeenCalled();
+    expect(jump).not.toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it("should leave keys to an IME conversion in progress", () => {
+    const { jump, onClose, input } = renderPalette();
+
+    fireEvent.keyDown(input, { key: "Enter", isComposing: true });
+    fireEvent.keyDown(input, { key: "Escape", isComposing: true });
+
+    expect(jump).not.toHaveBeenCalled();
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it("should move the selection with the arrow keys", () => {
+    const { apply, input } = renderPalette();
+
+    fireEvent.keyDown(input, { key: "ArrowDown" });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(apply).toHaveBeenCalled();
+  });
+
+  it("should close on Escape", () => {
+    const { onClose, input } = renderPalette();
+
+    fireEvent.keyDown(input, { key: "Escape" });
+
+    expect(onClose).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { Search } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { useLanguage } from "../contexts/LanguageContext";
+import { isImeKey } from "../lib/shortcuts";
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  /** Heading the command is listed under */
+  group: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onClose: () => void;
+}
+
+/**
+ * Ctrl/Cmd+K command palette.
+ *
+ * Filters the commands by the typed text; the arrow keys move the selection,
+ * Enter runs the selected command and Escape closes the palette. Running a
+ * command also closes it.
+ *
+ * @param commands - Commands to offer, in display order
+ * @param onClose - Callback to close the palette
+ */
+export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const { t } = useLanguage();
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // The palette is opened to type into it
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const matches = commands.filter((command) =>
+    command.label.toLowerCase().includes(query.trim().toLowerCase()),
+  );
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keys confirming or cancelling an IME conversion belong to the IME
+    if (isImeKey(e.nativeEvent)) return;
+    if (e.key === "Escape") {
+      onClose();
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelected((index) => Math.min(index + 1, matches.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelected((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter") {
+      run(matches[selected]);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-start justify-center p-4 pt-[15vh]">
+      <button
+        type="button"
+        aria-label={t("button.cancel")}
+        onClick={onClose}
+        className="absolute inset-0 cursor-default"
+      />
+      <dialog
+        open
+        aria-modal="true"
+        aria-label={t("palette.title")}
+        className="relative w-full max-w-lg m-0 text-card-foreground bg-card rounded-lg shadow-lg border border-border overflow-hidden"
+      >
+        <div className="flex items-center gap-2 px-4 border-b border-border">
+          <Search className="w-4 h-4 text-muted-foreground" />
+          <input
+            type="text"
+            ref={inputRef}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={t("palette.placeholder")}
+            aria-label={t("palette.title")}
+            className="w-full py-3 bg-transparent text-foreground focus:outline-none"
+          />
+        </div>
+        <ul className="max-h-80 overflow-y-auto py-2">
+          {matches.map((command, index) => (
+            <li key={command.id}>
+              {(index === 0 || matches[index - 1].group !== command.group) && (
+                <div className="px-4 pt-2 pb-1 text-xs font-medium text-muted-foreground">
+                  {command.group}
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={() => run(command)}
+                onMouseEnter={() => setSelected(index)}
+                className={`w-full text-left px-4 py-2 text-sm transition-colors ${
+                  index === selected
+                    ? "bg-primary text-primary-foreground"
+                    : "text-card-foreground"
+                }`}
+              >
+                {command.label}
+              </button>
+            </li>
+          ))}
+          {matches.length === 0 && (
+            <li className="px-4 py-2 text-sm text-muted-foreground">
+              {t("palette.noMatches")}
+            </li>
+          )}
+        </ul>
+      </dialog>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { LanguageProvider } from "../contexts/LanguageContext";
+import { BUILT_IN_TEMPLATES } from "../lib/templates";
 import { EmptyState } from "./EmptyState";
 
 // Wrapper component to provide required context
@@ -110,4 +111,31 @@ describe("EmptyState", () => {
     const blurEffect = container.querySelector(".group-hover\\:opacity-100");
     expect(blurEffect).toBeInTheDocument();
   });
+
+  it("should apply a template chosen from the template picker", async () => {
+    const user = userEvent.setup();
+    const onApplyTemplate = vi.fn();
+    render(
+      <LanguageProvider>
+        <EmptyState
+          onApplyTemplate={onApplyTemplate}
+          templateLibrary={{
+            templates: BUILT_IN_TEMPLATES,
+            saveTemplate: vi.fn(),
+            renameTemplate: vi.fn(),
+            deleteTemplate: vi.fn(),
+          }}
+        />
+      </LanguageProvider>,
+    );
+
+    await user.click(screen.getByRole("button", { name: /Templates/i }));
+    expect(screen.getByText("Sample meeting")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Apply" }));
+
+    expect(onApplyTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "sample" }),
+    );
+  });
 });
@@ -1,11 +1,20 @@
 import { BarChart3, Clock, Plus, Sparkles, Users } from "lucide-react";
 import { useLanguage } from "../contexts/LanguageContext";
+import type { AgendaTemplateLibrary } from "../hooks/useAgendaTemplates";
+import type { AgendaTemplate } from "../lib/templates";
+import { TemplatePicker } from "./TemplatePicker";
 
 interface EmptyStateProps {
   onAddSample?: () => void;
+  onApplyTemplate?: (template: AgendaTemplate) => void;
+  templateLibrary?: AgendaTemplateLibrary;
 }
 
-export function EmptyState({ onAddSample }: EmptyStateProps) {
+export function EmptyState({
+  onAddSample,
+  onApplyTemplate,
+  templateLibrary,
+}: EmptyStateProps) {
   const { t } = useLanguage();
 
   return (
@@ -62,6 +71,12 @@ export function EmptyState({ onAddSample }: EmptyStateProps) {
         </span>
         <div className="absolute inset-0 bg-primary/20 rounded-lg blur-xl opacity-0 group-hover:opacity-100 transition-opacity" />
       </button>
+
+      {onApplyTemplate && templateLibrary && (
+        <div className="mt-6 w-full max-w-md">
+          <TemplatePicker library={templateLibrary} onApply={onApplyTemplate} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,66 @@
+import { Check, ClipboardCopy, Download } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useLanguage } from "../contexts/LanguageContext";
+import { downloadFile } from "../lib/download";
+import type { Meeting } from "../lib/meeting";
+import { meetingToMarkdown, minutesFileName } from "../lib/minutes";
+
+interface ExportMinutesButtonsProps {
+  meeting: Meeting;
+}
+
+/**
+ * Buttons that export a meeting's Markdown minutes, either as a `.md`
+ * download or copied to the clipboard.
+ *
+ * @param meeting - Meeting to export
+ */
+export function ExportMinutesButtons({ meeting }: ExportMinutesButtonsProps) {
+  const { t } = useLanguage();
+  const [copied, setCopied] = useState(false);
+
+  // Reset the "copied" confirmation after a moment
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleDownload = () => {
+    downloadFile(
+      minutesFileName(meeting),
+      meetingToMarkdown(meeting, t),
+      "text/markdown",
+    );
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(meetingToMarkdown(meeting, t));
+      setCopied(true);
+    } catch (e) {
+      console.error("Failed to copy minutes:", e);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button
+        type="button"
+        onClick={handleDownload}
+        className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors flex items-center gap-1.5 text-sm"
+      >
+        <Download size={14} />
+        {t("minutes.download")}
+      </button>
+      <button
+        type="button"
+        onClick={handleCopy}
+        className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors flex items-center gap-1.5 text-sm"
+      >
+        {copied ? <Check size={14} /> : <ClipboardCopy size={14} />}
+        {copied ? t("minutes.copied") : t("minutes.copy")}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { LanguageProvider } from "../contexts/LanguageContext";
+import { ExtendTime } from "./ExtendTime";
+
+/**
+ * Test suite for the time box extension controls.
+ *
+ * Tests the quick buttons and the custom number of minutes.
+ */
+describe("ExtendTime", () => {
+  const renderControls = () => {
+    const onExtend = vi.fn();
+    render(
+      <LanguageProvider>
+        <ExtendTime onExtend={onExtend} />
+      </LanguageProvider>,
+    );
+    return { onExtend, input: screen.getByRole("spinbutton") };
+  };
+
+  it("should extend by one or five minutes", () => {
+    const { onExtend } = renderControls();
+
+    fireEvent.click(screen.getByRole("button", { name: "+1 min" }));
+    fireEvent.click(screen.getByRole("button", { name: "+5 min" }));
+
+    expect(onExtend.mock.calls).toEqual([[1], [5]]);
+  });
+
+  it("should extend by a custom number of minutes and clear the field", () => {
+    const { onExtend, input } = renderControls();
+
+    fireEvent.change(input, { target: { value: "3" } });
+    fireEvent.click(screen.getByRole("button", { name: "Extend" }));
+
+    expect(onExtend).toHaveBeenCalledWith(3);
+    expect(input).toHaveProperty("value", "");
+  });
+
+  it("should not extend by zero or an empty value", () => {
+    const { onExtend, input } = renderControls();
+    const apply = screen.getByRole("button", { name: "Extend" });
+
+    expect(apply).toHaveProperty("disabled", true);
+    fireEvent.change(input, { target: { value: "0" } });
+    fireEvent.keyDown(input, { key: "Enter" });
+
+    expect(apply).toHaveProperty("disabled", true);
+    expect(onExtend).not.toHaveBeenCalled();
+  });
+
+  it("should wait for an IME conversion to be confirmed", () => {
+    const { onExtend, input } = renderControls();
+
+    fireEvent.change(input, { target: { value: "3" } });
+    fireEvent.keyDown(input, { key: "Enter", isComposing: true });
+    expect(onExtend).not.toHaveBeenCalled();
+
+    fireEvent.keyDown(input, { key: "Enter" });
+    expect(onExtend).toHaveBeenCalledWith(3);
+  });
+});
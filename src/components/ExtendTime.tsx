@@ -0,0 +1,71 @@
+import { Clock } from "lucide-react";
+import { useState } from "react";
+import { useLanguage } from "../contexts/LanguageContext";
+import { isImeKey } from "../lib/shortcuts";
+
+interface ExtendTimeProps {
+  onExtend: (minutes: number) => void;
+}
+
+/**
+ * Controls to grant the active item more time: +1 and +5 minute buttons
+ * and a custom number of minutes.
+ *
+ * @param onExtend - Callback with the minutes to add to the item's time box
+ */
+export function ExtendTime({ onExtend }: ExtendTimeProps) {
+  const { t } = useLanguage();
+  const [custom, setCustom] = useState("");
+
+  const customMinutes = Number(custom);
+  const isCustomValid =
+    custom.trim() !== "" && Number.isFinite(customMinutes) && customMinutes > 0;
+
+  /**
+   * Extends by the typed number of minutes and clears the field.
+   */
+  const extendCustom = () => {
+    if (!isCustomValid) return;
+    onExtend(customMinutes);
+    setCustom("");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Clock className="w-4 h-4" />
+        {t("extend.label")}
+      </span>
+      {[1, 5].map((minutes) => (
+        <button
+          key={minutes}
+          type="button"
+          onClick={() => onExtend(minutes)}
+          className="text-sm px-2 py-0.5 bg-secondary text-secondary-foreground rounded hover:bg-secondary/80 transition-colors"
+        >
+          +{minutes} {t("time.minutes")}
+        </button>
+      ))}
+      <input
+        type="number"
+        min={1}
+        value={custom}
+        onChange={(e) => setCustom(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !isImeKey(e.nativeEvent)) extendCustom();
+        }}
+        placeholder={t("time.minutes")}
+        aria-label={t("extend.custom")}
+        className="w-16 text-sm px-2 py-0.5 border border-border rounded bg-background text-foreground"
+      />
+      <button
+        type="button"
+        onClick={extendCustom}
+        disabled={!isCustomValid}
+        className="text-sm px-2 py-0.5 bg-primary text-primary-foreground rounded hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {t("extend.apply")}
+      </button>
+    </div>
+  );
+}
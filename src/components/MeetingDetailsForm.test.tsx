@@ -0,0 +1,50 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { LanguageProvider } from "../contexts/LanguageContext";
+import type { MeetingDetails } from "../lib/meeting";
+import { MeetingDetailsForm } from "./MeetingDetailsForm";
+
+/**
+ * Test suite for the meeting details form.
+ *
+ * Tests the participant list including:
+ * - keeping the raw text while typing
+ * - following participants changed outside the form
+ */
+describe("MeetingDetailsForm", () => {
+  const renderForm = (details: MeetingDetails) => {
+    const onChange = vi.fn();
+    const view = render(
+      <LanguageProvider>
+        <MeetingDetailsForm details={details} onChange={onChange} />
+      </LanguageProvider>,
+    );
+    const rerender = (next: MeetingDetails) =>
+      view.rerender(
+        <LanguageProvider>
+          <MeetingDetailsForm details={next} onChange={onChange} />
+        </LanguageProvider>,
+      );
+    return { onChange, rerender, input: screen.getByLabelText("Participants") };
+  };
+
+  it("should keep a trailing comma while typing", () => {
+    const { onChange, rerender, input } = renderForm({});
+
+    fireEvent.change(input, { target: { value: "Alice," } });
+    rerender({ participants: ["Alice"] });
+
+    expect(onChange).toHaveBeenCalledWith({ participants: ["Alice"] });
+    expect(input).toHaveProperty("value", "Alice,");
+  });
+
+  it("should show participants changed outside the form", () => {
+    const { rerender, input } = renderForm({ participants: ["Alice"] });
+
+    rerender({ participants: ["Bob", "Carol"] });
+    expect(input).toHaveProperty("value", "Bob, Carol");
+
+    rerender({});
+    expect(input).toHaveProperty("value", "");
+  });
+});
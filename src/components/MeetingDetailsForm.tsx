@@ -0,0 +1,248 @@
+import { ChevronDown, ChevronUp, Info } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useLanguage } from "../contexts/LanguageContext";
+import { resolveAlertSettings } from "../lib/alerts";
+import {
+  type AlertSettings,
+  type MeetingDetails,
+  parseParticipants,
+} from "../lib/meeting";
+
+interface MeetingDetailsFormProps {
+  details: MeetingDetails;
+  onChange: (details: MeetingDetails) => void;
+}
+
+/**
+ * Formats an ISO timestamp for a datetime-local input (local time).
+ */
+function toLocalInput(iso: string | undefined): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+/**
+ * Parses a datetime-local input value back into an ISO timestamp.
+ */
+function fromLocalInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+/**
+ * Parses a minutes input; an empty input falls back to the default.
+ */
+function fromMinutesInput(input: HTMLInputElement): number | undefined {
+  return Number.isNaN(input.valueAsNumber)
+    ? undefined
+    : Math.max(0, input.valueAsNumber);
+}
+
+/**
+ * Collapsible form for the meeting title, facilitator, participants,
+ * purpose, scheduled start/end, the fixed end-time mode and the time alerts.
+ * Starts expanded while the meeting has no title yet so the details are
+ * filled in before starting.
+ *
+ * @param details - Current meeting details
+ * @param onChange - Callback with the updated details
+ */
+export function MeetingDetailsForm({
+  details,
+  onChange,
+}: MeetingDetailsFormProps) {
+  const { t } = useLanguage();
+  const [isOpen, setIsOpen] = useState(!details.title);
+  const participants = (details.participants ?? []).join(", ");
+  // Keep the raw text so typing a trailing comma is not normalized away
+  const [participantsText, setParticipantsText] = useState(participants);
+
+  /**
+   * Effect that follows participants changed outside the form, e.g. by a
+   * reset, running a meeting again or another tab, and leaves the text
+   * alone while it still lists the same names.
+   */
+  useEffect(() => {
+    setParticipantsText((text) =>
+      parseParticipants(text).join(", ") === participants ? text : participants,
+    );
+  }, [participants]);
+
+  /**
+   * Updates one field; empty strings clear the field.
+   */
+  const update = (changes: MeetingDetails) => {
+    onChange({ ...details, ...changes });
+  };
+
+  const alerts = resolveAlertSettings(details.alerts);
+
+  /**
+   * Updates the alert settings.
+   */
+  const updateAlerts = (changes: AlertSettings) => {
+    update({ alerts: { ...details.alerts, ...changes } });
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground";
+
+  return (
+    <div className="bg-card rounded-lg shadow-lg p-4 sm:p-6 border border-border mb-4 sm:mb-6">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        <Info className="w-5 h-5 text-primary" />
+        <span className="flex-1 min-w-0">
+          <span className="block text-lg font-semibold text-card-foreground truncate">
+            {details.title || t("details.title")}
+          </span>
+          {!isOpen && (details.facilitator || details.participants?.length) && (
+            <span className="block text-sm text-muted-foreground truncate">
+              {[details.facilitator, details.participants?.join(", ")]
+                .filter(Boolean)
+                .join(" • ")}
+            </span>
+          )}
+        </span>
+        {isOpen ? (
+          <ChevronUp className="w-5 h-5 text-muted-foreground" />
+        ) : (
+          <ChevronDown className="w-5 h-5 text-muted-foreground" />
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+            {t("details.meetingTitle")}
+            <input
+              type="text"
+              value={details.title ?? ""}
+              onChange={(e) => update({ title: e.target.value || undefined })}
+              placeholder={t("details.meetingTitlePlaceholder")}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+            {t("details.facilitator")}
+            <input
+              type="text"
+              value={details.facilitator ?? ""}
+              onChange={(e) =>
+                update({ facilitator: e.target.value || undefined })
+              }
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-muted-foreground sm:col-span-2">
+            {t("details.participants")}
+            <input
+              type="text"
+              value={participantsText}
+              onChange={(e) => {
+                setParticipantsText(e.target.value);
+                const participants = parseParticipants(e.target.value);
+                update({
+                  participants: participants.length ? participants : undefined,
+                });
+              }}
+              placeholder={t("details.participantsPlaceholder")}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+            {t("details.scheduledStart")}
+            <input
+              type="datetime-local"
+              value={toLocalInput(details.scheduledStart)}
+              onChange={(e) =>
+                update({ scheduledStart: fromLocalInput(e.target.value) })
+              }
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-muted-foreground">
+            {t("details.scheduledEnd")}
+            <input
+              type="datetime-local"
+              value={toLocalInput(details.scheduledEnd)}
+              onChange={(e) =>
+                update({ scheduledEnd: fromLocalInput(e.target.value) })
+              }
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground sm:col-span-2">
+            <input
+              type="checkbox"
+              checked={Boolean(details.fixedEnd && details.scheduledEnd)}
+              disabled={!details.scheduledEnd}
+              onChange={(e) =>
+                update({ fixedEnd: e.target.checked || undefined })
+              }
+            />
+            {t("details.fixedEnd")}
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-muted-foreground sm:col-span-2">
+            {t("details.purpose")}
+            <textarea
+              value={details.purpose ?? ""}
+              onChange={(e) => update({ purpose: e.target.value || undefined })}
+              rows={2}
+              className={inputClassName}
+            />
+          </label>
+          <fieldset className="sm:col-span-2 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-muted-foreground">
+            <legend className="mb-2 font-medium text-card-foreground">
+              {t("alerts.title")}
+            </legend>
+            <label className="flex flex-col gap-1">
+              {t("alerts.warnMinutes")}
+              <input
+                type="number"
+                min={0}
+                value={alerts.warnMinutes}
+                onChange={(e) =>
+                  updateAlerts({ warnMinutes: fromMinutesInput(e.target) })
+                }
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t("alerts.overtimeEveryMinutes")}
+              <input
+                type="number"
+                min={0}
+                value={alerts.overtimeEveryMinutes}
+                onChange={(e) =>
+                  updateAlerts({
+                    overtimeEveryMinutes: fromMinutesInput(e.target),
+                  })
+                }
+                className={inputClassName}
+              />
+            </label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2 sm:col-span-2">
+              {(["atZero", "chime", "flash", "vibrate"] as const).map((key) => (
+                <label key={key} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={alerts[key]}
+                    onChange={(e) => updateAlerts({ [key]: e.target.checked })}
+                  />
+                  {t(`alerts.${key}`)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { Copy, Trash2 } from "lucide-react";
+import { useLanguage } from "../contexts/LanguageContext";
+import { type Meeting, summarizeMeeting } from "../lib/meeting";
+import { formatTime, getTimeDifference } from "../lib/time";
+import { RunAgainButtons } from "./RunAgainButtons";
+
+interface MeetingHistoryCardProps {
+  meeting: Meeting;
+  onDuplicate: (meeting: Meeting) => void;
+  onDelete: (meeting: Meeting) => void;
+}
+
+/**
+ * One saved meeting in the history list.
+ *
+ * Shows the date, number of agenda items, total estimated vs actual time and
+ * a badge telling whether the meeting ran over or under its estimate, plus
+ * actions to run the agenda again.
+ *
+ * @param meeting - Meeting to display
+ * @param onDuplicate - Callback to store a copy of the meeting
+ * @param onDelete - Callback to delete the meeting
+ */
+export function MeetingHistoryCard({
+  meeting,
+  onDuplicate,
+  onDelete,
+}: MeetingHistoryCardProps) {
+  const { t } = useLanguage();
+  const { itemCount, totalEstimated, totalTimeBox, totalActual } =
+    summarizeMeeting(meeting);
+  const diff = totalActual - totalTimeBox;
+
+  const badge =
+    diff > 0
+      ? {
+          label: t("history.over"),
+          className: "bg-destructive/10 text-destructive",
+        }
+      : diff < 0
+        ? {
+            label: t("history.under"),
+            className: "bg-green-500/10 text-green-700 dark:text-green-500",
+          }
+        : {
+            label: t("history.onTime"),
+            className: "bg-muted text-muted-foreground",
+          };
+
+  return (
+    <li className="bg-card rounded-lg border border-border p-4 shadow-sm">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          {meeting.title && (
+            <div className="font-medium text-card-foreground truncate">
+              {meeting.title}
+            </div>
+          )}
+          <div
+            className={
+              meeting.title
+                ? "text-sm text-muted-foreground"
+                : "font-medium text-card-foreground"
+            }
+          >
+            {new Date(meeting.date).toLocaleString()}
+          </div>
+          <div className="text-sm text-muted-foreground">
+            {itemCount} {t("history.items")}
+            {meeting.facilitator && ` • ${meeting.facilitator}`}
+          </div>
+          <div className="text-sm text-muted-foreground truncate">
+            {meeting.agendaItems.map((item) => item.name).join(", ")}
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <button
+            type="button"
+            onClick={() => onDuplicate(meeting)}
+            className="p-2 rounded-md text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+            title={t("history.duplicate")}
+            aria-label={t("history.duplicate")}
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onDelete(meeting)}
+            className="p-2 rounded-md text-muted-foreground hover:bg-destructive/10 hover:text-destructive transition-colors"
+            title={t("history.delete")}
+            aria-label={t("history.delete")}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-muted-foreground">
+          {t("history.estimated")}:{" "}
+          <span className="font-mono text-foreground">
+            {formatTime(totalEstimated)}
+          </span>
+        </span>
+        <span className="text-muted-foreground">
+          {t("history.actual")}:{" "}
+          <span className="font-mono text-foreground">
+            {formatTime(totalActual)}
+          </span>
+        </span>
+        <span
+          className={`px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}
+        >
+          {badge.label} {getTimeDifference(totalTimeBox, totalActual)}
+        </span>
+      </div>
+      <div className="mt-3">
+        <RunAgainButtons meeting={meeting} />
+      </div>
+    </li>
+  );
+}
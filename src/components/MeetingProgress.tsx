@@ -3,37 +3,66 @@ import {
   ChevronDown,
   ChevronUp,
   Circle,
+  Coffee,
   Edit,
   GripVertical,
+  Lock,
+  LockOpen,
+  Mic,
   Play,
   Plus,
   Save,
+  SkipForward,
+  SquareParking,
   Trash2,
   X,
 } from "lucide-react";
 import { useState } from "react";
 import { useLanguage } from "../contexts/LanguageContext";
+import type { AgendaTemplateLibrary } from "../hooks/useAgendaTemplates";
+import type { AgendaImportMode } from "../lib/agendaText";
+import { DEFAULT_ALERT_SETTINGS } from "../lib/alerts";
+import type { CalendarMeeting } from "../lib/ics";
+import {
+  type AgendaItem,
+  type AlertThresholds,
+  type ItemMinutes,
+  timeBox,
+} from "../lib/meeting";
+import type { AgendaTemplate } from "../lib/templates";
+import { formatTime } from "../lib/time";
+import { AgendaItemNotes } from "./AgendaItemNotes";
+import { AgendaTextImport } from "./AgendaTextImport";
+import { CalendarImport } from "./CalendarImport";
 import { EmptyState } from "./EmptyState";
+import { ExtendTime } from "./ExtendTime";
+import { TemplatePicker } from "./TemplatePicker";
 import { TimeInput } from "./TimeInput";
 
-interface AgendaItem {
-  id: string;
-  name: string;
-  estimatedMinutes: number;
-  actualMinutes?: number;
-  isActive: boolean;
-  startTime?: number;
-  elapsedTime: number;
-}
-
 interface MeetingProgressProps {
   items: AgendaItem[];
   onItemClick?: (index: number) => void;
   onItemEdit?: (index: number, name: string, estimatedMinutes: number) => void;
   onItemDelete?: (index: number) => void;
   onItemAdd?: (name: string, estimatedMinutes: number) => void;
+  onBreakAdd?: () => void;
   onItemReorder?: (fromIndex: number, toIndex: number) => void;
+  onItemRevisit?: (index: number) => void;
+  onItemExtend?: (minutes: number) => void;
+  onItemOwnerChange?: (index: number, owner: string | undefined) => void;
+  onItemMinutesChange?: (index: number, minutes: ItemMinutes) => void;
+  onItemRebalanceChange?: (
+    index: number,
+    changes: Pick<AgendaItem, "fixed" | "minimumMinutes">,
+  ) => void;
+  onItemAlertsChange?: (index: number, alerts: AlertThresholds) => void;
+  budgets?: Map<string, number>;
+  participants?: string[];
   onAddSample?: () => void;
+  onApplyTemplate?: (template: AgendaTemplate) => void;
+  templateLibrary?: AgendaTemplateLibrary;
+  onImportAgenda?: (items: AgendaItem[], mode: AgendaImportMode) => void;
+  onImportCalendarEvent?: (meeting: CalendarMeeting) => void;
   isTimerRunning?: boolean;
   getCurrentElapsed?: (item: AgendaItem) => number;
 }
@@ -62,8 +91,21 @@ interface MeetingProgressProps {
  * @param onItemEdit - Callback to update an existing agenda item
  * @param onItemDelete - Callback to remove an agenda item (subject to deletion policy)
  * @param onItemAdd - Callback to create a new agenda item
+ * @param onBreakAdd - Callback to append a planned break
  * @param onItemReorder - Callback to reorder agenda items by drag and drop
+ * @param onItemRevisit - Callback to take up an item from the parking lot
+ * @param onItemExtend - Callback to add minutes to the active item's time box
+ * @param onItemOwnerChange - Callback to assign an item to a participant
+ * @param onItemMinutesChange - Callback with notes, decisions and action items of the active item
+ * @param onItemRebalanceChange - Callback to pin an item or set its minimum for fixed end-time mode
+ * @param onItemAlertsChange - Callback with an item's own alert thresholds
+ * @param budgets - Rebalanced budgets in minutes by item id (fixed end-time mode only)
+ * @param participants - Meeting participants offered as item owners
  * @param onAddSample - Callback to populate with sample data
+ * @param onApplyTemplate - Callback to replace the agenda with a template
+ * @param templateLibrary - Templates offered by the template picker
+ * @param onImportAgenda - Callback to replace or extend the agenda with pasted items
+ * @param onImportCalendarEvent - Callback with a meeting picked from an .ics file
  * @param isTimerRunning - Whether the meeting timer is currently running
  * @param getCurrentElapsed - Function to get current elapsed time for an item
  */
@@ -73,8 +115,21 @@ export function MeetingProgress({
   onItemEdit,
   onItemDelete,
   onItemAdd,
+  onBreakAdd,
   onItemReorder,
+  onItemRevisit,
+  onItemExtend,
+  onItemOwnerChange,
+  onItemMinutesChange,
+  onItemRebalanceChange,
+  onItemAlertsChange,
+  budgets,
+  participants = [],
   onAddSample,
+  onApplyTemplate,
+  templateLibrary,
+  onImportAgenda,
+  onImportCalendarEvent,
   isTimerRunning = false,
   getCurrentElapsed = () => 0,
 }: MeetingProgressProps) {
@@ -82,6 +137,9 @@ export function MeetingProgress({
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [editName, setEditName] = useState("");
   const [editTime, setEditTime] = useState(5);
+  const [editMinimum, setEditMinimum] = useState(1);
+  // Item's own warning threshold; undefined uses the meeting's
+  const [editWarn, setEditWarn] = useState<number | undefined>();
   const [isAddingNew, setIsAddingNew] = useState(false);
   const [newItemName, setNewItemName] = useState("");
   const [newItemTime, setNewItemTime] = useState(5);
@@ -110,6 +168,8 @@ export function MeetingProgress({
     setEditingIndex(index);
     setEditName(items[index].name);
     setEditTime(items[index].estimatedMinutes);
+    setEditMinimum(items[index].minimumMinutes ?? 1);
+    setEditWarn(items[index].alerts?.warnMinutes);
   };
 
   /**
@@ -120,6 +180,21 @@ export function MeetingProgress({
   const saveEdit = () => {
     if (editingIndex !== null && editName.trim() && editTime) {
       onItemEdit?.(editingIndex, editName.trim(), editTime);
+      if (
+        budgets &&
+        editMinimum !== (items[editingIndex].minimumMinutes ?? 1)
+      ) {
+        onItemRebalanceChange?.(editingIndex, {
+          minimumMinutes: Math.min(editMinimum, editTime),
+        });
+      }
+      const { alerts } = items[editingIndex];
+      if (editWarn !== alerts?.warnMinutes) {
+        onItemAlertsChange?.(editingIndex, {
+          ...alerts,
+          warnMinutes: editWarn,
+        });
+      }
       setEditingIndex(null);
       setEditName("");
       setEditTime(5);
@@ -312,7 +387,11 @@ export function MeetingProgress({
     <div className="space-y-6">
       {/* Empty state when no items */}
       {items.length === 0 && !isAddingNew && (
-        <EmptyState onAddSample={onAddSample} />
+        <EmptyState
+          onAddSample={onAddSample}
+          onApplyTemplate={onApplyTemplate}
+          templateLibrary={templateLibrary}
+        />
       )}
 
       {/* Overall progress bar - only show when items exist */}
@@ -422,13 +501,21 @@ export function MeetingProgress({
                         ? "bg-green-500 text-white"
                         : item.isActive
                           ? "bg-primary text-primary-foreground animate-pulse"
-                          : "bg-muted hover:bg-muted-foreground/20"
+                          : item.status === "deferred"
+                            ? "bg-amber-500/10 text-amber-600 dark:text-amber-500"
+                            : item.status === "skipped"
+                              ? "bg-muted text-muted-foreground"
+                              : "bg-muted hover:bg-muted-foreground/20"
                     }`}
                 >
                   {isCompleted ? (
                     <CheckCircle2 className="w-5 h-5" />
                   ) : item.isActive ? (
                     <Play className="w-4 h-4" />
+                  ) : item.status === "deferred" ? (
+                    <SquareParking className="w-5 h-5" />
+                  ) : item.status === "skipped" ? (
+                    <SkipForward className="w-4 h-4" />
                   ) : (
                     <Circle className="w-5 h-5" />
                   )}
@@ -458,6 +545,47 @@ export function MeetingProgress({
                       className="w-full px-3 py-2 border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-ring bg-background text-foreground text-sm"
                       placeholder={t("agenda.topicNamePlaceholder")}
                     />
+                    {budgets && onItemRebalanceChange && (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        {t("agenda.minimum")}
+                        <TimeInput
+                          value={editMinimum}
+                          onChange={setEditMinimum}
+                          max={editTime}
+                          className="flex-shrink-0"
+                        />
+                      </div>
+                    )}
+                    {onItemAlertsChange && (
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={editWarn !== undefined}
+                            onChange={(e) =>
+                              setEditWarn(
+                                e.target.checked
+                                  ? Math.min(
+                                      DEFAULT_ALERT_SETTINGS.warnMinutes,
+                                      editTime,
+                                    )
+                                  : undefined,
+                              )
+                            }
+                          />
+                          {t("alerts.itemWarnMinutes")}
+                        </label>
+                        {editWarn !== undefined && (
+                          <TimeInput
+                            value={editWarn}
+                            onChange={setEditWarn}
+                            min={0}
+                            max={editTime}
+                            className="flex-shrink-0"
+                          />
+                        )}
+                      </div>
+                    )}
                     <div className="flex items-center gap-2">
                       <TimeInput
                         value={editTime}
@@ -487,8 +615,15 @@ export function MeetingProgress({
                     <div className="flex items-start justify-between">
                       <h4
                         className={`font-medium transition-colors
-												${item.isActive ? "text-primary" : isCompleted ? "text-foreground" : "text-muted-foreground"}`}
+												${item.isActive ? "text-primary" : isCompleted ? "text-foreground" : "text-muted-foreground"}
+												${item.status === "skipped" ? "line-through" : ""}`}
                       >
+                        {item.isBreak && (
+                          <Coffee
+                            className="inline w-4 h-4 mr-1 -mt-0.5"
+                            aria-label={t("agenda.break")}
+                          />
+                        )}
                         {item.name}
                       </h4>
                       {onItemEdit && onItemDelete && (
@@ -552,15 +687,107 @@ export function MeetingProgress({
                         </div>
                       )}
                     </div>
+                    {item.isActive && item.owner && (
+                      <div className="flex items-center gap-1 mt-1 text-sm font-medium text-primary">
+                        <Mic className="w-4 h-4" />
+                        {t("agenda.hasFloor")} {item.owner}
+                      </div>
+                    )}
                     <div className="flex items-center gap-4 mt-1">
                       <span className="text-sm text-muted-foreground">
                         {item.estimatedMinutes} min
                       </span>
+                      {item.extendedMinutes !== undefined && (
+                        <span className="text-sm font-medium text-amber-600 dark:text-amber-500">
+                          +{item.extendedMinutes} {t("time.minutes")}{" "}
+                          {t("agenda.extended")}
+                        </span>
+                      )}
+                      {(() => {
+                        const budget = budgets?.get(item.id);
+                        return (
+                          budget !== undefined &&
+                          budget < timeBox(item) - 0.01 && (
+                            <span
+                              className="text-sm font-medium text-amber-600 dark:text-amber-500"
+                              title={t("agenda.budget")}
+                            >
+                              → {formatTime(budget)}
+                            </span>
+                          )
+                        );
+                      })()}
+                      {budgets && onItemRebalanceChange && !isCompleted && (
+                        <button
+                          type="button"
+                          onClick={() =>
+                            onItemRebalanceChange(index, {
+                              fixed: !item.fixed || undefined,
+                            })
+                          }
+                          aria-pressed={Boolean(item.fixed)}
+                          aria-label={
+                            item.fixed
+                              ? t("agenda.flexible")
+                              : t("agenda.fixed")
+                          }
+                          title={
+                            item.fixed
+                              ? t("agenda.flexible")
+                              : t("agenda.fixed")
+                          }
+                          className={`p-1 rounded transition-colors ${
+                            item.fixed
+                              ? "text-primary"
+                              : "text-muted-foreground hover:text-foreground"
+                          }`}
+                        >
+                          {item.fixed ? (
+                            <Lock className="w-4 h-4" />
+                          ) : (
+                            <LockOpen className="w-4 h-4" />
+                          )}
+                        </button>
+                      )}
+                      {onItemOwnerChange &&
+                      (participants.length > 0 || item.owner) ? (
+                        <select
+                          value={item.owner ?? ""}
+                          onChange={(e) =>
+                            onItemOwnerChange(
+                              index,
+                              e.target.value || undefined,
+                            )
+                          }
+                          aria-label={t("agenda.owner")}
+                          className="text-sm px-1 py-0.5 border border-border rounded bg-background text-foreground"
+                        >
+                          <option value="">{t("agenda.noOwner")}</option>
+                          {[
+                            ...participants,
+                            ...(item.owner && !participants.includes(item.owner)
+                              ? [item.owner]
+                              : []),
+                          ].map((name) => (
+                            <option key={name} value={name}>
+                              {name}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        item.owner && (
+                          <span className="text-sm text-muted-foreground">
+                            {item.owner}
+                          </span>
+                        )
+                      )}
                       {item.isActive && (
                         <span className="text-sm font-medium text-primary">
                           {(() => {
                             const elapsedMs = getCurrentElapsed(item);
-                            const estimatedMs = item.estimatedMinutes * 60000;
+                            // Count down the rebalanced budget when there is one
+                            const estimatedMs =
+                              (budgets?.get(item.id) ?? timeBox(item)) * 60000;
                             const remainingMs = Math.max(
                               0,
                               estimatedMs - elapsedMs,
@@ -587,13 +814,36 @@ export function MeetingProgress({
                           })()}
                         </span>
                       )}
+                      {item.status && (
+                        <span
+                          className={`text-xs font-medium px-2 py-0.5 rounded ${
+                            item.status === "deferred"
+                              ? "bg-amber-500/10 text-amber-600 dark:text-amber-500"
+                              : "bg-muted text-muted-foreground"
+                          }`}
+                        >
+                          {t(`agenda.${item.status}`)}
+                        </span>
+                      )}
+                      {item.status === "deferred" &&
+                        onItemRevisit &&
+                        !items.some((other) => other.isActive) && (
+                          <button
+                            type="button"
+                            onClick={() => onItemRevisit(index)}
+                            className="text-sm px-2 py-0.5 bg-secondary text-secondary-foreground rounded hover:bg-secondary/80 transition-colors"
+                          >
+                            {t("agenda.revisit")}
+                          </button>
+                        )}
                       {!item.isActive &&
                         !item.actualMinutes &&
+                        !item.status &&
                         item.elapsedTime > 0 && (
                           <span className="text-sm font-medium text-muted-foreground">
                             {(() => {
                               const elapsedMs = item.elapsedTime;
-                              const estimatedMs = item.estimatedMinutes * 60000;
+                              const estimatedMs = timeBox(item) * 60000;
                               const remainingMs = Math.max(
                                 0,
                                 estimatedMs - elapsedMs,
@@ -623,13 +873,10 @@ export function MeetingProgress({
                       {item.actualMinutes && (
                         <span
                           className={`text-sm font-medium
-													${item.actualMinutes > item.estimatedMinutes ? "text-destructive" : "text-green-600 dark:text-green-500"}`}
+													${item.actualMinutes > timeBox(item) ? "text-destructive" : "text-green-600 dark:text-green-500"}`}
                         >
-                          {item.actualMinutes > item.estimatedMinutes
-                            ? "+"
-                            : "-"}
-                          {Math.abs(item.actualMinutes - item.estimatedMinutes)}{" "}
-                          min
+                          {item.actualMinutes > timeBox(item) ? "+" : "-"}
+                          {Math.abs(item.actualMinutes - timeBox(item))} min
                         </span>
                       )}
                     </div>
@@ -640,6 +887,26 @@ export function MeetingProgress({
                         <div className="h-full bg-primary animate-progress" />
                       </div>
                     )}
+
+                    {/* More time for the item under discussion */}
+                    {item.isActive && onItemExtend && (
+                      <ExtendTime onExtend={onItemExtend} />
+                    )}
+
+                    {/* Minutes for the item under discussion */}
+                    {item.isActive && onItemMinutesChange && (
+                      <AgendaItemNotes
+                        minutes={{
+                          notes: item.notes,
+                          decisions: item.decisions,
+                          actionItems: item.actionItems,
+                        }}
+                        assignees={participants}
+                        onChange={(minutes) =>
+                          onItemMinutesChange(index, minutes)
+                        }
+                      />
+                    )}
                   </div>
                 )}
               </div>
@@ -693,6 +960,35 @@ export function MeetingProgress({
               <Plus className="w-4 h-4" />
               {t("agenda.add")}
             </button>
+            {onBreakAdd && (
+              <button
+                type="button"
+                onClick={onBreakAdd}
+                className="ml-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors flex items-center gap-2"
+              >
+                <Coffee className="w-4 h-4" />
+                {t("agenda.addBreak")}
+              </button>
+            )}
+          </div>
+        )}
+        {onApplyTemplate && templateLibrary && items.length > 0 && (
+          <div className="mt-4">
+            <TemplatePicker
+              library={templateLibrary}
+              onApply={onApplyTemplate}
+              currentItems={items}
+            />
+          </div>
+        )}
+        {onImportAgenda && (
+          <div className="mt-4">
+            <AgendaTextImport currentItems={items} onImport={onImportAgenda} />
+          </div>
+        )}
+        {onImportCalendarEvent && (
+          <div className="mt-4">
+            <CalendarImport onImport={onImportCalendarEvent} />
           </div>
         )}
       </div>
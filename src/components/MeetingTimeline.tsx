@@ -0,0 +1,62 @@
+import { useLanguage } from "../contexts/LanguageContext";
+import type { Meeting } from "../lib/meeting";
+import { occurrenceKeys } from "../lib/utils";
+
+interface MeetingTimelineProps {
+  meeting: Meeting;
+}
+
+/**
+ * What happened when during a saved meeting, read from its event log.
+ *
+ * Each entry shows the clock time, the kind of event and the items it
+ * concerned: the item that was left, moved or edited, and the item that
+ * became active. Meetings saved before the log existed render nothing.
+ *
+ * @param meeting - Meeting whose log to show
+ */
+export function MeetingTimeline({ meeting }: MeetingTimelineProps) {
+  const { t } = useLanguage();
+  if (!meeting.events?.length) return null;
+
+  const names = new Map(
+    meeting.agendaItems.map((item) => [item.id, item.name]),
+  );
+  const nameOf = (id?: string) =>
+    id !== undefined ? names.get(id) : undefined;
+  const keys = occurrenceKeys(
+    meeting.events.map((event) => `${event.at}:${event.type}`),
+  );
+
+  return (
+    <ol className="space-y-1 text-sm" aria-label={t("retrospective.timeline")}>
+      {meeting.events.map((event, index) => {
+        const item = nameOf(event.itemId);
+        const next = nameOf(event.nextItemId);
+        return (
+          <li key={keys[index]} className="flex flex-wrap gap-x-3">
+            <time
+              dateTime={new Date(event.at).toISOString()}
+              className="font-mono text-muted-foreground"
+            >
+              {new Date(event.at).toLocaleTimeString()}
+            </time>
+            <span className="font-medium">{t(`timeline.${event.type}`)}</span>
+            {item && <span>{item}</span>}
+            {next && <span className="text-primary">→ {next}</span>}
+            {event.estimatedMinutes !== undefined && (
+              <span className="text-muted-foreground">
+                {event.estimatedMinutes} {t("time.minutes")}
+              </span>
+            )}
+            {event.minutes !== undefined && (
+              <span className="text-muted-foreground">
+                +{event.minutes} {t("time.minutes")}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -1,5 +1,6 @@
 import { render, screen } from "@testing-library/react";
 import { describe, expect, it } from "vitest";
+import { LanguageProvider } from "../contexts/LanguageContext";
 import { MeetingTimer } from "./MeetingTimer";
 
 describe("MeetingTimer", () => {
@@ -14,6 +15,7 @@ describe("MeetingTimer", () => {
         totalEstimated={totalEstimated}
         isRunning={false}
       />,
+      { wrapper: LanguageProvider },
     );
 
     // Should show 00:07:00 (hours:minutes:seconds)
@@ -34,6 +36,7 @@ describe("MeetingTimer", () => {
         totalEstimated={totalEstimated}
         isRunning={false}
       />,
+      { wrapper: LanguageProvider },
     );
 
     // Should show +00:02:00
@@ -50,6 +53,7 @@ describe("MeetingTimer", () => {
         totalEstimated={10 * 60 * 1000}
         isRunning={true}
       />,
+      { wrapper: LanguageProvider },
     );
 
     // Should have animated pulse indicators
@@ -68,6 +72,7 @@ describe("MeetingTimer", () => {
         totalEstimated={totalEstimated}
         isRunning={false}
       />,
+      { wrapper: LanguageProvider },
     );
 
     // Should show 00:00:00
@@ -85,6 +90,7 @@ describe("MeetingTimer", () => {
         totalEstimated={totalEstimated}
         isRunning={false}
       />,
+      { wrapper: LanguageProvider },
     );
 
     // Should show 01:25:00
@@ -103,6 +109,7 @@ describe("MeetingTimer", () => {
         totalEstimated={totalEstimated}
         isRunning={false}
       />,
+      { wrapper: LanguageProvider },
     );
 
     // Should show 00:06:15
@@ -117,6 +124,7 @@ describe("MeetingTimer", () => {
         totalEstimated={10 * 60 * 1000}
         isRunning={true}
       />,
+      { wrapper: LanguageProvider },
     );
 
     // Check for destructive color classes
@@ -135,6 +143,7 @@ describe("MeetingTimer", () => {
         totalEstimated={10 * 60 * 1000}
         isRunning={true}
       />,
+      { wrapper: LanguageProvider },
     );
 
     // Check for primary color classes
@@ -145,4 +154,40 @@ describe("MeetingTimer", () => {
     const normalBorder = container.querySelector(".border-border");
     expect(normalBorder).toBeInTheDocument();
   });
+
+  it("should show the fixed end time when one is set", () => {
+    const fixedEndTime = new Date(2024, 0, 5, 11, 30).getTime();
+
+    render(
+      <MeetingTimer
+        totalElapsed={0}
+        totalEstimated={10 * 60 * 1000}
+        isRunning={false}
+        fixedEndTime={fixedEndTime}
+      />,
+      { wrapper: LanguageProvider },
+    );
+
+    expect(screen.getByText("Fixed End")).toBeInTheDocument();
+    expect(screen.getByText("11:30")).toBeInTheDocument();
+  });
+
+  it("should push the estimated end back by the paused time", () => {
+    const startTime = new Date(2024, 0, 5, 10, 0).getTime();
+
+    render(
+      <MeetingTimer
+        totalElapsed={5 * 60 * 1000}
+        totalEstimated={30 * 60 * 1000}
+        isRunning={true}
+        startTime={startTime}
+        pausedTime={15 * 60 * 1000}
+      />,
+      { wrapper: LanguageProvider },
+    );
+
+    expect(screen.getByText("Paused")).toBeInTheDocument();
+    expect(screen.getByText("15m")).toBeInTheDocument();
+    expect(screen.getByText("10:45")).toBeInTheDocument();
+  });
 });
@@ -1,14 +1,6 @@
 import { Clock } from "lucide-react";
-
-interface AgendaItem {
-  id: string;
-  name: string;
-  estimatedMinutes: number;
-  actualMinutes?: number;
-  isActive: boolean;
-  startTime?: number;
-  elapsedTime: number;
-}
+import { useLanguage } from "../contexts/LanguageContext";
+import { type AgendaItem, timeBox } from "../lib/meeting";
 
 interface MeetingTimerProps {
   totalElapsed: number;
@@ -16,6 +8,9 @@ interface MeetingTimerProps {
   isRunning: boolean;
   startTime?: number;
   agendaItems?: AgendaItem[];
+  fixedEndTime?: number;
+  pausedTime?: number;
+  size?: "default" | "large";
 }
 
 /**
@@ -25,13 +20,19 @@ interface MeetingTimerProps {
  * Shows timer in countdown format with visual indicators for running state.
  * Changes appearance when time is exceeded.
  * Also displays start time and estimated end time for reference.
- * Adjusts estimated end time based on agenda progress (ahead/behind schedule).
+ * Adjusts estimated end time based on agenda progress (ahead/behind schedule)
+ * and on the time the meeting has spent paused.
  *
  * @param totalElapsed - Total elapsed time in milliseconds
  * @param totalEstimated - Total estimated time in milliseconds
  * @param isRunning - Whether the timer is currently running
  * @param startTime - Meeting start timestamp in milliseconds (optional)
  * @param agendaItems - Array of agenda items for progress calculation (optional)
+ * @param fixedEndTime - Hard end timestamp in fixed end-time mode (optional);
+ *   shown instead of the estimated end, which is what the agenda is rebalanced
+ *   to meet
+ * @param pausedTime - Total paused time in milliseconds (optional)
+ * @param size - "large" for a countdown readable across a room (default: "default")
  */
 export function MeetingTimer({
   totalElapsed,
@@ -39,7 +40,11 @@ export function MeetingTimer({
   isRunning,
   startTime,
   agendaItems,
+  fixedEndTime,
+  pausedTime = 0,
+  size = "default",
 }: MeetingTimerProps) {
+  const { t } = useLanguage();
   const totalEstimatedMs = totalEstimated; // Already in milliseconds
   const remainingMs = Math.max(0, totalEstimatedMs - totalElapsed);
   const isOvertime = totalElapsed > totalEstimatedMs;
@@ -77,12 +82,12 @@ export function MeetingTimer({
       if (item.actualMinutes !== undefined) {
         // Completed item: calculate difference between actual and estimated
         const actualMs = item.actualMinutes * 60000;
-        const estimatedMs = item.estimatedMinutes * 60000;
+        const estimatedMs = timeBox(item) * 60000;
         adjustmentMs += actualMs - estimatedMs;
       } else if (item.isActive && item.startTime) {
         // Current active item: calculate current progress vs pace
         const currentElapsed = item.elapsedTime + (Date.now() - item.startTime);
-        const estimatedMs = item.estimatedMinutes * 60000;
+        const estimatedMs = timeBox(item) * 60000;
         if (currentElapsed > estimatedMs) {
           // Currently running overtime
           adjustmentMs += currentElapsed - estimatedMs;
@@ -93,11 +98,11 @@ export function MeetingTimer({
     return adjustmentMs;
   };
 
-  // Calculate start and end times
-  const meetingStartTime = startTime || Date.now() - totalElapsed;
+  // Calculate start and end times; pauses push the end back in wall-clock time
+  const meetingStartTime = startTime || Date.now() - totalElapsed - pausedTime;
   const progressAdjustmentMs = calculateProgressAdjustment();
   const estimatedEndTime =
-    meetingStartTime + totalEstimatedMs + progressAdjustmentMs;
+    meetingStartTime + totalEstimatedMs + progressAdjustmentMs + pausedTime;
 
   return (
     <div className="relative">
@@ -129,7 +134,11 @@ export function MeetingTimer({
         </div>
 
         {/* Large timer display */}
-        <div className="flex items-center justify-center gap-2 text-6xl font-mono font-bold">
+        <div
+          className={`flex items-center justify-center gap-2 font-mono font-bold ${
+            size === "large" ? "text-7xl sm:text-9xl" : "text-6xl"
+          }`}
+        >
           {isOvertime && <span className="text-destructive">+</span>}
           <span
             className={`tabular-nums ${
@@ -178,6 +187,24 @@ export function MeetingTimer({
             <div className="font-medium">Start</div>
             <div>{formatTime(meetingStartTime)}</div>
           </div>
+          {pausedTime >= 60000 && (
+            <div className="text-center">
+              <div className="font-medium">{t("timer.paused")}</div>
+              <div>{Math.round(pausedTime / 60000)}m</div>
+            </div>
+          )}
+          {fixedEndTime !== undefined && (
+            <div className="text-center">
+              <div className="font-medium">{t("timer.fixedEnd")}</div>
+              <div
+                className={
+                  estimatedEndTime > fixedEndTime ? "text-destructive" : ""
+                }
+              >
+                {formatTime(fixedEndTime)}
+              </div>
+            </div>
+          )}
           <div className="text-right">
             <div className="font-medium flex items-center gap-1">
               Est. End
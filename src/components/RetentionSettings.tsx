@@ -0,0 +1,82 @@
+import { useLanguage } from "../contexts/LanguageContext";
+import type { RetentionPolicy } from "../lib/storage";
+
+interface RetentionSettingsProps {
+  value: RetentionPolicy;
+  onChange: (policy: RetentionPolicy) => void;
+}
+
+const DEFAULT_MAX_MEETINGS = 50;
+const DEFAULT_DAYS = 90;
+
+/**
+ * Retention policy selector for the local meeting history.
+ *
+ * Lets the user keep history forever, keep the newest N meetings, or keep
+ * meetings from the last N days. Changes are applied immediately by the
+ * parent, which prunes anything outside the new policy.
+ *
+ * @param value - Current retention policy
+ * @param onChange - Callback with the new policy
+ */
+export function RetentionSettings({ value, onChange }: RetentionSettingsProps) {
+  const { t } = useLanguage();
+
+  /**
+   * Switches the policy kind, keeping the current amount when possible.
+   *
+   * @param kind - Selected policy kind
+   */
+  const changeKind = (kind: RetentionPolicy["kind"]) => {
+    if (kind === "forever") {
+      onChange({ kind });
+    } else if (kind === "count") {
+      onChange({ kind, max: DEFAULT_MAX_MEETINGS });
+    } else {
+      onChange({ kind, days: DEFAULT_DAYS });
+    }
+  };
+
+  /**
+   * Updates the amount for count/days policies.
+   * Ignores empty or non-positive input.
+   *
+   * @param amount - Number of meetings or days
+   */
+  const changeAmount = (amount: number) => {
+    if (!Number.isInteger(amount) || amount < 1) return;
+    if (value.kind === "count") {
+      onChange({ kind: "count", max: amount });
+    } else if (value.kind === "days") {
+      onChange({ kind: "days", days: amount });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <label htmlFor="history-retention" className="text-muted-foreground">
+        {t("history.retention")}
+      </label>
+      <select
+        id="history-retention"
+        value={value.kind}
+        onChange={(e) => changeKind(e.target.value as RetentionPolicy["kind"])}
+        className="px-2 py-1 border border-border rounded-md bg-background text-foreground"
+      >
+        <option value="forever">{t("history.retention.forever")}</option>
+        <option value="count">{t("history.retention.count")}</option>
+        <option value="days">{t("history.retention.days")}</option>
+      </select>
+      {value.kind !== "forever" && (
+        <input
+          type="number"
+          min={1}
+          value={value.kind === "count" ? value.max : value.days}
+          onChange={(e) => changeAmount(Number(e.target.value))}
+          className="w-20 px-2 py-1 border border-border rounded-md bg-background text-foreground"
+          aria-label={t(`history.retention.${value.kind}`)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { Play, RotateCw } from "lucide-react";
+import { useLanguage } from "../contexts/LanguageContext";
+import { useRunAgain } from "../hooks/useRunAgain";
+import type { Meeting } from "../lib/meeting";
+
+interface RunAgainButtonsProps {
+  meeting: Meeting;
+}
+
+/**
+ * Buttons that start a new meeting from a past meeting's agenda, either
+ * with the original estimates or with the past actual times as estimates.
+ *
+ * @param meeting - Meeting whose agenda is reused
+ */
+export function RunAgainButtons({ meeting }: RunAgainButtonsProps) {
+  const { t } = useLanguage();
+  const runAgain = useRunAgain();
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <button
+        type="button"
+        onClick={() => runAgain(meeting)}
+        className="px-3 py-1.5 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors flex items-center gap-1.5 text-sm"
+      >
+        <Play size={14} />
+        {t("runAgain.button")}
+      </button>
+      <button
+        type="button"
+        onClick={() => runAgain(meeting, { useActualsAsEstimates: true })}
+        title={t("runAgain.useActualsHint")}
+        className="px-3 py-1.5 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors flex items-center gap-1.5 text-sm"
+      >
+        <RotateCw size={14} />
+        {t("runAgain.useActuals")}
+      </button>
+    </div>
+  );
+}
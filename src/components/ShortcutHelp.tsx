@@ -0,0 +1,82 @@
+import { Keyboard, X } from "lucide-react";
+import { useEffect } from "react";
+import { useLanguage } from "../contexts/LanguageContext";
+import { SHORTCUTS } from "../lib/shortcuts";
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+/**
+ * Overlay listing the keyboard shortcuts, opened with `?`.
+ * Escape, the close button or a click outside closes it.
+ *
+ * @param onClose - Callback to close the overlay
+ */
+export function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const { t } = useLanguage();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape" || event.key === "?") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+      <button
+        type="button"
+        aria-label={t("button.cancel")}
+        onClick={onClose}
+        className="absolute inset-0 cursor-default"
+      />
+      <dialog
+        open
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        className="relative w-full max-w-md m-0 text-card-foreground bg-card rounded-lg shadow-lg border border-border p-6"
+      >
+        <div className="flex items-center gap-2 mb-4">
+          <Keyboard className="w-5 h-5 text-primary" />
+          <h2
+            id="shortcut-help-title"
+            className="text-lg font-semibold text-card-foreground"
+          >
+            {t("shortcuts.title")}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label={t("button.cancel")}
+            className="ml-auto p-1 text-muted-foreground hover:text-foreground transition-colors"
+          >
+            <X size={16} />
+          </button>
+        </div>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+          {SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.action} className="contents">
+              <dt className="flex gap-1">
+                {shortcut.keys.map((key) => (
+                  <kbd
+                    key={key}
+                    className="px-2 py-0.5 rounded border border-border bg-muted font-mono text-xs"
+                  >
+                    {key === "Space" ? t("shortcuts.space") : key}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className="text-card-foreground">
+                {t(`shortcuts.${shortcut.action}`)}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </dialog>
+    </div>
+  );
+}
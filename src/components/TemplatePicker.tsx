@@ -0,0 +1,204 @@
+import { Edit, LayoutTemplate, Save, Trash2, X } from "lucide-react";
+import { useState } from "react";
+import { useLanguage } from "../contexts/LanguageContext";
+import type { AgendaTemplateLibrary } from "../hooks/useAgendaTemplates";
+import type { AgendaItem } from "../lib/meeting";
+import { isImeKey } from "../lib/shortcuts";
+import type { AgendaTemplate } from "../lib/templates";
+
+interface TemplatePickerProps {
+  library: AgendaTemplateLibrary;
+  onApply: (template: AgendaTemplate) => void;
+  currentItems?: AgendaItem[];
+}
+
+/**
+ * Agenda template library.
+ *
+ * A toggle button opens a panel listing built-in and user templates. Any
+ * template can be applied; user templates can also be renamed or deleted.
+ * When the current agenda is passed in, it can be saved as a new template.
+ *
+ * @param library - Template library shared with the command palette
+ * @param onApply - Callback with the chosen template
+ * @param currentItems - Current agenda, enables "save as template"
+ */
+export function TemplatePicker({
+  library,
+  onApply,
+  currentItems,
+}: TemplatePickerProps) {
+  const { t } = useLanguage();
+  const { templates, saveTemplate, renameTemplate, deleteTemplate } = library;
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+
+  /**
+   * Display name; built-in template names are translation keys.
+   */
+  const displayName = (template: AgendaTemplate) =>
+    template.builtIn ? t(template.name) : template.name;
+
+  const handleApply = (template: AgendaTemplate) => {
+    onApply(template);
+    setIsOpen(false);
+  };
+
+  const handleSave = () => {
+    if (currentItems && currentItems.length > 0 && newName.trim()) {
+      saveTemplate(newName.trim(), currentItems);
+      setNewName("");
+    }
+  };
+
+  const startRename = (template: AgendaTemplate) => {
+    setRenamingId(template.id);
+    setRenameValue(template.name);
+  };
+
+  const saveRename = () => {
+    if (renamingId && renameValue.trim()) {
+      renameTemplate(renamingId, renameValue.trim());
+      setRenamingId(null);
+    }
+  };
+
+  const handleDelete = (template: AgendaTemplate) => {
+    if (window.confirm(t("templates.deleteConfirm"))) {
+      deleteTemplate(template.id);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex justify-center">
+        <button
+          type="button"
+          onClick={() => setIsOpen(!isOpen)}
+          aria-expanded={isOpen}
+          className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/80 transition-colors flex items-center gap-2"
+        >
+          <LayoutTemplate className="w-4 h-4" />
+          {t("templates.title")}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 p-4 bg-card border border-border rounded-lg space-y-2 text-left">
+          <ul className="space-y-2">
+            {templates.map((template) => (
+              <li
+                key={template.id}
+                className="flex items-center gap-2 p-2 rounded-md bg-muted"
+              >
+                {renamingId === template.id ? (
+                  <>
+                    <input
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) =>
+                        // Leave an Enter confirming an IME conversion alone
+                        e.key === "Enter" &&
+                        !isImeKey(e.nativeEvent) &&
+                        saveRename()
+                      }
+                      aria-label={t("templates.name")}
+                      className="flex-1 min-w-0 px-2 py-1 border border-border rounded-md bg-background text-foreground text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={saveRename}
+                      aria-label={t("templates.rename")}
+                      className="p-1 bg-green-600 text-white rounded hover:bg-green-700 transition-colors"
+                    >
+                      <Save className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setRenamingId(null)}
+                      aria-label={t("button.cancel")}
+                      className="p-1 bg-secondary text-secondary-foreground rounded hover:bg-secondary/80 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">
+                        {displayName(template)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {template.items.length} {t("history.items")} •{" "}
+                        {template.items.reduce(
+                          (sum, item) => sum + item.estimatedMinutes,
+                          0,
+                        )}{" "}
+                        {t("time.minutes")}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => handleApply(template)}
+                      className="px-3 py-1 bg-primary text-primary-foreground rounded hover:bg-primary/90 transition-colors text-sm"
+                    >
+                      {t("templates.apply")}
+                    </button>
+                    {!template.builtIn && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => startRename(template)}
+                          aria-label={t("templates.rename")}
+                          className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(template)}
+                          aria-label={t("templates.delete")}
+                          className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {currentItems && currentItems.length > 0 && (
+            <div className="flex gap-2 pt-2 border-t border-border">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) =>
+                  e.key === "Enter" && !isImeKey(e.nativeEvent) && handleSave()
+                }
+                placeholder={t("templates.namePlaceholder")}
+                aria-label={t("templates.name")}
+                className="flex-1 min-w-0 px-2 py-1 border border-border rounded-md bg-background text-foreground text-sm"
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!newName.trim()}
+                className="px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 transition-colors flex items-center gap-1 text-sm disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {t("templates.saveCurrent")}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -55,6 +55,208 @@ const translations: Record<Language, Translations> = {
     "history.items": "items",
     "history.total": "Total:",
     "button.load": "Load",
+    "agenda.owner": "Owner",
+    "agenda.noOwner": "Unassigned",
+    "agenda.hasFloor": "Presenting:",
+    "agenda.budget": "Rebalanced budget",
+    "agenda.fixed": "Keep this item's time when rebalancing",
+    "agenda.flexible": "Allow shrinking this item when rebalancing",
+    "agenda.minimum": "Minimum (min)",
+    "timer.fixedEnd": "Fixed End",
+    "agenda.break": "Break",
+    "agenda.addBreak": "Add Break",
+    "timer.paused": "Paused",
+    "agenda.skip": "Skip",
+    "agenda.defer": "Park",
+    "agenda.skipped": "Skipped",
+    "agenda.extended": "extended",
+    "extend.label": "More time:",
+    "extend.custom": "Minutes to add",
+    "extend.apply": "Extend",
+    "agenda.deferred": "Parked",
+    "agenda.revisit": "Discuss now",
+    "carryOver.title": "Parked in the last meeting",
+    "carryOver.add": "Add to agenda",
+    "table.owner": "Owner",
+    "table.extended": "Extended",
+    "retrospective.byOwner": "Time by Owner",
+    "retrospective.timeline": "Timeline",
+    "retrospective.pausedTime": "Total Paused",
+    "retrospective.pauseCount": "pauses",
+    "retrospective.breakTime": "Planned Breaks",
+    "retrospective.setAside": "Skipped & Parked",
+    "retrospective.carriedOver": "Suggested for the next meeting",
+    "retrospective.totalExtended": "Total Extended",
+    "timeline.start": "Started",
+    "timeline.pause": "Paused",
+    "timeline.resume": "Resumed",
+    "timeline.complete": "Completed",
+    "timeline.goBack": "Went back",
+    "timeline.skip": "Skipped",
+    "timeline.defer": "Parked",
+    "timeline.revisit": "Revisited",
+    "timeline.jump": "Jumped",
+    "timeline.extend": "Extended",
+    "timeline.reorder": "Moved",
+    "timeline.editEstimate": "Estimate changed",
+    "data.title": "Backup & Import",
+    "data.link": "Backup & import",
+    "data.export": "Export",
+    "data.exportDescription":
+      "Download every saved meeting. JSON keeps all data and can be imported again; CSV has one row per agenda item for spreadsheets.",
+    "data.exportJson": "Export JSON",
+    "data.exportCsv": "Export CSV",
+    "data.import": "Import",
+    "data.importDescription":
+      "Import a JSON export from this or another browser.",
+    "data.chooseFile": "Choose JSON file",
+    "data.previewMeetings": "Meetings in file:",
+    "data.previewExisting": "Already in history:",
+    "data.modeMerge": "Merge (keep current history, skip existing meetings)",
+    "data.modeReplace": "Replace current history",
+    "data.replaceConfirm":
+      "Replace the whole meeting history with the imported meetings?",
+    "data.importButton": "Import",
+    "data.imported": "Meetings imported:",
+    "data.error.invalidJson": "The file is not valid JSON.",
+    "data.error.invalidBundle": "The file is not a meeting history export.",
+    "data.error.duplicateIds": "The file contains duplicate meeting ids:",
+    "data.error.importFailed": "Import failed.",
+    "minutes.title": "Meeting minutes",
+    "minutes.date": "Date",
+    "minutes.agenda": "Agenda",
+    "minutes.total": "Total",
+    "minutes.download": "Download Markdown",
+    "minutes.copy": "Copy Markdown",
+    "minutes.copied": "Copied!",
+    "minutes.saved": "Meeting saved. Export the minutes:",
+    "notes.title": "Notes",
+    "notes.placeholder": "Notes for this topic…",
+    "notes.decisions": "Decisions",
+    "notes.decisionPlaceholder": "Add a decision",
+    "notes.addDecision": "Add decision",
+    "notes.actionItems": "Action items",
+    "notes.actionPlaceholder": "Add an action item",
+    "notes.addActionItem": "Add action item",
+    "notes.assignee": "Assignee",
+    "notes.dueDate": "Due date",
+    "notes.remove": "Remove",
+    "details.title": "Meeting details",
+    "details.meetingTitle": "Title",
+    "details.meetingTitlePlaceholder": "e.g. Weekly standup",
+    "details.facilitator": "Facilitator",
+    "details.participants": "Participants",
+    "details.participantsPlaceholder": "Comma-separated names",
+    "details.purpose": "Purpose",
+    "details.scheduledStart": "Scheduled start",
+    "details.scheduledEnd": "Scheduled end",
+    "details.fixedEnd":
+      "Finish at the scheduled end (shrink remaining items when running over)",
+    "alerts.title": "Time alerts",
+    "alerts.warnMinutes": "Warn with this many minutes left (0 = off)",
+    "alerts.overtimeEveryMinutes": "Overtime reminder every (min, 0 = off)",
+    "alerts.atZero": "Alert when time is up",
+    "alerts.chime": "Chime",
+    "alerts.flash": "Flash screen",
+    "alerts.vibrate": "Vibrate",
+    "alerts.itemWarnMinutes": "Own warning (min left)",
+    "alerts.mute": "Mute alerts",
+    "alerts.unmute": "Unmute alerts",
+    "alerts.warning": "Time is almost up",
+    "alerts.timeUp": "Time is up",
+    "alerts.overtime": "Still running over",
+    "notifications.toggle": "Notify in background",
+    "shortcuts.title": "Keyboard shortcuts",
+    "shortcuts.space": "Space",
+    "shortcuts.toggleTimer": "Start / pause",
+    "shortcuts.next": "Next item",
+    "shortcuts.previous": "Previous item",
+    "shortcuts.addOneMinute": "Extend the current item by 1 minute",
+    "shortcuts.addFiveMinutes": "Extend the current item by 5 minutes",
+    "shortcuts.reset": "Reset meeting",
+    "shortcuts.palette": "Command palette",
+    "shortcuts.help": "Show this list",
+    "shortcuts.confirmReset":
+      "Reset the meeting? All recorded times will be cleared.",
+    "palette.title": "Command palette",
+    "palette.placeholder": "Jump to an item, apply a template…",
+    "palette.items": "Agenda items",
+    "palette.templates": "Templates",
+    "palette.actions": "Actions",
+    "palette.noMatches": "No matching commands",
+    "presenter.open": "Presenter view",
+    "presenter.back": "Back to tracker",
+    "presenter.fullscreen": "Full screen",
+    "presenter.exitFullscreen": "Exit full screen",
+    "presenter.current": "Now",
+    "presenter.overtime": "Overtime",
+    "presenter.notStarted": "Not started yet",
+    "presenter.next": "Up next:",
+    "presenter.noNext": "Nothing, this is the last item",
+    "presenter.progress": "Agenda progress",
+    "presenter.noSession": "No meeting in progress",
+    "presenter.noSessionDescription":
+      "Set up the agenda on the tracker page; this view follows it live.",
+    "tabSync.mirroring":
+      "This meeting is run from another tab. This tab follows it live; the timer controls are sent to that tab.",
+    "tabSync.takeOver": "Run it here",
+    "notifications.description":
+      "Show a browser notification when an item or the meeting runs out of time while this tab is hidden",
+    "notifications.itemTimeUp": "Time is up",
+    "notifications.meetingEnd": "The meeting's planned time is up",
+    "agendaImport.title": "Paste agenda",
+    "agendaImport.text": "Agenda text",
+    "agendaImport.placeholder":
+      "- Project update (10m)\n- Roadmap review 1h30m\n- Q&A",
+    "agendaImport.append": "Add after current items",
+    "agendaImport.replace": "Replace current agenda",
+    "agendaImport.preview": "Preview",
+    "agendaImport.import": "Import",
+    "calendarImport.title": "Import from calendar",
+    "calendarImport.drop": "Drop an .ics file here",
+    "calendarImport.chooseFile": "Choose .ics file",
+    "calendarImport.noEvents": "No events found in this file.",
+    "calendarImport.untitled": "(No title)",
+    "calendarImport.use": "Use",
+    "templates.title": "Templates",
+    "templates.sample": "Sample meeting",
+    "templates.apply": "Apply",
+    "templates.rename": "Rename template",
+    "templates.delete": "Delete template",
+    "templates.deleteConfirm": "Delete this template?",
+    "templates.name": "Template name",
+    "templates.namePlaceholder": "Name for the current agenda",
+    "templates.saveCurrent": "Save as template",
+    "templates.confirmReplace":
+      "The current agenda has progress. Replace it with this template?",
+    "runAgain.button": "Run again",
+    "runAgain.useActuals": "Run with actual times",
+    "runAgain.useActualsHint":
+      "Start a new meeting using this meeting's actual times as estimates",
+    "runAgain.confirmReplace":
+      "A meeting is in progress. Replace it with this agenda?",
+    "history.loadMore": "Load older meetings",
+    "history.retention": "Keep history",
+    "history.retention.forever": "Forever",
+    "history.retention.count": "Last N meetings",
+    "history.retention.days": "Last N days",
+    "history.search": "Search titles and agenda items",
+    "history.from": "From",
+    "history.to": "To",
+    "history.sort": "Sort",
+    "history.sort.newest": "Newest first",
+    "history.sort.oldest": "Oldest first",
+    "history.sort.longest": "Longest first",
+    "history.sort.overrun": "Most over time",
+    "history.estimated": "Estimated",
+    "history.actual": "Actual",
+    "history.over": "Over",
+    "history.under": "Under",
+    "history.onTime": "On time",
+    "history.duplicate": "Duplicate",
+    "history.delete": "Delete",
+    "history.deleteConfirm": "Delete this meeting from history?",
+    "history.noMatches": "No meetings match the current filters.",
     "retrospective.timeAnalysis": "Time Analysis",
     "retrospective.totalEstimated": "Total Estimated",
     "retrospective.totalActual": "Total Actual",
@@ -130,6 +332,206 @@ const translations: Record<Language, Translations> = {
     "history.items": "項目",
     "history.total": "合計:",
     "button.load": "読み込み",
+    "agenda.owner": "担当者",
+    "agenda.noOwner": "未割り当て",
+    "agenda.hasFloor": "発表中:",
+    "agenda.budget": "再配分後の時間",
+    "agenda.fixed": "再配分時にこの項目の時間を維持",
+    "agenda.flexible": "再配分時にこの項目の短縮を許可",
+    "agenda.minimum": "最短（分）",
+    "timer.fixedEnd": "固定終了",
+    "agenda.break": "休憩",
+    "agenda.addBreak": "休憩を追加",
+    "timer.paused": "一時停止",
+    "agenda.skip": "スキップ",
+    "agenda.defer": "保留",
+    "agenda.skipped": "スキップ済み",
+    "agenda.extended": "延長",
+    "extend.label": "時間を延長:",
+    "extend.custom": "延長する分数",
+    "extend.apply": "延長",
+    "agenda.deferred": "保留中",
+    "agenda.revisit": "今すぐ議論",
+    "carryOver.title": "前回の会議で保留した項目",
+    "carryOver.add": "アジェンダに追加",
+    "table.owner": "担当者",
+    "table.extended": "延長",
+    "retrospective.byOwner": "担当者別の時間",
+    "retrospective.timeline": "タイムライン",
+    "retrospective.pausedTime": "合計一時停止時間",
+    "retrospective.pauseCount": "回の一時停止",
+    "retrospective.breakTime": "予定された休憩",
+    "retrospective.setAside": "スキップ・保留した項目",
+    "retrospective.carriedOver": "次回の会議に引き継ぎ",
+    "retrospective.totalExtended": "合計延長時間",
+    "timeline.start": "開始",
+    "timeline.pause": "一時停止",
+    "timeline.resume": "再開",
+    "timeline.complete": "完了",
+    "timeline.goBack": "前に戻る",
+    "timeline.skip": "スキップ",
+    "timeline.defer": "保留",
+    "timeline.revisit": "再開（保留から）",
+    "timeline.jump": "ジャンプ",
+    "timeline.extend": "延長",
+    "timeline.reorder": "移動",
+    "timeline.editEstimate": "予定時間を変更",
+    "data.title": "バックアップとインポート",
+    "data.link": "バックアップとインポート",
+    "data.export": "エクスポート",
+    "data.exportDescription":
+      "保存済みのすべての会議をダウンロードします。JSONはすべてのデータを含み再インポートできます。CSVは表計算用に議題ごとに1行です。",
+    "data.exportJson": "JSONでエクスポート",
+    "data.exportCsv": "CSVでエクスポート",
+    "data.import": "インポート",
+    "data.importDescription":
+      "このブラウザまたは別のブラウザでエクスポートしたJSONを読み込みます。",
+    "data.chooseFile": "JSONファイルを選択",
+    "data.previewMeetings": "ファイル内の会議:",
+    "data.previewExisting": "履歴に既存:",
+    "data.modeMerge": "統合（現在の履歴を保持し、既存の会議はスキップ）",
+    "data.modeReplace": "現在の履歴を置き換える",
+    "data.replaceConfirm": "会議履歴全体をインポートした会議で置き換えますか？",
+    "data.importButton": "インポート",
+    "data.imported": "インポートした会議:",
+    "data.error.invalidJson": "ファイルが有効なJSONではありません。",
+    "data.error.invalidBundle":
+      "会議履歴のエクスポートファイルではありません。",
+    "data.error.duplicateIds": "ファイルに重複した会議IDがあります:",
+    "data.error.importFailed": "インポートに失敗しました。",
+    "minutes.title": "議事録",
+    "minutes.date": "日時",
+    "minutes.agenda": "アジェンダ",
+    "minutes.total": "合計",
+    "minutes.download": "Markdownをダウンロード",
+    "minutes.copy": "Markdownをコピー",
+    "minutes.copied": "コピーしました",
+    "minutes.saved": "会議を保存しました。議事録をエクスポート:",
+    "notes.title": "メモ",
+    "notes.placeholder": "この議題のメモ…",
+    "notes.decisions": "決定事項",
+    "notes.decisionPlaceholder": "決定事項を追加",
+    "notes.addDecision": "決定事項を追加",
+    "notes.actionItems": "アクションアイテム",
+    "notes.actionPlaceholder": "アクションアイテムを追加",
+    "notes.addActionItem": "アクションアイテムを追加",
+    "notes.assignee": "担当者",
+    "notes.dueDate": "期限",
+    "notes.remove": "削除",
+    "details.title": "会議情報",
+    "details.meetingTitle": "タイトル",
+    "details.meetingTitlePlaceholder": "例: 週次定例",
+    "details.facilitator": "ファシリテーター",
+    "details.participants": "参加者",
+    "details.participantsPlaceholder": "カンマ区切りで入力",
+    "details.purpose": "目的",
+    "details.scheduledStart": "開始予定",
+    "details.scheduledEnd": "終了予定",
+    "details.fixedEnd": "終了予定時刻に終える（超過時は残りの項目を短縮）",
+    "alerts.title": "時間アラート",
+    "alerts.warnMinutes": "残り何分で知らせるか（0 = オフ）",
+    "alerts.overtimeEveryMinutes": "超過中に何分ごとに知らせるか（0 = オフ）",
+    "alerts.atZero": "時間切れで知らせる",
+    "alerts.chime": "チャイム",
+    "alerts.flash": "画面を点滅",
+    "alerts.vibrate": "バイブレーション",
+    "alerts.itemWarnMinutes": "個別の事前通知（残り分）",
+    "alerts.mute": "アラートをミュート",
+    "alerts.unmute": "アラートのミュートを解除",
+    "alerts.warning": "まもなく時間です",
+    "alerts.timeUp": "時間になりました",
+    "alerts.overtime": "時間を超過しています",
+    "notifications.toggle": "バックグラウンド通知",
+    "shortcuts.title": "キーボードショートカット",
+    "shortcuts.space": "スペース",
+    "shortcuts.toggleTimer": "開始 / 一時停止",
+    "shortcuts.next": "次の項目",
+    "shortcuts.previous": "前の項目",
+    "shortcuts.addOneMinute": "現在の項目を1分延長",
+    "shortcuts.addFiveMinutes": "現在の項目を5分延長",
+    "shortcuts.reset": "会議をリセット",
+    "shortcuts.palette": "コマンドパレット",
+    "shortcuts.help": "この一覧を表示",
+    "shortcuts.confirmReset":
+      "会議をリセットしますか？記録した時間はすべて消去されます。",
+    "palette.title": "コマンドパレット",
+    "palette.placeholder": "項目へジャンプ、テンプレートを適用…",
+    "palette.items": "アジェンダ項目",
+    "palette.templates": "テンプレート",
+    "palette.actions": "操作",
+    "palette.noMatches": "一致するコマンドはありません",
+    "presenter.open": "プレゼンター表示",
+    "presenter.back": "トラッカーに戻る",
+    "presenter.fullscreen": "全画面表示",
+    "presenter.exitFullscreen": "全画面表示を終了",
+    "presenter.current": "現在の項目",
+    "presenter.overtime": "時間超過",
+    "presenter.notStarted": "まだ開始していません",
+    "presenter.next": "次の項目:",
+    "presenter.noNext": "なし(最後の項目です)",
+    "presenter.progress": "アジェンダの進捗",
+    "presenter.noSession": "進行中の会議はありません",
+    "presenter.noSessionDescription":
+      "トラッカーのページでアジェンダを準備すると、この表示に反映されます。",
+    "tabSync.mirroring":
+      "この会議は別のタブで進行中です。このタブは同じ内容を表示し、タイマー操作はそのタブに送られます。",
+    "tabSync.takeOver": "このタブで進行",
+    "notifications.description":
+      "このタブが非表示のときに、項目や会議の時間切れをブラウザ通知で知らせます",
+    "notifications.itemTimeUp": "時間になりました",
+    "notifications.meetingEnd": "会議の予定時間になりました",
+    "agendaImport.title": "アジェンダを貼り付け",
+    "agendaImport.text": "アジェンダのテキスト",
+    "agendaImport.placeholder": "・進捗報告 10分\n・課題（15分）\n・質疑応答",
+    "agendaImport.append": "現在の項目の後に追加",
+    "agendaImport.replace": "現在のアジェンダを置き換える",
+    "agendaImport.preview": "プレビュー",
+    "agendaImport.import": "取り込む",
+    "calendarImport.title": "カレンダーから取り込む",
+    "calendarImport.drop": ".icsファイルをここにドロップ",
+    "calendarImport.chooseFile": ".icsファイルを選択",
+    "calendarImport.noEvents": "このファイルに予定が見つかりません。",
+    "calendarImport.untitled": "（タイトルなし）",
+    "calendarImport.use": "使用",
+    "templates.title": "テンプレート",
+    "templates.sample": "サンプル会議",
+    "templates.apply": "適用",
+    "templates.rename": "テンプレート名を変更",
+    "templates.delete": "テンプレートを削除",
+    "templates.deleteConfirm": "このテンプレートを削除しますか？",
+    "templates.name": "テンプレート名",
+    "templates.namePlaceholder": "現在のアジェンダの名前",
+    "templates.saveCurrent": "テンプレートとして保存",
+    "templates.confirmReplace":
+      "現在のアジェンダには進捗があります。このテンプレートで置き換えますか？",
+    "runAgain.button": "もう一度実施",
+    "runAgain.useActuals": "実績時間で実施",
+    "runAgain.useActualsHint":
+      "この会議の実際の所要時間を予定時間として新しい会議を開始します",
+    "runAgain.confirmReplace":
+      "進行中の会議があります。このアジェンダで置き換えますか？",
+    "history.loadMore": "さらに古い会議を読み込む",
+    "history.retention": "履歴の保存期間",
+    "history.retention.forever": "無期限",
+    "history.retention.count": "直近N件",
+    "history.retention.days": "直近N日",
+    "history.search": "タイトル・議題を検索",
+    "history.from": "開始日",
+    "history.to": "終了日",
+    "history.sort": "並び順",
+    "history.sort.newest": "新しい順",
+    "history.sort.oldest": "古い順",
+    "history.sort.longest": "長い順",
+    "history.sort.overrun": "超過が大きい順",
+    "history.estimated": "予定",
+    "history.actual": "実際",
+    "history.over": "超過",
+    "history.under": "短縮",
+    "history.onTime": "予定通り",
+    "history.duplicate": "複製",
+    "history.delete": "削除",
+    "history.deleteConfirm": "この会議を履歴から削除しますか？",
+    "history.noMatches": "条件に一致する会議はありません。",
     "retrospective.timeAnalysis": "時間分析",
     "retrospective.totalEstimated": "合計予定時間",
     "retrospective.totalActual": "合計実際時間",
@@ -0,0 +1,83 @@
+import type { AgendaItem } from "@/lib/meeting";
+import { SAMPLE_TEMPLATE } from "@/lib/templates";
+import { act, renderHook } from "@testing-library/react";
+import { describe, expect, it } from "vitest";
+import { useAgendaTemplates } from "./useAgendaTemplates";
+
+/**
+ * Test suite for useAgendaTemplates hook.
+ *
+ * Tests the template library including:
+ * - built-in templates listed first
+ * - saving, renaming and deleting user templates
+ * - persistence in the versioned `agenda-templates` key
+ */
+describe("useAgendaTemplates", () => {
+  const agenda: AgendaItem[] = [
+    {
+      id: "item_1",
+      name: "Retro",
+      estimatedMinutes: 30,
+      isActive: false,
+      elapsedTime: 0,
+    },
+  ];
+
+  const storedTemplates = () =>
+    JSON.parse(localStorage.getItem("agenda-templates") || "{}").data;
+
+  it("should list the built-in templates", () => {
+    const { result } = renderHook(() => useAgendaTemplates());
+
+    expect(result.current.templates).toEqual([SAMPLE_TEMPLATE]);
+  });
+
+  it("should save the current agenda as a template", () => {
+    const { result } = renderHook(() => useAgendaTemplates());
+
+    act(() => {
+      result.current.saveTemplate("Sprint retro", agenda);
+    });
+
+    expect(result.current.templates.at(-1)).toEqual(
+      expect.objectContaining({
+        name: "Sprint retro",
+        items: [{ name: "Retro", estimatedMinutes: 30 }],
+      }),
+    );
+    expect(storedTemplates()).toHaveLength(1);
+  });
+
+  it("should rename and delete user templates", () => {
+    const { result } = renderHook(() => useAgendaTemplates());
+    act(() => {
+      result.current.saveTemplate("Sprint retro", agenda);
+    });
+    const id = storedTemplates()[0].id;
+
+    act(() => {
+      result.current.renameTemplate(id, "Monthly retro");
+    });
+    expect(storedTemplates()[0].name).toBe("Monthly retro");
+
+    act(() => {
+      result.current.deleteTemplate(id);
+    });
+    expect(result.current.templates).toEqual([SAMPLE_TEMPLATE]);
+    expect(storedTemplates()).toEqual([]);
+  });
+
+  it("should restore saved templates", () => {
+    localStorage.setItem(
+      "agenda-templates",
+      JSON.stringify({
+        version: 1,
+        data: [{ id: "t1", name: "Standup", items: [] }],
+      }),
+    );
+
+    const { result } = renderHook(() => useAgendaTemplates());
+
+    expect(result.current.templates.map((t) => t.id)).toEqual(["sample", "t1"]);
+  });
+});
@@ -0,0 +1,108 @@
+import type { AgendaItem } from "@/lib/meeting";
+import {
+  agendaTemplatesStorage,
+  loadVersioned,
+  saveVersioned,
+} from "@/lib/storage";
+import {
+  type AgendaTemplate,
+  BUILT_IN_TEMPLATES,
+  templateFromAgenda,
+} from "@/lib/templates";
+import { useState } from "react";
+
+/**
+ * Loads user templates, falling back to none when storage is unreadable.
+ */
+function loadTemplates(): AgendaTemplate[] {
+  try {
+    return loadVersioned(agendaTemplatesStorage) ?? [];
+  } catch (e) {
+    console.error("Failed to load agenda templates:", e);
+    return [];
+  }
+}
+
+/**
+ * The template library and its actions, as returned by useAgendaTemplates.
+ */
+export interface AgendaTemplateLibrary {
+  templates: AgendaTemplate[];
+  saveTemplate: (name: string, items: AgendaItem[]) => void;
+  renameTemplate: (id: string, name: string) => void;
+  deleteTemplate: (id: string) => void;
+}
+
+/**
+ * Custom hook for the agenda template library.
+ *
+ * This hook provides:
+ * - The built-in templates followed by the user's own templates
+ * - Saving the current agenda as a new template
+ * - Renaming and deleting user templates (built-ins are read-only)
+ *
+ * User templates are persisted to localStorage on every change. The library
+ * is read once, so call this in one place and pass the result down.
+ *
+ * @returns Object containing templates and management functions
+ * @returns returns.templates - Built-in and user templates
+ * @returns returns.saveTemplate - Function to save an agenda as a named template
+ * @returns returns.renameTemplate - Function to rename a user template
+ * @returns returns.deleteTemplate - Function to delete a user template
+ */
+export function useAgendaTemplates(): AgendaTemplateLibrary {
+  const [userTemplates, setUserTemplates] =
+    useState<AgendaTemplate[]>(loadTemplates);
+
+  /**
+   * Replaces the user templates and persists them.
+   */
+  const update = (next: AgendaTemplate[]) => {
+    setUserTemplates(next);
+    try {
+      saveVersioned(agendaTemplatesStorage, next);
+    } catch (e) {
+      console.error("Failed to save agenda templates:", e);
+    }
+  };
+
+  /**
+   * Saves an agenda as a new template.
+   *
+   * @param name - Template name
+   * @param items - Agenda items to copy names and estimates from
+   */
+  const saveTemplate = (name: string, items: AgendaItem[]) => {
+    update([...userTemplates, templateFromAgenda(name, items)]);
+  };
+
+  /**
+   * Renames a user template.
+   *
+   * @param id - Template id
+   * @param name - New name
+   */
+  const renameTemplate = (id: string, name: string) => {
+    update(
+      userTemplates.map((template) =>
+        template.id === id ? { ...template, name } : template,
+      ),
+    );
+  };
+
+  /**
+   * Deletes a user template.
+   *
+   * @param id - Template id
+   */
+  const deleteTemplate = (id: string) => {
+    update(userTemplates.filter((template) => template.id !== id));
+  };
+
+  return {
+    templates: [...BUILT_IN_TEMPLATES, ...userTemplates],
+    saveTemplate,
+    renameTemplate,
+    deleteTemplate,
+  };
+}
@@ -0,0 +1,161 @@
+import { LanguageProvider } from "@/contexts/LanguageContext";
+import type { AgendaItem } from "@/lib/meeting";
+import { act, renderHook } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useBackgroundStatus } from "./useBackgroundStatus";
+
+/**
+ * Test suite for useBackgroundStatus hook.
+ *
+ * Tests the status shown outside the page including:
+ * - the countdown in the tab title and its restoration
+ * - the favicon badge
+ * - opt-in notifications while the tab is hidden, from the leading tab only
+ */
+describe("useBackgroundStatus", () => {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <LanguageProvider>{children}</LanguageProvider>
+  );
+
+  const shown = vi.fn();
+
+  /**
+   * Minimal stand-in for the Web Notifications API.
+   */
+  class FakeNotification {
+    static permission: NotificationPermission = "default";
+    static requestPermission = vi.fn(async () => {
+      FakeNotification.permission = "granted";
+      return FakeNotification.permission;
+    });
+    constructor(title: string, options?: NotificationOptions) {
+      shown(title, options?.body);
+    }
+  }
+
+  const item: AgendaItem = {
+    id: "item_1",
+    name: "Progress Report",
+    estimatedMinutes: 10,
+    isActive: true,
+    elapsedTime: 0,
+  };
+
+  /**
+   * Renders the hook with the active item at a given elapsed time.
+   */
+  const renderStatus = (
+    elapsed: number,
+    isRunning = true,
+    isLeader = true,
+    budgets?: Map<string, number>,
+  ) =>
+    renderHook(
+      ({ elapsed, isRunning }) =>
+        useBackgroundStatus(
+          [item],
+          () => elapsed,
+          isRunning,
+          undefined,
+          budgets,
+          isLeader,
+        ),
+      { initialProps: { elapsed, isRunning }, wrapper },
+    );
+
+  const setHidden = (hidden: boolean) =>
+    Object.defineProperty(document, "hidden", {
+      value: hidden,
+      configurable: true,
+    });
+
+  beforeEach(() => {
+    localStorage.clear();
+    document.title = "Meeting Time Tracker";
+    shown.mockClear();
+    FakeNotification.permission = "default";
+    vi.stubGlobal("Notification", FakeNotification);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setHidden(false);
+  });
+
+  it("should count down in the title and restore it afterwards", () => {
+    const { rerender, unmount } = renderStatus(7 * 60000 + 47000);
+
+    expect(document.title).toBe("▶ 02:13 – Progress Report");
+
+    rerender({ elapsed: 11 * 60000, isRunning: false });
+    expect(document.title).toBe("⏸ +01:00 – Progress Report");
+
+    unmount();
+    expect(document.title).toBe("Meeting Time Tracker");
+  });
+
+  it("should count down the rebalanced budget in fixed end-time mode", () => {
+    renderStatus(4 * 60000, true, true, new Map([[item.id, 6]]));
+
+    expect(document.title).toBe("▶ 02:00 – Progress Report");
+  });
+
+  it("should show a red favicon badge in overtime", () => {
+    const { rerender, unmount } = renderStatus(0);
+    const icon = () =>
+      decodeURIComponent(
+        document.querySelector<HTMLLinkElement>('link[rel~="icon"]')?.href ??
+          "",
+      );
+
+    expect(icon()).toContain("#2563eb");
+
+    rerender({ elapsed: 11 * 60000, isRunning: true });
+    expect(icon()).toContain("#dc2626");
+
+    unmount();
+    expect(document.querySelector('link[rel~="icon"]')).toBeNull();
+  });
+
+  it("should notify when the item runs out in a hidden tab after opting in", async () => {
+    const { result, rerender } = renderStatus(9.9 * 60000);
+
+    await act(async () => {
+      await result.current.toggleNotifications();
+    });
+    expect(result.current.notificationsEnabled).toBe(true);
+
+    setHidden(true);
+    rerender({ elapsed: 10 * 60000, isRunning: true });
+
+    expect(shown).toHaveBeenCalledWith("Time is up", "Progress Report");
+  });
+
+  it("should not notify without opting in or while visible", async () => {
+    const { result, rerender } = renderStatus(9.9 * 60000);
+
+    setHidden(true);
+    rerender({ elapsed: 10 * 60000, isRunning: true });
+    expect(shown).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await result.current.toggleNotifications();
+    });
+    setHidden(false);
+    rerender({ elapsed: 20 * 60000, isRunning: true });
+    expect(shown).not.toHaveBeenCalled();
+  });
+
+  it("should leave notifying to the leading tab", async () => {
+    const { result, rerender } = renderStatus(9.9 * 60000, true, false);
+
+    await act(async () => {
+      await result.current.toggleNotifications();
+    });
+    setHidden(true);
+    rerender({ elapsed: 10 * 60000, isRunning: true });
+
+    expect(shown).not.toHaveBeenCalled();
+  });
+});
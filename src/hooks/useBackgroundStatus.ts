@@ -0,0 +1,207 @@
+import { useLanguage } from "@/contexts/LanguageContext";
+import { type AgendaItem, timeBox } from "@/lib/meeting";
+import {
+  backgroundNotificationsStorage,
+  loadVersioned,
+  saveVersioned,
+} from "@/lib/storage";
+import { faviconBadge, tabState, tabTitle } from "@/lib/tabStatus";
+import { useEffect, useRef, useState } from "react";
+
+const notificationsSupported = () => typeof Notification !== "undefined";
+
+/**
+ * Loads the notification opt-in, defaulting to off.
+ */
+function loadNotificationsEnabled(): boolean {
+  try {
+    return Boolean(
+      loadVersioned(backgroundNotificationsStorage) &&
+        notificationsSupported() &&
+        Notification.permission === "granted",
+    );
+  } catch (e) {
+    console.error("Failed to load notification setting:", e);
+    return false;
+  }
+}
+
+/**
+ * Shows a browser notification if permission was granted.
+ */
+function notify(title: string, body?: string) {
+  if (!notificationsSupported() || Notification.permission !== "granted") {
+    return;
+  }
+  try {
+    new Notification(title, { body, tag: "meeting-time-tracker" });
+  } catch (e) {
+    console.error("Failed to show notification:", e);
+  }
+}
+
+/**
+ * Whether a countdown went from positive to zero or below since the last tick.
+ */
+const ranOut = (previous: number | undefined, current: number | undefined) =>
+  previous !== undefined &&
+  current !== undefined &&
+  previous > 0 &&
+  current <= 0;
+
+/**
+ * Custom hook that shows the meeting status outside the page.
+ *
+ * While an item is active, the tab title counts down its remaining time and
+ * the favicon becomes a badge that turns red in overtime; both are restored
+ * when no item is active. Users who opt in also get a browser notification
+ * when an item's time or the meeting's planned time runs out while the tab
+ * is hidden. In fixed end-time mode an item's time is its rebalanced budget,
+ * as on the page. Everything follows the currentTime tick through
+ * getCurrentElapsed. Of several tabs showing the meeting only the leader
+ * notifies, so each countdown that runs out is announced once.
+ *
+ * @param agendaItems - Current agenda items
+ * @param getCurrentElapsed - Function to get the current elapsed time of an item
+ * @param isRunning - Whether the timer is running
+ * @param meetingRemaining - Time left until the planned end of the meeting in milliseconds
+ * @param budgets - Rebalanced budgets in minutes by item id (fixed end-time mode only)
+ * @param isLeader - Whether this tab leads the meeting (see useTabSync)
+ * @returns Object containing the notification opt-in
+ * @returns returns.notificationsSupported - Whether the browser has Web Notifications
+ * @returns returns.notificationsEnabled - Whether notifications are on
+ * @returns returns.toggleNotifications - Asks for permission and turns notifications on, or turns them off
+ *
+ * @example
+ * ```tsx
+ * const { notificationsEnabled, toggleNotifications } = useBackgroundStatus(
+ *   agendaItems,
+ *   getCurrentElapsed,
+ *   isRunning,
+ *   totalEstimated - totalElapsed,
+ * );
+ * ```
+ */
+export function useBackgroundStatus(
+  agendaItems: AgendaItem[],
+  getCurrentElapsed: (item: AgendaItem) => number,
+  isRunning: boolean,
+  meetingRemaining?: number,
+  budgets?: Map<string, number>,
+  isLeader = true,
+) {
+  const { t } = useLanguage();
+  const [notificationsEnabled, setNotificationsEnabled] = useState(
+    loadNotificationsEnabled,
+  );
+
+  const activeItem = agendaItems.find((item) => item.isActive);
+  const activeId = activeItem?.id;
+  const remaining = activeItem
+    ? (budgets?.get(activeItem.id) ?? timeBox(activeItem)) * 60000 -
+      getCurrentElapsed(activeItem)
+    : undefined;
+  const title =
+    activeItem && remaining !== undefined
+      ? tabTitle(activeItem.name, remaining, isRunning)
+      : undefined;
+  const badge =
+    remaining !== undefined ? tabState(remaining, isRunning) : undefined;
+
+  /**
+   * Effect that puts the countdown in the tab title.
+   */
+  useEffect(() => {
+    if (!title) return;
+    const original = document.title;
+    document.title = title;
+    return () => {
+      document.title = original;
+    };
+  }, [title]);
+
+  /**
+   * Effect that swaps the favicon for the status badge.
+   */
+  useEffect(() => {
+    if (!badge) return;
+    const existing =
+      document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+    const original = existing?.getAttribute("href");
+    const link = existing ?? document.createElement("link");
+    link.rel = "icon";
+    link.href = faviconBadge(badge);
+    if (!existing) document.head.appendChild(link);
+    return () => {
+      if (existing && original) {
+        existing.setAttribute("href", original);
+      } else {
+        link.remove();
+      }
+    };
+  }, [badge]);
+
+  // Values as of the latest render, read by the tick effect
+  const latest = useRef({
+    t,
+    notificationsEnabled,
+    isLeader,
+    name: activeItem?.name,
+  });
+  latest.current = {
+    t,
+    notificationsEnabled,
+    isLeader,
+    name: activeItem?.name,
+  };
+  // Countdowns at the previous tick
+  const previous = useRef<{
+    id?: string;
+    remaining?: number;
+    meetingRemaining?: number;
+  }>({});
+
+  /**
+   * Effect that notifies when a countdown runs out while the tab is hidden.
+   */
+  useEffect(() => {
+    const last = previous.current;
+    previous.current = { id: activeId, remaining, meetingRemaining };
+
+    const { t, notificationsEnabled, isLeader, name } = latest.current;
+    if (!notificationsEnabled || !isLeader || !document.hidden) return;
+    if (last.id === activeId && ranOut(last.remaining, remaining)) {
+      notify(t("notifications.itemTimeUp"), name);
+    }
+    if (ranOut(last.meetingRemaining, meetingRemaining)) {
+      notify(t("notifications.meetingEnd"));
+    }
+  }, [activeId, remaining, meetingRemaining]);
+
+  /**
+   * Turns notifications off, or asks for permission and turns them on if
+   * it is granted.
+   */
+  const toggleNotifications = async () => {
+    let enabled = false;
+    if (!notificationsEnabled && notificationsSupported()) {
+      const permission =
+        Notification.permission === "granted"
+          ? "granted"
+          : await Notification.requestPermission();
+      enabled = permission === "granted";
+    }
+    setNotificationsEnabled(enabled);
+    try {
+      saveVersioned(backgroundNotificationsStorage, enabled);
+    } catch (e) {
+      console.error("Failed to save notification setting:", e);
+    }
+  };
+
+  return {
+    notificationsSupported: notificationsSupported(),
+    notificationsEnabled,
+    toggleNotifications,
+  };
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState } from "react";
+
+const fullscreenSupported = () =>
+  typeof document !== "undefined" && Boolean(document.fullscreenEnabled);
+
+/**
+ * Custom hook around the Fullscreen API for the whole page.
+ *
+ * isFullscreen follows `fullscreenchange`, so it also turns false when the
+ * browser leaves full screen on Escape.
+ *
+ * @returns Object containing the full-screen state
+ * @returns returns.isSupported - Whether the browser allows full screen here
+ * @returns returns.isFullscreen - Whether the page is shown full screen
+ * @returns returns.toggleFullscreen - Enters or leaves full screen
+ *
+ * @example
+ * ```tsx
+ * const { isSupported, isFullscreen, toggleFullscreen } = useFullscreen();
+ * ```
+ */
+export function useFullscreen() {
+  const [isFullscreen, setIsFullscreen] = useState(
+    () =>
+      typeof document !== "undefined" && Boolean(document.fullscreenElement),
+  );
+
+  /**
+   * Effect that follows full-screen changes, whoever makes them.
+   */
+  useEffect(() => {
+    const handleChange = () => {
+      setIsFullscreen(Boolean(document.fullscreenElement));
+    };
+    document.addEventListener("fullscreenchange", handleChange);
+    return () => {
+      document.removeEventListener("fullscreenchange", handleChange);
+    };
+  }, []);
+
+  /**
+   * Enters full screen, or leaves it if the page already is.
+   */
+  const toggleFullscreen = async () => {
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else {
+        await document.documentElement.requestFullscreen();
+      }
+    } catch (e) {
+      console.error("Failed to toggle full screen:", e);
+    }
+  };
+
+  return {
+    isSupported: fullscreenSupported(),
+    isFullscreen,
+    toggleFullscreen,
+  };
+}
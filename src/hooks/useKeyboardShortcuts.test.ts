@@ -0,0 +1,48 @@
+import { renderHook } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import { useKeyboardShortcuts } from "./useKeyboardShortcuts";
+
+/**
+ * Test suite for useKeyboardShortcuts hook.
+ *
+ * Tests running handlers from window key presses, preventing the default
+ * action of handled keys and turning the shortcuts off.
+ */
+describe("useKeyboardShortcuts", () => {
+  const press = (key: string) => {
+    const event = new KeyboardEvent("keydown", { key, cancelable: true });
+    window.dispatchEvent(event);
+    return event;
+  };
+
+  it("should run the handler of a shortcut and prevent the default", () => {
+    const next = vi.fn();
+    renderHook(() => useKeyboardShortcuts({ next }));
+
+    const event = press("n");
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it("should leave keys without a handler alone", () => {
+    renderHook(() => useKeyboardShortcuts({ next: vi.fn() }));
+
+    expect(press(" ").defaultPrevented).toBe(false);
+  });
+
+  it("should ignore key presses while disabled", () => {
+    const next = vi.fn();
+    const { rerender } = renderHook(
+      ({ enabled }) => useKeyboardShortcuts({ next }, enabled),
+      { initialProps: { enabled: false } },
+    );
+
+    press("n");
+    expect(next).not.toHaveBeenCalled();
+
+    rerender({ enabled: true });
+    press("n");
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,45 @@
+import { type ShortcutAction, shortcutFor } from "@/lib/shortcuts";
+import { useEffect, useRef } from "react";
+
+/**
+ * Custom hook that runs handlers for the global keyboard shortcuts.
+ *
+ * A single keydown listener on the window maps key presses to actions
+ * (see lib/shortcuts). Handled keys have their default prevented, so Space
+ * does not also scroll the page or press the focused button. Handlers are
+ * read at key press time, so they may close over the latest state.
+ *
+ * @param handlers - Function per action; actions without one are ignored
+ * @param enabled - Whether shortcuts are active (defaults to true)
+ *
+ * @example
+ * ```tsx
+ * useKeyboardShortcuts({
+ *   next: () => dispatch({ type: "complete" }),
+ *   help: () => setIsHelpOpen(true),
+ * });
+ * ```
+ */
+export function useKeyboardShortcuts(
+  handlers: Partial<Record<ShortcutAction, () => void>>,
+  enabled = true,
+) {
+  const latest = useRef(handlers);
+  latest.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const action = shortcutFor(event);
+      const handler = action && latest.current[action];
+      if (!handler) return;
+      event.preventDefault();
+      handler();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,64 @@
+import type { AgendaItem, MeetingEvent } from "@/lib/meeting";
+import {
+  type MeetingFlowEvent,
+  canTransition,
+  transition,
+} from "@/lib/meetingFlow";
+import { recordTransition } from "@/lib/meetingLog";
+
+/**
+ * Custom hook that drives the meeting flow from events.
+ *
+ * The agenda and the running flag live in separate hooks; this hook runs
+ * the pure `transition` state machine over both and writes back the result.
+ * Accepted events are appended to the meeting log; events that are not
+ * allowed in the current state are ignored.
+ *
+ * @param agendaItems - Current agenda items
+ * @param setAgendaItems - Setter for the agenda items
+ * @param isRunning - Whether the timer is running
+ * @param setIsRunning - Setter for the running flag
+ * @param logEvent - Appends an accepted transition to the meeting log
+ * @param clock - Source of the current time (defaults to Date.now)
+ * @returns Object containing the flow controls
+ * @returns returns.dispatch - Applies an event; returns whether it was accepted
+ * @returns returns.can - Checks whether an event would be accepted
+ *
+ * @example
+ * ```tsx
+ * const { dispatch, can } = useMeetingFlow(
+ *   agendaItems,
+ *   setAgendaItems,
+ *   isRunning,
+ *   setIsRunning,
+ *   logEvent,
+ * );
+ *
+ * <button disabled={!can({ type: "goBack" })} onClick={() => dispatch({ type: "goBack" })} />
+ * ```
+ */
+export function useMeetingFlow(
+  agendaItems: AgendaItem[],
+  setAgendaItems: (items: AgendaItem[]) => void,
+  isRunning: boolean,
+  setIsRunning: (isRunning: boolean) => void,
+  logEvent: (event: MeetingEvent) => void,
+  clock: () => number = Date.now,
+) {
+  const dispatch = (event: MeetingFlowEvent) => {
+    const state = { agendaItems, isRunning };
+    const now = clock();
+    const next = transition(state, event, now);
+    if (next === state) return false;
+
+    setAgendaItems(next.agendaItems);
+    if (next.isRunning !== isRunning) setIsRunning(next.isRunning);
+    logEvent(recordTransition(state, next, event, now));
+    return true;
+  };
+
+  const can = (event: MeetingFlowEvent) =>
+    canTransition({ agendaItems, isRunning }, event);
+
+  return { dispatch, can };
+}
@@ -0,0 +1,274 @@
+import { trpcClient } from "@/integrations/tanstack-query/root-provider";
+import { HISTORY_PAGE_SIZE } from "@/lib/historyStore";
+import type { Meeting } from "@/lib/meeting";
+import { buildMeeting } from "@/test/fixtures";
+import { act, renderHook } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useMeetingHistory } from "./useMeetingHistory";
+
+vi.mock("@/integrations/tanstack-query/root-provider", () => ({
+  trpcClient: {
+    meeting: {
+      create: { mutate: vi.fn() },
+      delete: { mutate: vi.fn() },
+      import: { mutate: vi.fn() },
+      list: { query: vi.fn() },
+    },
+  },
+}));
+
+/**
+ * Test suite for useMeetingHistory hook.
+ *
+ * Tests paginated history access including:
+ * - lazy loading of the first page
+ * - loading further pages on demand, or the rest of the history at once
+ * - retention policy persistence and pruning
+ * - duplicating and deleting meetings
+ * - exporting and importing the whole history
+ * - merging meetings from the server store
+ */
+describe("useMeetingHistory", () => {
+  const meetingAt = (index: number) =>
+    buildMeeting(
+      `meeting_${index}`,
+      new Date(Date.UTC(2021, 0, 1, 0, index)).toISOString(),
+    );
+
+  beforeEach(() => {
+    vi.mocked(trpcClient.meeting.list.query).mockReset();
+    vi.mocked(trpcClient.meeting.list.query).mockResolvedValue([]);
+    vi.mocked(trpcClient.meeting.create.mutate).mockReset();
+    vi.mocked(trpcClient.meeting.create.mutate).mockImplementation(
+      async (meeting) => meeting,
+    );
+    vi.mocked(trpcClient.meeting.delete.mutate).mockReset();
+    vi.mocked(trpcClient.meeting.delete.mutate).mockResolvedValue({
+      deleted: true,
+    });
+    vi.mocked(trpcClient.meeting.import.mutate).mockReset();
+    vi.mocked(trpcClient.meeting.import.mutate).mockResolvedValue({
+      added: 0,
+    });
+  });
+
+  it("should load the first page lazily", async () => {
+    const stored = Array.from({ length: HISTORY_PAGE_SIZE + 5 }, (_, i) =>
+      meetingAt(i),
+    );
+    localStorage.setItem("meeting-history", JSON.stringify(stored));
+
+    const { result } = renderHook(() => useMeetingHistory());
+
+    expect(result.current.meetingHistory).toEqual([]);
+    expect(result.current.isHistoryLoading).toBe(true);
+
+    await act(async () => {});
+
+    expect(result.current.meetingHistory).toHaveLength(HISTORY_PAGE_SIZE);
+    expect(result.current.meetingHistory[0].id).toBe(
+      `meeting_${HISTORY_PAGE_SIZE + 4}`,
+    );
+    expect(result.current.hasMoreHistory).toBe(true);
+    expect(result.current.isHistoryLoading).toBe(false);
+  });
+
+  it("should load the next page on demand", async () => {
+    const stored = Array.from({ length: HISTORY_PAGE_SIZE + 5 }, (_, i) =>
+      meetingAt(i),
+    );
+    localStorage.setItem("meeting-history", JSON.stringify(stored));
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    await act(async () => {
+      await result.current.loadMoreHistory();
+    });
+
+    expect(result.current.meetingHistory).toHaveLength(HISTORY_PAGE_SIZE + 5);
+    expect(result.current.meetingHistory.at(-1)?.id).toBe("meeting_0");
+    expect(result.current.hasMoreHistory).toBe(false);
+  });
+
+  it("should load the rest of the history at once", async () => {
+    const stored = Array.from({ length: HISTORY_PAGE_SIZE * 2 + 5 }, (_, i) =>
+      meetingAt(i),
+    );
+    localStorage.setItem("meeting-history", JSON.stringify(stored));
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    await act(async () => {
+      await result.current.loadAllHistory();
+    });
+
+    expect(result.current.meetingHistory).toHaveLength(stored.length);
+    expect(result.current.meetingHistory.at(-1)?.id).toBe("meeting_0");
+    expect(result.current.hasMoreHistory).toBe(false);
+  });
+
+  it("should default to keeping history forever", () => {
+    const { result } = renderHook(() => useMeetingHistory());
+
+    expect(result.current.retention).toEqual({ kind: "forever" });
+  });
+
+  it("should persist and apply a new retention policy", async () => {
+    localStorage.setItem(
+      "meeting-history",
+      JSON.stringify([meetingAt(1), meetingAt(2), meetingAt(3)]),
+    );
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    await act(async () => {
+      await result.current.setRetention({ kind: "count", max: 2 });
+    });
+
+    expect(result.current.retention).toEqual({ kind: "count", max: 2 });
+    expect(result.current.meetingHistory.map((m) => m.id)).toEqual([
+      "meeting_3",
+      "meeting_2",
+    ]);
+    expect(
+      JSON.parse(localStorage.getItem("history-retention") || "{}").data,
+    ).toEqual({ kind: "count", max: 2 });
+  });
+
+  it("should apply the retention policy when adding meetings", async () => {
+    localStorage.setItem(
+      "history-retention",
+      JSON.stringify({ version: 1, data: { kind: "count", max: 1 } }),
+    );
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    await act(async () => {
+      await result.current.addMeeting(meetingAt(1));
+    });
+    await act(async () => {
+      await result.current.addMeeting(meetingAt(2));
+    });
+
+    expect(result.current.meetingHistory.map((m) => m.id)).toEqual([
+      "meeting_2",
+    ]);
+  });
+
+  it("should duplicate a meeting as a new entry", async () => {
+    localStorage.setItem("meeting-history", JSON.stringify([meetingAt(1)]));
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    let copy: Meeting | undefined;
+    await act(async () => {
+      copy = await result.current.duplicateMeeting(meetingAt(1));
+    });
+
+    expect(copy?.id).not.toBe("meeting_1");
+    expect(result.current.meetingHistory.map((m) => m.id)).toEqual([
+      copy?.id,
+      "meeting_1",
+    ]);
+    expect(trpcClient.meeting.create.mutate).toHaveBeenCalledWith(copy);
+  });
+
+  it("should delete a meeting locally and on the server", async () => {
+    localStorage.setItem(
+      "meeting-history",
+      JSON.stringify([meetingAt(1), meetingAt(2)]),
+    );
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    await act(async () => {
+      await result.current.deleteMeeting("meeting_2");
+    });
+
+    expect(result.current.meetingHistory.map((m) => m.id)).toEqual([
+      "meeting_1",
+    ]);
+    expect(
+      JSON.parse(localStorage.getItem("meeting-history") || "{}").data,
+    ).toEqual([meetingAt(1)]);
+    expect(trpcClient.meeting.delete.mutate).toHaveBeenCalledWith({
+      id: "meeting_2",
+    });
+  });
+
+  it("should export every meeting, not just loaded pages", async () => {
+    const stored = Array.from({ length: HISTORY_PAGE_SIZE + 5 }, (_, i) =>
+      meetingAt(i),
+    );
+    localStorage.setItem("meeting-history", JSON.stringify(stored));
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    expect(await result.current.exportMeetings()).toHaveLength(
+      HISTORY_PAGE_SIZE + 5,
+    );
+  });
+
+  it("should merge imported meetings, skipping existing ids", async () => {
+    localStorage.setItem("meeting-history", JSON.stringify([meetingAt(1)]));
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    let added = 0;
+    await act(async () => {
+      added = await result.current.importMeetings(
+        [{ ...meetingAt(1), title: "Imported" }, meetingAt(2)],
+        "merge",
+      );
+    });
+
+    expect(added).toBe(1);
+    expect(result.current.meetingHistory).toEqual([meetingAt(2), meetingAt(1)]);
+    expect(trpcClient.meeting.import.mutate).toHaveBeenCalledWith({
+      meetings: [{ ...meetingAt(1), title: "Imported" }, meetingAt(2)],
+      mode: "merge",
+    });
+  });
+
+  it("should replace the history on a replace import", async () => {
+    localStorage.setItem(
+      "meeting-history",
+      JSON.stringify([meetingAt(1), meetingAt(2)]),
+    );
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    await act(async () => {
+      await result.current.importMeetings([meetingAt(3)], "replace");
+    });
+
+    expect(result.current.meetingHistory.map((m) => m.id)).toEqual([
+      "meeting_3",
+    ]);
+  });
+
+  it("should add meetings from the server that are missing locally", async () => {
+    localStorage.setItem("meeting-history", JSON.stringify([meetingAt(1)]));
+    vi.mocked(trpcClient.meeting.list.query).mockResolvedValue([
+      meetingAt(2),
+      meetingAt(1),
+    ]);
+
+    const { result } = renderHook(() => useMeetingHistory());
+    await act(async () => {});
+
+    expect(result.current.meetingHistory.map((m) => m.id)).toEqual([
+      "meeting_2",
+      "meeting_1",
+    ]);
+  });
+});
@@ -0,0 +1,313 @@
+import { trpcClient } from "@/integrations/tanstack-query/root-provider";
+import { HISTORY_PAGE_SIZE, getHistoryStore } from "@/lib/historyStore";
+import type { Meeting } from "@/lib/meeting";
+import {
+  type RetentionPolicy,
+  historyRetentionStorage,
+  loadVersioned,
+  saveVersioned,
+} from "@/lib/storage";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * Loads the retention policy, defaulting to keeping everything.
+ */
+function loadRetention(): RetentionPolicy {
+  try {
+    return loadVersioned(historyRetentionStorage) ?? { kind: "forever" };
+  } catch (e) {
+    console.error("Failed to load history retention:", e);
+    return { kind: "forever" };
+  }
+}
+
+/**
+ * Custom hook for paginated access to the local meeting history.
+ *
+ * This hook provides:
+ * - Lazy, page-by-page loading of saved meetings from the history store
+ * - Adding, duplicating and deleting meetings with an optimistic in-memory
+ *   update, written through to the server store
+ * - Exporting the full history and importing meetings (merge or replace)
+ * - A configurable retention policy applied after every write
+ * - Merging of meetings stored on the server into the local history
+ *
+ * Meetings are always ordered newest first. Only the pages requested so far
+ * are held in memory; call loadMoreHistory to fetch the next page, or
+ * loadAllHistory to fetch everything at once.
+ *
+ * @returns Object containing history state and management functions
+ * @returns returns.meetingHistory - Meetings loaded so far, newest first
+ * @returns returns.setMeetingHistory - Function to replace the in-memory history
+ * @returns returns.hasMoreHistory - Whether older meetings remain to be loaded
+ * @returns returns.isHistoryLoading - Whether a page is currently being loaded
+ * @returns returns.loadMoreHistory - Function to load the next page
+ * @returns returns.loadAllHistory - Function to load every remaining page
+ * @returns returns.addMeeting - Function to store a meeting in history
+ * @returns returns.duplicateMeeting - Function to store a copy of a meeting as a new entry
+ * @returns returns.deleteMeeting - Function to delete a meeting from history
+ * @returns returns.exportMeetings - Function returning every stored meeting
+ * @returns returns.importMeetings - Function to merge or replace the history with imported meetings
+ * @returns returns.retention - Current retention policy
+ * @returns returns.setRetention - Function to change and apply the retention policy
+ *
+ * @example
+ * ```tsx
+ * const { meetingHistory, hasMoreHistory, loadMoreHistory } = useMeetingHistory();
+ *
+ * {hasMoreHistory && <button onClick={loadMoreHistory}>More</button>}
+ * ```
+ */
+export function useMeetingHistory() {
+  const [meetingHistory, setMeetingHistory] = useState<Meeting[]>([]);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [isHistoryLoading, setIsHistoryLoading] = useState(true);
+  const [retention, setRetentionState] =
+    useState<RetentionPolicy>(loadRetention);
+
+  // Number of meetings currently loaded, used to reload the same window
+  const loadedCountRef = useRef(0);
+
+  /**
+   * Replaces the in-memory history with the first `count` meetings.
+   */
+  const reloadHistory = useCallback(async (count: number) => {
+    const store = await getHistoryStore();
+    const page = await store.listPage(0, Math.max(count, HISTORY_PAGE_SIZE));
+    loadedCountRef.current = page.meetings.length;
+    setMeetingHistory(page.meetings);
+    setHasMoreHistory(page.hasMore);
+  }, []);
+
+  /**
+   * Load the first page on mount, then merge meetings from the server
+   * so history saved from another browser or machine becomes visible.
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const store = await getHistoryStore();
+        const page = await store.listPage(0, HISTORY_PAGE_SIZE);
+        if (cancelled) return;
+        loadedCountRef.current = Math.max(
+          loadedCountRef.current,
+          page.meetings.length,
+        );
+        // Keep meetings added while the first page was loading
+        setMeetingHistory((history) => [
+          ...history,
+          ...page.meetings.filter(
+            (meeting) => !history.some((m) => m.id === meeting.id),
+          ),
+        ]);
+        setHasMoreHistory(page.hasMore);
+      } catch (e) {
+        console.error("Failed to load meeting history:", e);
+      } finally {
+        if (!cancelled) setIsHistoryLoading(false);
+      }
+
+      try {
+        const remote = await trpcClient.meeting.list.query();
+        const store = await getHistoryStore();
+        const added = await store.addMissing(remote);
+        if (added > 0 && !cancelled) {
+          await store.applyRetention(loadRetention(), Date.now());
+          await reloadHistory(loadedCountRef.current);
+        }
+      } catch (e) {
+        console.error("Failed to fetch meeting history:", e);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadHistory]);
+
+  /**
+   * Loads the next page of older meetings.
+   */
+  const loadMoreHistory = async () => {
+    setIsHistoryLoading(true);
+    try {
+      const store = await getHistoryStore();
+      const page = await store.listPage(
+        loadedCountRef.current,
+        HISTORY_PAGE_SIZE,
+      );
+      loadedCountRef.current += page.meetings.length;
+      setMeetingHistory((history) => [
+        ...history,
+        ...page.meetings.filter(
+          (meeting) => !history.some((m) => m.id === meeting.id),
+        ),
+      ]);
+      setHasMoreHistory(page.hasMore);
+    } catch (e) {
+      console.error("Failed to load meeting history:", e);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
+  /**
+   * Loads every meeting not loaded yet, for views that need the whole
+   * history such as searching or sorting oldest first.
+   */
+  const loadAllHistory = useCallback(async () => {
+    setIsHistoryLoading(true);
+    try {
+      const store = await getHistoryStore();
+      const meetings = await store.listAll();
+      loadedCountRef.current = meetings.length;
+      setMeetingHistory((history) => [
+        ...history,
+        ...meetings.filter(
+          (meeting) => !history.some((m) => m.id === meeting.id),
+        ),
+      ]);
+      setHasMoreHistory(false);
+    } catch (e) {
+      console.error("Failed to load meeting history:", e);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  }, []);
+
+  /**
+   * Stores a meeting and applies the retention policy.
+   * The in-memory history is updated immediately; it is reloaded from the
+   * store only if retention removed anything. The server write runs in the
+   * background and a failure there keeps the local copy.
+   */
+  const addMeeting = async (meeting: Meeting) => {
+    setMeetingHistory((history) => [
+      meeting,
+      ...history.filter((m) => m.id !== meeting.id),
+    ]);
+    loadedCountRef.current += 1;
+    trpcClient.meeting.create.mutate(meeting).catch((e) => {
+      console.error("Failed to sync meeting:", e);
+    });
+    try {
+      const store = await getHistoryStore();
+      await store.put(meeting);
+      const removed = await store.applyRetention(retention, Date.now());
+      if (removed > 0) {
+        await reloadHistory(loadedCountRef.current);
+      }
+    } catch (e) {
+      console.error("Failed to save meeting:", e);
+    }
+  };
+
+  /**
+   * Stores a copy of a meeting under a new id, dated now, so it appears at
+   * the top of the history.
+   *
+   * @param meeting - Meeting to copy
+   * @returns The new meeting
+   */
+  const duplicateMeeting = async (meeting: Meeting) => {
+    const copy: Meeting = {
+      ...meeting,
+      id: Date.now().toString(),
+      date: new Date().toISOString(),
+    };
+    await addMeeting(copy);
+    return copy;
+  };
+
+  /**
+   * Deletes a meeting locally and from the server store, so it is not
+   * merged back into the history on the next load.
+   *
+   * @param id - Id of the meeting to delete
+   */
+  const deleteMeeting = async (id: string) => {
+    setMeetingHistory((history) => history.filter((m) => m.id !== id));
+    loadedCountRef.current = Math.max(0, loadedCountRef.current - 1);
+    trpcClient.meeting.delete.mutate({ id }).catch((e) => {
+      console.error("Failed to sync meeting deletion:", e);
+    });
+    try {
+      const store = await getHistoryStore();
+      await store.remove(id);
+    } catch (e) {
+      console.error("Failed to delete meeting:", e);
+    }
+  };
+
+  /**
+   * Reads the whole history, not just the pages loaded so far.
+   *
+   * @returns Every stored meeting, newest first
+   */
+  const exportMeetings = async () => {
+    const store = await getHistoryStore();
+    return store.listAll();
+  };
+
+  /**
+   * Imports meetings into the local history and the server store.
+   * "merge" skips meetings whose id is already stored; "replace" clears the
+   * history first. The retention policy is applied afterwards.
+   *
+   * @param meetings - Validated meetings to import
+   * @param mode - Whether to merge with or replace the current history
+   * @returns Number of meetings added locally
+   */
+  const importMeetings = async (
+    meetings: Meeting[],
+    mode: "merge" | "replace",
+  ) => {
+    const store = await getHistoryStore();
+    if (mode === "replace") {
+      await store.clear();
+    }
+    const added = await store.addMissing(meetings);
+    await store.applyRetention(retention, Date.now());
+    await reloadHistory(loadedCountRef.current);
+    trpcClient.meeting.import.mutate({ meetings, mode }).catch((e) => {
+      console.error("Failed to sync imported meetings:", e);
+    });
+    return added;
+  };
+
+  /**
+   * Persists a new retention policy and immediately prunes the history.
+   */
+  const setRetention = async (policy: RetentionPolicy) => {
+    setRetentionState(policy);
+    try {
+      saveVersioned(historyRetentionStorage, policy);
+      const store = await getHistoryStore();
+      const removed = await store.applyRetention(policy, Date.now());
+      if (removed > 0) {
+        await reloadHistory(loadedCountRef.current);
+      }
+    } catch (e) {
+      console.error("Failed to apply history retention:", e);
+    }
+  };
+
+  return {
+    meetingHistory,
+    setMeetingHistory,
+    hasMoreHistory,
+    isHistoryLoading,
+    loadMoreHistory,
+    loadAllHistory,
+    addMeeting,
+    duplicateMeeting,
+    deleteMeeting,
+    exportMeetings,
+    importMeetings,
+    retention,
+    setRetention,
+  };
+}
@@ -1,10 +1,17 @@
+import { trpcClient } from "@/integrations/tanstack-query/root-provider";
+import type { AgendaItem, Meeting } from "@/lib/meeting";
 import { act, renderHook } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import {
-  type AgendaItem,
-  type Meeting,
-  useMeetingState,
-} from "./useMeetingState";
+import { useMeetingState } from "./useMeetingState";
+
+vi.mock("@/integrations/tanstack-query/root-provider", () => ({
+  trpcClient: {
+    meeting: {
+      create: { mutate: vi.fn() },
+      list: { query: vi.fn() },
+    },
+  },
+}));
 
 /**
  * Test suite for useMeetingState hook.
@@ -15,7 +22,9 @@ import {
  * - meeting history operations and limits
  * - sample data initialization
  * - session management and cleanup
+ * - mirroring a session led by another tab
  * - error handling for localStorage operations
+ * - write-through to and merging from the server store
  */
 describe("useMeetingState", () => {
   beforeEach(() => {
@@ -23,6 +32,12 @@ describe("useMeetingState", () => {
     localStorage.clear();
     vi.useFakeTimers();
     vi.setSystemTime(1609459200000); // Fixed timestamp: 2021-01-01 00:00:00
+    vi.mocked(trpcClient.meeting.create.mutate).mockReset();
+    vi.mocked(trpcClient.meeting.create.mutate).mockResolvedValue(
+      {} as Meeting,
+    );
+    vi.mocked(trpcClient.meeting.list.query).mockReset();
+    vi.mocked(trpcClient.meeting.list.query).mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -183,7 +198,50 @@ describe("useMeetingState", () => {
       consoleSpy.mockRestore();
     });
 
-    it("should load meeting history from localStorage", () => {
+    it("should quarantine an unreadable session instead of dropping it", () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      localStorage.setItem("active-meeting-session", "invalid json");
+
+      renderHook(() => useMeetingState(false));
+
+      const quarantined = JSON.parse(
+        localStorage.getItem("active-meeting-session:quarantine") || "[]",
+      );
+      expect(quarantined).toHaveLength(1);
+      expect(quarantined[0].raw).toBe("invalid json");
+
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it("should restore a session saved in the versioned envelope", () => {
+      localStorage.setItem(
+        "active-meeting-session",
+        JSON.stringify({
+          version: 1,
+          data: {
+            agendaItems: [
+              {
+                id: "test_1",
+                name: "Enveloped Item",
+                estimatedMinutes: 10,
+                isActive: false,
+                elapsedTime: 0,
+              },
+            ],
+            isRunning: false,
+            savedAt: Date.now(),
+          },
+        }),
+      );
+
+      const { result } = renderHook(() => useMeetingState(false));
+
+      expect(result.current.agendaItems).toHaveLength(1);
+      expect(result.current.agendaItems[0].name).toBe("Enveloped Item");
+    });
+
+    it("should load meeting history from localStorage", async () => {
       const mockHistory: Meeting[] = [
         {
           id: "meeting_1",
@@ -205,10 +263,13 @@ describe("useMeetingState", () => {
 
       const { result } = renderHook(() => useMeetingState(false));
 
+      // History is loaded lazily from the history store
+      await act(async () => {});
+
       expect(result.current.meetingHistory).toEqual(mockHistory);
     });
 
-    it("should handle malformed meeting history gracefully", () => {
+    it("should handle malformed meeting history gracefully", async () => {
       const consoleSpy = vi
         .spyOn(console, "error")
         .mockImplementation(() => {});
@@ -217,6 +278,8 @@ describe("useMeetingState", () => {
 
       const { result } = renderHook(() => useMeetingState(false));
 
+      await act(async () => {});
+
       expect(result.current.meetingHistory).toEqual([]);
       expect(consoleSpy).toHaveBeenCalledWith(
         "Failed to load meeting history:",
@@ -246,9 +309,10 @@ describe("useMeetingState", () => {
       const savedData = JSON.parse(
         localStorage.getItem("active-meeting-session") || "{}",
       );
-      expect(savedData.agendaItems).toHaveLength(5); // 4 sample + 1 new
-      expect(savedData.agendaItems[4]).toMatchObject(newItem);
-      expect(savedData.savedAt).toBeTypeOf("number");
+      expect(savedData.version).toBe(1);
+      expect(savedData.data.agendaItems).toHaveLength(5); // 4 sample + 1 new
+      expect(savedData.data.agendaItems[4]).toMatchObject(newItem);
+      expect(savedData.data.savedAt).toBeTypeOf("number");
     });
 
     it("should save session to localStorage when isRunning changes", () => {
@@ -263,7 +327,46 @@ describe("useMeetingState", () => {
       const savedData = JSON.parse(
         localStorage.getItem("active-meeting-session") || "{}",
       );
-      expect(savedData.isRunning).toBe(true);
+      expect(savedData.data.isRunning).toBe(true);
+    });
+
+    it("should leave the session alone when another tab leads", () => {
+      const { result } = renderHook(() => useMeetingState(false, false));
+
+      act(() => {
+        result.current.setAgendaItems([]);
+      });
+
+      expect(localStorage.getItem("active-meeting-session")).toBeNull();
+    });
+
+    it("should take over a session saved by another tab", () => {
+      const { result } = renderHook(() => useMeetingState(false, false));
+      const items: AgendaItem[] = [
+        {
+          id: "mirrored",
+          name: "Mirrored",
+          estimatedMinutes: 5,
+          isActive: true,
+          startTime: 1000,
+          elapsedTime: 2000,
+        },
+      ];
+
+      act(() => {
+        result.current.mirrorSession({
+          agendaItems: items,
+          details: { title: "Weekly" },
+          events: [{ type: "start", at: 1000, nextItemId: "mirrored" }],
+          isRunning: true,
+          savedAt: 1000,
+        });
+      });
+
+      // Taken over as saved, without counting the time since again
+      expect(result.current.agendaItems).toEqual(items);
+      expect(result.current.details).toEqual({ title: "Weekly" });
+      expect(result.current.events).toHaveLength(1);
     });
 
     it("should handle localStorage save errors gracefully", () => {
@@ -340,6 +443,122 @@ describe("useMeetingState", () => {
       expect(new Date(savedMeeting.date).toISOString()).toBe(savedMeeting.date);
     });
 
+    it("should save the event log of the saved items", () => {
+      const { result } = renderHook(() => useMeetingState(false));
+
+      act(() => {
+        result.current.setAgendaItems([
+          {
+            id: "item_1",
+            name: "Done",
+            estimatedMinutes: 10,
+            actualMinutes: 5,
+            isActive: false,
+            elapsedTime: 300000,
+          },
+          {
+            id: "item_2",
+            name: "Not started",
+            estimatedMinutes: 10,
+            isActive: false,
+            elapsedTime: 0,
+          },
+        ]);
+        result.current.logEvent({
+          type: "start",
+          at: 1000,
+          nextItemId: "item_1",
+        });
+        result.current.logEvent({
+          type: "editEstimate",
+          at: 2000,
+          itemId: "item_2",
+          estimatedMinutes: 15,
+        });
+        result.current.logEvent({
+          type: "complete",
+          at: 301000,
+          itemId: "item_1",
+        });
+      });
+
+      expect(
+        JSON.parse(localStorage.getItem("active-meeting-session") || "{}").data
+          .events,
+      ).toHaveLength(3);
+
+      let saved: Meeting | null = null;
+      act(() => {
+        saved = result.current.saveMeeting();
+      });
+
+      expect(saved).not.toBeNull();
+      expect((saved as Meeting | null)?.events).toEqual([
+        { type: "start", at: 1000, nextItemId: "item_1" },
+        { type: "complete", at: 301000, itemId: "item_1" },
+      ]);
+    });
+
+    it("should store the meeting details with the saved meeting", () => {
+      const { result } = renderHook(() => useMeetingState(false));
+
+      act(() => {
+        result.current.setDetails({
+          title: "Weekly sync",
+          facilitator: "Sato",
+          participants: ["Sato", "Suzuki"],
+          purpose: "Align on priorities",
+        });
+        result.current.setAgendaItems([
+          {
+            id: "item_1",
+            name: "Status",
+            estimatedMinutes: 10,
+            actualMinutes: 9,
+            isActive: false,
+            elapsedTime: 540000,
+          },
+        ]);
+      });
+
+      expect(
+        JSON.parse(localStorage.getItem("active-meeting-session") || "{}").data
+          .details.title,
+      ).toBe("Weekly sync");
+
+      let saved: Meeting | null = null;
+      act(() => {
+        saved = result.current.saveMeeting();
+      });
+
+      expect(saved).toEqual(result.current.meetingHistory[0]);
+      expect(result.current.meetingHistory[0]).toMatchObject({
+        title: "Weekly sync",
+        facilitator: "Sato",
+        participants: ["Sato", "Suzuki"],
+        purpose: "Align on priorities",
+      });
+    });
+
+    it("should restore meeting details from the session", () => {
+      localStorage.setItem(
+        "active-meeting-session",
+        JSON.stringify({
+          version: 1,
+          data: {
+            agendaItems: [],
+            details: { title: "Retro" },
+            isRunning: false,
+            savedAt: Date.now(),
+          },
+        }),
+      );
+
+      const { result } = renderHook(() => useMeetingState(false));
+
+      expect(result.current.details).toEqual({ title: "Retro" });
+    });
+
     it("should only save meetings with completed items", () => {
       const { result } = renderHook(() => useMeetingState(false));
 
@@ -385,10 +604,45 @@ describe("useMeetingState", () => {
       expect(savedMeeting.agendaItems[0].name).toBe("Completed Item");
     });
 
-    it("should maintain maximum of 10 meetings in history", () => {
+    it("should save skipped and parked items with their status", () => {
       const { result } = renderHook(() => useMeetingState(false));
 
-      // Create 15 meetings to clearly exceed the limit
+      act(() => {
+        result.current.setAgendaItems([
+          {
+            id: "item_1",
+            name: "Completed Item",
+            estimatedMinutes: 10,
+            actualMinutes: 8,
+            isActive: false,
+            elapsedTime: 480000,
+          },
+          {
+            id: "item_2",
+            name: "Parked Item",
+            estimatedMinutes: 5,
+            isActive: false,
+            elapsedTime: 60000,
+            status: "deferred",
+          },
+        ]);
+      });
+
+      act(() => {
+        result.current.saveMeeting();
+      });
+
+      const savedMeeting = result.current.meetingHistory[0];
+      expect(savedMeeting.agendaItems.map((item) => item.status)).toEqual([
+        undefined,
+        "deferred",
+      ]);
+    });
+
+    it("should keep more than 10 meetings in history", async () => {
+      const { result } = renderHook(() => useMeetingState(false));
+
+      // Create 15 meetings, previously capped at 10
       for (let i = 0; i < 15; i++) {
         const completedItem: AgendaItem = {
           id: `item_${i}`,
@@ -401,20 +655,20 @@ describe("useMeetingState", () => {
 
         act(() => {
           result.current.setAgendaItems([completedItem]);
+        });
+        await act(async () => {
           result.current.saveMeeting();
         });
+        vi.advanceTimersByTime(1000);
       }
 
-      // Should only keep the latest 10
-      expect(result.current.meetingHistory).toHaveLength(10);
-
-      // The most recent meeting should be at index 0 (based on test output, it's Meeting 13)
-      const mostRecentMeeting = result.current.meetingHistory[0];
-      expect(mostRecentMeeting.agendaItems[0].name).toBe("Meeting 13");
-
-      // The oldest kept meeting should be at index 9 (10 meetings back from 14)
-      const oldestKeptMeeting = result.current.meetingHistory[9];
-      expect(oldestKeptMeeting.agendaItems[0].name).toBe("Meeting 4");
+      expect(result.current.meetingHistory).toHaveLength(15);
+      expect(result.current.meetingHistory[0].agendaItems[0].name).toBe(
+        "Meeting 14",
+      );
+      expect(result.current.meetingHistory[14].agendaItems[0].name).toBe(
+        "Meeting 0",
+      );
     });
 
     it("should clear active session after saving meeting", () => {
@@ -485,6 +739,7 @@ describe("useMeetingState", () => {
           ...item,
           isActive: index === 0,
           actualMinutes: 10,
+          extendedMinutes: 5,
           startTime: Date.now(),
           elapsedTime: 5000,
         }),
@@ -503,11 +758,50 @@ describe("useMeetingState", () => {
       for (const item of result.current.agendaItems) {
         expect(item.isActive).toBe(false);
         expect(item.actualMinutes).toBeUndefined();
+        expect(item.extendedMinutes).toBeUndefined();
         expect(item.startTime).toBeUndefined();
         expect(item.elapsedTime).toBe(0);
       }
     });
 
+    it("should clear the event log", () => {
+      const { result } = renderHook(() => useMeetingState(false));
+
+      act(() => {
+        result.current.logEvent({ type: "start", at: 1000, nextItemId: "x" });
+      });
+      expect(result.current.events).toHaveLength(1);
+
+      act(() => {
+        result.current.resetSession();
+      });
+
+      expect(result.current.events).toEqual([]);
+    });
+
+    it("should clear the event log when the agenda is replaced", () => {
+      const { result } = renderHook(() => useMeetingState(false));
+      const items = [
+        {
+          id: "new",
+          name: "New",
+          estimatedMinutes: 5,
+          isActive: false,
+          elapsedTime: 0,
+        },
+      ];
+
+      act(() => {
+        result.current.logEvent({ type: "start", at: 1000, nextItemId: "x" });
+      });
+      act(() => {
+        result.current.replaceSession(items);
+      });
+
+      expect(result.current.agendaItems).toEqual(items);
+      expect(result.current.events).toEqual([]);
+    });
+
     it("should clear active session from localStorage", () => {
       const { result } = renderHook(() => useMeetingState(false));
 
@@ -528,7 +822,7 @@ describe("useMeetingState", () => {
       ).toBe(true);
     });
 
-    it("should preserve meeting history when resetting session", () => {
+    it("should preserve meeting history when resetting session", async () => {
       const mockHistory: Meeting[] = [
         {
           id: "meeting_1",
@@ -550,6 +844,8 @@ describe("useMeetingState", () => {
 
       const { result } = renderHook(() => useMeetingState(false));
 
+      await act(async () => {});
+
       // Verify history was loaded initially
       expect(result.current.meetingHistory).toEqual(mockHistory);
 
@@ -629,4 +925,94 @@ describe("useMeetingState", () => {
       expect(result.current.meetingHistory).toEqual(newHistory);
     });
   });
+
+  describe("server store synchronization", () => {
+    it("should write saved meetings through to the server store", () => {
+      const { result } = renderHook(() => useMeetingState(false));
+
+      const completedItem: AgendaItem = {
+        id: "item_1",
+        name: "Synced Item",
+        estimatedMinutes: 10,
+        actualMinutes: 8,
+        isActive: false,
+        elapsedTime: 480000,
+      };
+
+      act(() => {
+        result.current.setAgendaItems([completedItem]);
+      });
+
+      act(() => {
+        result.current.saveMeeting();
+      });
+
+      expect(trpcClient.meeting.create.mutate).toHaveBeenCalledWith(
+        result.current.meetingHistory[0],
+      );
+    });
+
+    it("should keep the local history when the server write fails", async () => {
+      const consoleSpy = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      vi.mocked(trpcClient.meeting.create.mutate).mockRejectedValue(
+        new Error("network down"),
+      );
+
+      const { result } = renderHook(() => useMeetingState(false));
+
+      act(() => {
+        result.current.setAgendaItems([
+          {
+            id: "item_1",
+            name: "Offline Item",
+            estimatedMinutes: 10,
+            actualMinutes: 8,
+            isActive: false,
+            elapsedTime: 480000,
+          },
+        ]);
+      });
+
+      await act(async () => {
+        result.current.saveMeeting();
+      });
+
+      expect(result.current.meetingHistory).toHaveLength(1);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        "Failed to sync meeting:",
+        expect.any(Error),
+      );
+
+      consoleSpy.mockRestore();
+    });
+
+    it("should merge meetings from the server into local history", async () => {
+      const localMeeting: Meeting = {
+        id: "local_1",
+        date: "2021-01-01T00:00:00.000Z",
+        agendaItems: [],
+      };
+      const remoteMeeting: Meeting = {
+        id: "remote_1",
+        date: "2021-01-02T00:00:00.000Z",
+        agendaItems: [],
+      };
+      localStorage.setItem("meeting-history", JSON.stringify([localMeeting]));
+      vi.mocked(trpcClient.meeting.list.query).mockResolvedValue([
+        remoteMeeting,
+        localMeeting,
+      ]);
+
+      const { result } = renderHook(() => useMeetingState(false));
+
+      await act(async () => {});
+
+      expect(result.current.meetingHistory).toEqual([
+        remoteMeeting,
+        localMeeting,
+      ]);
+    });
+  });
 });
@@ -1,42 +1,58 @@
+import type {
+  ActiveSession,
+  AgendaItem,
+  Meeting,
+  MeetingDetails,
+  MeetingEvent,
+} from "@/lib/meeting";
+import {
+  activeSessionStorage,
+  loadVersioned,
+  saveVersioned,
+} from "@/lib/storage";
+import { SAMPLE_TEMPLATE, agendaFromTemplate } from "@/lib/templates";
 import { useEffect, useState } from "react";
-
-export interface AgendaItem {
-  id: string;
-  name: string;
-  estimatedMinutes: number;
-  actualMinutes?: number;
-  isActive: boolean;
-  startTime?: number;
-  elapsedTime: number;
-}
-
-export interface Meeting {
-  id: string;
-  date: string;
-  agendaItems: AgendaItem[];
-}
+import { useMeetingHistory } from "./useMeetingHistory";
 
 /**
  * Custom hook for managing meeting state and persistence.
  *
  * This hook provides comprehensive meeting state management including:
  * - Managing agenda items with automatic localStorage persistence
- * - Meeting history management with localStorage persistence
- * - Session restoration from localStorage on initialization
+ * - Meeting details (title, facilitator, participants, purpose) kept with
+ *   the session and stored on the saved meeting
+ * - The append-only event log of the session (see lib/meetingLog), stored
+ *   on the saved meeting
+ * - Meeting history management backed by the local history store
+ *   (see useMeetingHistory), loaded lazily page by page
+ * - Write-through of saved meetings to the server store via tRPC
+ * - Session restoration from localStorage on initialization, migrating
+ *   older payload versions and quarantining unreadable ones (see lib/storage)
  * - Sample data initialization when no saved session exists
  *
  * The hook automatically saves the active session to localStorage whenever
- * agendaItems or isRunning state changes, enabling persistence across
- * browser sessions and tab switches.
+ * agendaItems, details, events or isRunning state changes, enabling
+ * persistence across browser sessions and tab switches. A tab that only
+ * mirrors a meeting led by another tab (see useTabSync) passes
+ * persist=false, so the leader stays the only writer.
  *
  * @param isRunning - Current timer running state for session persistence
+ * @param persist - Whether this tab writes the active session (defaults to true)
  * @returns Object containing meeting state and management functions
  * @returns returns.agendaItems - Array of current agenda items
  * @returns returns.setAgendaItems - Function to update agenda items
- * @returns returns.meetingHistory - Array of saved meeting history (max 10 items)
+ * @returns returns.details - Metadata of the current meeting
+ * @returns returns.setDetails - Function to update the meeting metadata
+ * @returns returns.events - Event log of the current session
+ * @returns returns.logEvent - Function to append an event to the log
+ * @returns returns.meetingHistory - Saved meetings loaded so far, newest first
  * @returns returns.setMeetingHistory - Function to update meeting history
+ * @returns returns.hasMoreHistory - Whether older meetings remain to be loaded
+ * @returns returns.loadMoreHistory - Function to load the next page of history
  * @returns returns.saveMeeting - Function to save current meeting to history
  * @returns returns.resetSession - Function to reset current session and clear localStorage
+ * @returns returns.replaceSession - Function to start over with a different agenda
+ * @returns returns.mirrorSession - Function to take over a session written by another tab
  *
  * @example
  * ```tsx
@@ -64,7 +80,7 @@ export interface Meeting {
  * }
  * ```
  */
-export function useMeetingState(isRunning: boolean) {
+export function useMeetingState(isRunning: boolean, persist = true) {
   /**
    * Initialize agenda items state with session restoration or sample data.
    * Attempts to restore from localStorage first, recalculating elapsed times
@@ -73,11 +89,10 @@ export function useMeetingState(isRunning: boolean) {
   const [agendaItems, setAgendaItems] = useState<AgendaItem[]>(() => {
     // Try to restore active session from localStorage
     try {
-      const savedSession = localStorage.getItem("active-meeting-session");
-      if (savedSession) {
-        const session = JSON.parse(savedSession);
+      const session = loadVersioned(activeSessionStorage);
+      if (session) {
         // Update elapsed times based on saved timestamps
-        return session.agendaItems.map((item: AgendaItem) => {
+        return session.agendaItems.map((item) => {
           if (item.isActive && item.startTime) {
             // Calculate elapsed time since browser was closed
             const additionalElapsed = Date.now() - item.startTime;
@@ -94,109 +109,113 @@ export function useMeetingState(isRunning: boolean) {
       console.error("Failed to restore session:", e);
     }
 
-    // Initialize with sample data if no saved session
-    const now = Date.now();
-    return [
-      {
-        id: `sample_${now}_1`,
-        name: "プロジェクト概要説明",
-        estimatedMinutes: 5,
-        isActive: false,
-        elapsedTime: 0,
-      },
-      {
-        id: `sample_${now}_2`,
-        name: "進捗報告",
-        estimatedMinutes: 10,
-        isActive: false,
-        elapsedTime: 0,
-      },
-      {
-        id: `sample_${now}_3`,
-        name: "課題とディスカッション",
-        estimatedMinutes: 15,
-        isActive: false,
-        elapsedTime: 0,
-      },
-      {
-        id: `sample_${now}_4`,
-        name: "次回アクション確認",
-        estimatedMinutes: 5,
-        isActive: false,
-        elapsedTime: 0,
-      },
-    ];
+    // Initialize with the built-in sample template if no saved session
+    return agendaFromTemplate(SAMPLE_TEMPLATE);
   });
 
   /**
-   * Initialize meeting history state from localStorage.
+   * Meeting metadata, restored from the active session when available.
    */
-  const [meetingHistory, setMeetingHistory] = useState<Meeting[]>([]);
+  const [details, setDetails] = useState<MeetingDetails>(() => {
+    try {
+      return loadVersioned(activeSessionStorage)?.details ?? {};
+    } catch (e) {
+      // Already reported by the agenda items initializer
+      return {};
+    }
+  });
 
   /**
-   * Load meeting history from localStorage on component mount.
+   * Event log of the session, restored from the active session when available.
    */
-  useEffect(() => {
+  const [events, setEvents] = useState<MeetingEvent[]>(() => {
     try {
-      const saved = localStorage.getItem("meeting-history");
-      if (saved) {
-        setMeetingHistory(JSON.parse(saved));
-      }
+      return loadVersioned(activeSessionStorage)?.events ?? [];
     } catch (e) {
-      console.error("Failed to load meeting history:", e);
+      // Already reported by the agenda items initializer
+      return [];
     }
-  }, []);
+  });
+
+  const logEvent = (event: MeetingEvent) => {
+    setEvents((current) => [...current, event]);
+  };
+
+  const {
+    meetingHistory,
+    setMeetingHistory,
+    hasMoreHistory,
+    loadMoreHistory,
+    addMeeting,
+  } = useMeetingHistory();
 
   /**
    * Save active session to localStorage whenever state changes.
    * This effect ensures persistence across browser sessions and tab switches.
    */
   useEffect(() => {
+    if (!persist) return;
     try {
-      const sessionData = {
+      const sessionData: ActiveSession = {
         agendaItems,
+        details,
+        events,
         isRunning,
         savedAt: Date.now(),
       };
-      localStorage.setItem(
-        "active-meeting-session",
-        JSON.stringify(sessionData),
-      );
+      saveVersioned(activeSessionStorage, sessionData);
     } catch (e) {
       console.error("Failed to save session:", e);
     }
-  }, [agendaItems, isRunning]);
+  }, [agendaItems, details, events, isRunning, persist]);
 
   /**
    * Saves the current meeting to history and clears the active session.
    * Only saves meetings that have at least one completed agenda item.
-   * Maintains a maximum of 10 meetings in history.
+   * Skipped and deferred items are saved with their status so the next
+   * meeting can pick up the parking lot.
+   * Log events that only concern items that were not saved are dropped.
+   * The meeting is kept in the local history store (subject to the retention
+   * policy) and written through to the server store by addMeeting.
+   *
+   * @returns The saved meeting, or null if nothing was saved
    */
-  const saveMeeting = () => {
+  const saveMeeting = (): Meeting | null => {
     if (
       agendaItems.length > 0 &&
       agendaItems.some((item) => item.actualMinutes)
     ) {
       try {
+        const savedItems = agendaItems.filter(
+          (item) => item.actualMinutes || item.status,
+        );
+        const savedIds = new Set(savedItems.map((item) => item.id));
         const meeting: Meeting = {
+          ...details,
           id: Date.now().toString(),
           date: new Date().toISOString(),
-          agendaItems: agendaItems.filter((item) => item.actualMinutes),
+          agendaItems: savedItems,
+          events: events.filter(
+            (event) =>
+              (event.itemId !== undefined && savedIds.has(event.itemId)) ||
+              (event.nextItemId !== undefined &&
+                savedIds.has(event.nextItemId)),
+          ),
         };
-        const updatedHistory = [meeting, ...meetingHistory].slice(0, 10);
-        setMeetingHistory(updatedHistory);
-        localStorage.setItem("meeting-history", JSON.stringify(updatedHistory));
+        addMeeting(meeting);
         // Clear active session after saving
         localStorage.removeItem("active-meeting-session");
+        return meeting;
       } catch (e) {
         console.error("Failed to save meeting:", e);
       }
     }
+    return null;
   };
 
   /**
-   * Resets the current session by clearing all agenda items' progress
-   * and removing the active session from localStorage.
+   * Resets the current session by clearing all agenda items' progress and
+   * the event log, and removing the active session from localStorage.
    */
   const resetSession = () => {
     setAgendaItems((items) =>
@@ -204,10 +223,13 @@ export function useMeetingState(isRunning: boolean) {
         ...item,
         isActive: false,
         actualMinutes: undefined,
+        status: undefined,
+        extendedMinutes: undefined,
         startTime: undefined,
         elapsedTime: 0,
       })),
     );
+    setEvents([]);
     // Clear the active session from localStorage
     try {
       localStorage.removeItem("active-meeting-session");
@@ -216,12 +238,43 @@ export function useMeetingState(isRunning: boolean) {
     }
   };
 
+  /**
+   * Starts over with a different agenda, e.g. from a template or an import.
+   * The event log belonged to the old agenda and is cleared with it.
+   *
+   * @param items - New agenda items
+   */
+  const replaceSession = (items: AgendaItem[]) => {
+    setAgendaItems(items);
+    setEvents([]);
+  };
+
+  /**
+   * Replaces the agenda, details and event log with a session written by
+   * the tab leading the meeting.
+   *
+   * @param session - Session as the leading tab saved it
+   */
+  const mirrorSession = (session: ActiveSession) => {
+    setAgendaItems(session.agendaItems);
+    setDetails(session.details ?? {});
+    setEvents(session.events ?? []);
+  };
+
   return {
     agendaItems,
     setAgendaItems,
+    details,
+    setDetails,
+    events,
+    logEvent,
     meetingHistory,
     setMeetingHistory,
+    hasMoreHistory,
+    loadMoreHistory,
     saveMeeting,
     resetSession,
+    replaceSession,
+    mirrorSession,
   };
 }
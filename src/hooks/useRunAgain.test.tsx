@@ -0,0 +1,167 @@
+import { LanguageProvider } from "@/contexts/LanguageContext";
+import type { Meeting } from "@/lib/meeting";
+import type { NewSession } from "@/lib/tabSync";
+import { renderHook } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useRunAgain, useRunAgainHandOver } from "./useRunAgain";
+
+const navigate = vi.fn();
+let historyState: { runAgain?: NewSession } = {};
+
+vi.mock("@tanstack/react-router", () => ({
+  useNavigate: () => navigate,
+  useRouterState: ({
+    select,
+  }: { select: (state: { location: { state: unknown } }) => unknown }) =>
+    select({ location: { state: historyState } }),
+}));
+
+/**
+ * Test suite for useRunAgain hook.
+ *
+ * Tests starting a new session from a past meeting including:
+ * - handing the cloned agenda to the tracker
+ * - confirmation before discarding a session in progress
+ * - picking up the handed-over session once
+ */
+describe("useRunAgain", () => {
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <LanguageProvider>{children}</LanguageProvider>
+  );
+
+  const meeting: Meeting = {
+    id: "meeting_1",
+    date: "2021-01-01T00:00:00.000Z",
+    agendaItems: [
+      {
+        id: "item_1",
+        name: "Progress Report",
+        estimatedMinutes: 10,
+        actualMinutes: 12.4,
+        isActive: false,
+        elapsedTime: 744000,
+      },
+    ],
+  };
+
+  const readSession = () =>
+    JSON.parse(localStorage.getItem("active-meeting-session") || "{}").data;
+
+  /**
+   * The session handed to the tracker by the last navigation.
+   */
+  const handedOver = (): NewSession =>
+    navigate.mock.lastCall?.[0].state.runAgain;
+
+  const storeSession = (status?: "skipped") =>
+    localStorage.setItem(
+      "active-meeting-session",
+      JSON.stringify({
+        version: 1,
+        data: {
+          agendaItems: [
+            {
+              ...meeting.agendaItems[0],
+              id: "current",
+              actualMinutes: undefined,
+              elapsedTime: status ? 0 : 60000,
+              status,
+            },
+          ],
+          isRunning: false,
+          savedAt: Date.now(),
+        },
+      }),
+    );
+
+  beforeEach(() => {
+    navigate.mockReset();
+    historyState = {};
+  });
+
+  it("should hand a fresh agenda to the tracker", () => {
+    const { result } = renderHook(() => useRunAgain(), { wrapper });
+
+    result.current(meeting);
+
+    const session = handedOver();
+    expect(navigate).toHaveBeenCalledWith(expect.objectContaining({ to: "/" }));
+    expect(session.agendaItems).toEqual([
+      expect.objectContaining({
+        name: "Progress Report",
+        estimatedMinutes: 10,
+        elapsedTime: 0,
+        isActive: false,
+      }),
+    ]);
+    expect(session.agendaItems[0].actualMinutes).toBeUndefined();
+  });
+
+  it("should not write the active session itself", () => {
+    const { result } = renderHook(() => useRunAgain(), { wrapper });
+
+    result.current(meeting);
+
+    expect(readSession()).toBeUndefined();
+  });
+
+  it("should use past actuals as estimates when asked", () => {
+    const { result } = renderHook(() => useRunAgain(), { wrapper });
+
+    result.current(meeting, { useActualsAsEstimates: true });
+
+    expect(handedOver().agendaItems[0].estimatedMinutes).toBe(12);
+  });
+
+  it("should keep a session in progress when the user cancels", () => {
+    storeSession();
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(false);
+
+    const { result } = renderHook(() => useRunAgain(), { wrapper });
+    result.current(meeting);
+
+    expect(confirmSpy).toHaveBeenCalled();
+    expect(readSession().agendaItems[0].id).toBe("current");
+    expect(navigate).not.toHaveBeenCalled();
+
+    confirmSpy.mockRestore();
+  });
+
+  it("should ask before replacing an agenda with skipped items only", () => {
+    storeSession("skipped");
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(false);
+
+    const { result } = renderHook(() => useRunAgain(), { wrapper });
+    result.current(meeting);
+
+    expect(confirmSpy).toHaveBeenCalled();
+    expect(navigate).not.toHaveBeenCalled();
+
+    confirmSpy.mockRestore();
+  });
+
+  it("should start the handed-over session and clear the navigation state", () => {
+    const session: NewSession = { agendaItems: [], details: { title: "Sync" } };
+    historyState = { runAgain: session };
+    const start = vi.fn();
+
+    renderHook(() => useRunAgainHandOver(start));
+
+    expect(start).toHaveBeenCalledWith(session);
+    expect(navigate).toHaveBeenCalledWith({
+      to: "/",
+      replace: true,
+      state: {},
+    });
+  });
+
+  it("should do nothing without a handed-over session", () => {
+    const start = vi.fn();
+
+    renderHook(() => useRunAgainHandOver(start));
+
+    expect(start).not.toHaveBeenCalled();
+    expect(navigate).not.toHaveBeenCalled();
+  });
+});
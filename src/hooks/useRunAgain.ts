@@ -0,0 +1,83 @@
+import { useLanguage } from "@/contexts/LanguageContext";
+import { type Meeting, cloneAgenda, getMeetingDetails } from "@/lib/meeting";
+import { activeSessionStorage, loadVersioned } from "@/lib/storage";
+import type { NewSession } from "@/lib/tabSync";
+import { useNavigate, useRouterState } from "@tanstack/react-router";
+import { useEffect, useRef } from "react";
+
+/**
+ * Custom hook for starting a new meeting from a past meeting's agenda.
+ *
+ * The returned function hands a copy of the meeting's agenda (timing reset,
+ * optionally using past actuals as estimates) and its details to the
+ * tracker in the navigation state; the tracker starts it through the tab
+ * leading the meeting (see useRunAgainHandOver). If the current session
+ * already has progress, the user is asked to confirm before it is replaced.
+ *
+ * @returns Function taking the meeting and clone options
+ *
+ * @example
+ * ```tsx
+ * const runAgain = useRunAgain();
+ *
+ * <button onClick={() => runAgain(meeting, { useActualsAsEstimates: true })} />
+ * ```
+ */
+export function useRunAgain() {
+  const { t } = useLanguage();
+  const navigate = useNavigate();
+
+  return (
+    meeting: Meeting,
+    options: { useActualsAsEstimates?: boolean } = {},
+  ) => {
+    try {
+      const session = loadVersioned(activeSessionStorage);
+      const inProgress = session?.agendaItems.some(
+        (item) =>
+          item.isActive ||
+          item.elapsedTime > 0 ||
+          item.actualMinutes ||
+          item.status,
+      );
+      if (inProgress && !window.confirm(t("runAgain.confirmReplace"))) {
+        return;
+      }
+    } catch (e) {
+      // An unreadable session has been quarantined; nothing to preserve
+    }
+
+    navigate({
+      to: "/",
+      state: {
+        runAgain: {
+          agendaItems: cloneAgenda(meeting, options),
+          details: getMeetingDetails(meeting),
+        },
+      },
+    });
+  };
+}
+
+/**
+ * Custom hook for the tracker's side of "Run again".
+ *
+ * Picks up the session handed over in the navigation state and clears the
+ * state, so going back or reloading does not start the meeting again.
+ *
+ * @param start - Starts the handed-over session
+ */
+export function useRunAgainHandOver(start: (session: NewSession) => void) {
+  const navigate = useNavigate();
+  const session = useRouterState({
+    select: (state) => state.location.state.runAgain,
+  });
+  const latest = useRef(start);
+  latest.current = start;
+
+  useEffect(() => {
+    if (!session) return;
+    navigate({ to: "/", replace: true, state: {} });
+    latest.current(session);
+  }, [session, navigate]);
+}
@@ -0,0 +1,89 @@
+import type { ActiveSession } from "@/lib/meeting";
+import { activeSessionStorage, saveVersioned } from "@/lib/storage";
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { useSessionMirror } from "./useSessionMirror";
+
+/**
+ * Test suite for useSessionMirror hook.
+ *
+ * Tests following the session written by another tab including:
+ * - the session stored when the hook mounts
+ * - updates and removal announced by storage events
+ * - unreadable sessions
+ */
+describe("useSessionMirror", () => {
+  const session = (name: string): ActiveSession => ({
+    agendaItems: [
+      {
+        id: "item_1",
+        name,
+        estimatedMinutes: 10,
+        isActive: true,
+        startTime: 1000,
+        elapsedTime: 0,
+      },
+    ],
+    isRunning: true,
+    savedAt: 1000,
+  });
+
+  /**
+   * Writes the session as another tab would and announces it.
+   */
+  const writeFromOtherTab = (value: ActiveSession | null) => {
+    if (value) {
+      saveVersioned(activeSessionStorage, value);
+    } else {
+      localStorage.removeItem(activeSessionStorage.key);
+    }
+    window.dispatchEvent(
+      new StorageEvent("storage", { key: activeSessionStorage.key }),
+    );
+  };
+
+  afterEach(() => {
+    localStorage.clear();
+    vi.restoreAllMocks();
+  });
+
+  it("should load the stored session", () => {
+    saveVersioned(activeSessionStorage, session("Progress Report"));
+
+    const { result } = renderHook(() => useSessionMirror());
+
+    expect(result.current?.agendaItems[0].name).toBe("Progress Report");
+  });
+
+  it("should follow changes made in another tab", () => {
+    const { result } = renderHook(() => useSessionMirror());
+    expect(result.current).toBeNull();
+
+    act(() => writeFromOtherTab(session("Planning")));
+    expect(result.current?.agendaItems[0].name).toBe("Planning");
+
+    act(() => writeFromOtherTab(null));
+    expect(result.current).toBeNull();
+  });
+
+  it("should ignore other keys", () => {
+    const { result } = renderHook(() => useSessionMirror());
+
+    act(() => {
+      saveVersioned(activeSessionStorage, session("Planning"));
+      window.dispatchEvent(new StorageEvent("storage", { key: "theme" }));
+    });
+
+    expect(result.current).toBeNull();
+  });
+
+  it("should treat an unreadable session as none", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    localStorage.setItem(activeSessionStorage.key, "{not json");
+
+    const { result } = renderHook(() => useSessionMirror());
+
+    expect(result.current).toBeNull();
+    expect(console.error).toHaveBeenCalled();
+  });
+});
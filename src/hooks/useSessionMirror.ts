@@ -0,0 +1,43 @@
+import { activeSessionStorage } from "@/lib/storage";
+import { loadSession } from "@/lib/tabSync";
+import { useEffect, useState } from "react";
+
+/**
+ * Custom hook that follows the active session of the tracker page without
+ * owning it.
+ *
+ * The session is read from localStorage and read again whenever another
+ * tab writes it (the `storage` event), so a view opened in a second window
+ * stays in step with the tab running the meeting. The mirror never writes:
+ * running items keep counting from their startTime, so the caller only
+ * needs a clock to show live times.
+ *
+ * @returns The latest active session, or null when no meeting is in progress
+ *
+ * @example
+ * ```tsx
+ * const session = useSessionMirror();
+ * const items = session?.agendaItems ?? [];
+ * ```
+ */
+export function useSessionMirror() {
+  const [session, setSession] = useState(loadSession);
+
+  /**
+   * Effect that reloads the session when another tab changes it.
+   */
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      // key is null when the whole storage was cleared
+      if (event.key === activeSessionStorage.key || event.key === null) {
+        setSession(loadSession());
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => {
+      window.removeEventListener("storage", handleStorage);
+    };
+  }, []);
+
+  return session;
+}
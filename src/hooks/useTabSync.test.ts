@@ -0,0 +1,174 @@
+import type { ActiveSession } from "@/lib/meeting";
+import {
+  activeSessionStorage,
+  saveVersioned,
+  tabLeaderStorage,
+} from "@/lib/storage";
+import { HEARTBEAT_MS } from "@/lib/tabSync";
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useTabSync } from "./useTabSync";
+
+/**
+ * Test suite for useTabSync hook.
+ *
+ * Tests two tabs sharing a meeting including:
+ * - a single leader, and commands reaching it from the other tab
+ * - mirroring the sessions the leader saves
+ * - handing over leadership on resignation, expiry or take-over
+ */
+describe("useTabSync", () => {
+  /**
+   * In-memory BroadcastChannel delivering to the other channels of the same
+   * name, as the browser does between tabs.
+   */
+  class FakeBroadcastChannel {
+    static open: FakeBroadcastChannel[] = [];
+    private listeners: ((event: MessageEvent) => void)[] = [];
+
+    constructor(readonly name: string) {
+      FakeBroadcastChannel.open.push(this);
+    }
+
+    addEventListener(
+      _type: "message",
+      listener: (event: MessageEvent) => void,
+    ) {
+      this.listeners.push(listener);
+    }
+
+    postMessage(data: unknown) {
+      for (const other of FakeBroadcastChannel.open) {
+        if (other !== this && other.name === this.name) {
+          for (const listener of other.listeners) {
+            listener(new MessageEvent("message", { data }));
+          }
+        }
+      }
+    }
+
+    close() {
+      FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter(
+        (channel) => channel !== this,
+      );
+    }
+  }
+
+  const session: ActiveSession = {
+    agendaItems: [
+      {
+        id: "item_1",
+        name: "Progress Report",
+        estimatedMinutes: 10,
+        isActive: true,
+        startTime: 1000,
+        elapsedTime: 0,
+      },
+    ],
+    isRunning: true,
+    savedAt: 1000,
+  };
+
+  /**
+   * Renders the hook as one tab.
+   */
+  const renderTab = (tabId: string) => {
+    const onCommand = vi.fn();
+    const onSession = vi.fn();
+    const hook = renderHook(() => useTabSync(onCommand, onSession, tabId));
+    return { ...hook, onCommand, onSession };
+  };
+
+  /**
+   * Announces a localStorage change made by another tab.
+   */
+  const announce = (key: string) =>
+    act(() => {
+      window.dispatchEvent(new StorageEvent("storage", { key }));
+    });
+
+  beforeEach(() => {
+    vi.stubGlobal("BroadcastChannel", FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    FakeBroadcastChannel.open = [];
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("should make the first tab the leader and send commands to it", () => {
+    const leader = renderTab("a");
+    const follower = renderTab("b");
+
+    expect(leader.result.current.isLeader).toBe(true);
+    expect(follower.result.current.isLeader).toBe(false);
+
+    act(() => {
+      follower.result.current.sendCommand({
+        type: "flow",
+        event: { type: "pause" },
+      });
+    });
+
+    expect(leader.onCommand).toHaveBeenCalledWith({
+      type: "flow",
+      event: { type: "pause" },
+    });
+    expect(follower.onCommand).not.toHaveBeenCalled();
+  });
+
+  it("should mirror the sessions the leader saves", () => {
+    const leader = renderTab("a");
+    const follower = renderTab("b");
+
+    saveVersioned(activeSessionStorage, session);
+    announce(activeSessionStorage.key);
+
+    expect(follower.onSession).toHaveBeenLastCalledWith(session);
+    expect(leader.onSession).not.toHaveBeenCalled();
+  });
+
+  it("should hand over when the leader closes", () => {
+    const leader = renderTab("a");
+    const follower = renderTab("b");
+    saveVersioned(activeSessionStorage, session);
+
+    leader.unmount();
+
+    expect(follower.result.current.isLeader).toBe(true);
+  });
+
+  it("should take over a lease that is no longer renewed", () => {
+    vi.useFakeTimers();
+    saveVersioned(tabLeaderStorage, {
+      tabId: "gone",
+      expiresAt: Date.now() + HEARTBEAT_MS,
+    });
+    const tab = renderTab("a");
+    expect(tab.result.current.isLeader).toBe(false);
+
+    act(() => {
+      vi.advanceTimersByTime(HEARTBEAT_MS);
+    });
+
+    expect(tab.result.current.isLeader).toBe(true);
+  });
+
+  it("should step down when another tab takes over", () => {
+    const leader = renderTab("a");
+    const follower = renderTab("b");
+    saveVersioned(activeSessionStorage, session);
+
+    act(() => {
+      follower.result.current.takeOver();
+    });
+    announce(tabLeaderStorage.key);
+
+    expect(follower.result.current.isLeader).toBe(true);
+    expect(leader.result.current.isLeader).toBe(false);
+    // The former leader catches up with the session right away
+    expect(leader.onSession).toHaveBeenCalledWith(session);
+  });
+});
@@ -0,0 +1,143 @@
+import type { ActiveSession } from "@/lib/meeting";
+import { activeSessionStorage, tabLeaderStorage } from "@/lib/storage";
+import {
+  HEARTBEAT_MS,
+  TAB_CHANNEL,
+  type TabCommand,
+  type TabMessage,
+  claimLeadership,
+  loadSession,
+  releaseLeadership,
+} from "@/lib/tabSync";
+import { useEffect, useRef, useState } from "react";
+
+/** Identifies this tab for as long as the page is loaded */
+const TAB_ID = `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+
+const openChannel = () =>
+  typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel(TAB_CHANNEL)
+    : null;
+
+/**
+ * Custom hook that coordinates the tracker tabs (see lib/tabSync).
+ *
+ * Leadership is claimed while rendering the first time, so a tab that opens
+ * next to a running meeting never writes the session. After that it is
+ * checked on every heartbeat, whenever another tab changes the lease, when
+ * the leader resigns and when the tab becomes visible again. The leader
+ * receives the other tabs' commands; the other tabs receive every session
+ * the leader saves, starting with the current one when they stop leading.
+ *
+ * @param onCommand - Applies a command sent by another tab (leader only)
+ * @param onSession - Takes over a session saved by the leader (other tabs only)
+ * @param tabId - Identifies this tab (defaults to one id per page load)
+ * @returns Object containing the tab's role
+ * @returns returns.isLeader - Whether this tab owns the clock and the session
+ * @returns returns.sendCommand - Sends a command to the leader
+ * @returns returns.takeOver - Makes this tab the leader
+ *
+ * @example
+ * ```tsx
+ * const { isLeader, sendCommand } = useTabSync(
+ *   (command) => command.type === "flow" && dispatch(command.event),
+ *   mirrorSession,
+ * );
+ * ```
+ */
+export function useTabSync(
+  onCommand: (command: TabCommand) => void,
+  onSession: (session: ActiveSession) => void,
+  tabId = TAB_ID,
+) {
+  const [isLeader, setIsLeader] = useState(() => claimLeadership(tabId));
+  const channel = useRef<BroadcastChannel | null>(null);
+
+  // Values as of the latest render, read by the listeners
+  const latest = useRef({ onCommand, onSession, isLeader });
+  latest.current = { onCommand, onSession, isLeader };
+
+  /**
+   * Effect that keeps the lease, and listens to the other tabs.
+   */
+  useEffect(() => {
+    const elect = () => setIsLeader(claimLeadership(tabId));
+    elect();
+
+    const bc = openChannel();
+    channel.current = bc;
+    bc?.addEventListener("message", (event: MessageEvent<TabMessage>) => {
+      const message = event.data;
+      if (message.type === "command" && latest.current.isLeader) {
+        latest.current.onCommand(message.command);
+      } else if (message.type === "resign") {
+        elect();
+      }
+    });
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === tabLeaderStorage.key) {
+        elect();
+      } else if (
+        event.key === activeSessionStorage.key &&
+        !latest.current.isLeader
+      ) {
+        // Removed while the leader saves or resets; its next write follows
+        const session = loadSession();
+        if (session) latest.current.onSession(session);
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (!document.hidden) elect();
+    };
+    const resign = () => {
+      if (releaseLeadership(tabId)) {
+        bc?.postMessage({ type: "resign" } satisfies TabMessage);
+      }
+    };
+
+    window.addEventListener("storage", handleStorage);
+    window.addEventListener("pagehide", resign);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    const heartbeat = window.setInterval(elect, HEARTBEAT_MS);
+    return () => {
+      resign();
+      window.clearInterval(heartbeat);
+      window.removeEventListener("storage", handleStorage);
+      window.removeEventListener("pagehide", resign);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      bc?.close();
+      channel.current = null;
+    };
+  }, [tabId]);
+
+  /**
+   * Effect that catches up with the leader's session when this tab does not
+   * lead, whether from the start or after another tab took over.
+   */
+  useEffect(() => {
+    if (isLeader) return;
+    const session = loadSession();
+    if (session) latest.current.onSession(session);
+  }, [isLeader]);
+
+  /**
+   * Sends a command for the leader to apply.
+   */
+  const sendCommand = (command: TabCommand) => {
+    channel.current?.postMessage({
+      type: "command",
+      command,
+    } satisfies TabMessage);
+  };
+
+  /**
+   * Takes the lease from the current leader, which becomes a mirror when
+   * it sees the change.
+   */
+  const takeOver = () => {
+    setIsLeader(claimLeadership(tabId, { force: true }));
+  };
+
+  return { isLeader, sendCommand, takeOver };
+}
@@ -0,0 +1,123 @@
+import type { AgendaItem, AlertSettings } from "@/lib/meeting";
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { useThresholdAlerts } from "./useThresholdAlerts";
+
+/**
+ * Test suite for useThresholdAlerts hook.
+ *
+ * Tests including:
+ * - flashing and vibrating when a threshold is crossed between ticks
+ * - no alert on the first tick of an item
+ * - muting vibrations while still flashing, and persisting the choice
+ * - only flashing in a tab that does not lead
+ * - counting down the rebalanced budget in fixed end-time mode
+ */
+describe("useThresholdAlerts", () => {
+  const vibrate = vi.fn();
+
+  const item: AgendaItem = {
+    id: "item_1",
+    name: "Progress Report",
+    estimatedMinutes: 10,
+    isActive: true,
+    elapsedTime: 0,
+  };
+
+  /**
+   * Renders the hook with the active item at a given elapsed time.
+   */
+  const renderAlerts = (settings?: AlertSettings, elapsed = 0) =>
+    renderHook(
+      ({ elapsed }) => useThresholdAlerts([item], () => elapsed, settings),
+      { initialProps: { elapsed } },
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+    vibrate.mockClear();
+    Object.defineProperty(navigator, "vibrate", {
+      value: vibrate,
+      configurable: true,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should flash and vibrate when the time runs out", () => {
+    const { result, rerender } = renderAlerts(undefined, 9.9 * 60000);
+
+    rerender({ elapsed: 10 * 60000 });
+
+    expect(result.current.flash).toBe("timeUp");
+    expect(vibrate).toHaveBeenCalledTimes(1);
+
+    act(() => {
+      vi.advanceTimersByTime(1500);
+    });
+    expect(result.current.flash).toBeNull();
+  });
+
+  it("should not alert on the first tick of an item", () => {
+    const { result } = renderHook(() =>
+      useThresholdAlerts([item], () => 12 * 60000),
+    );
+
+    expect(result.current.flash).toBeNull();
+    expect(vibrate).not.toHaveBeenCalled();
+  });
+
+  it("should only give the alerts the meeting asks for", () => {
+    const { result, rerender } = renderAlerts({ flash: false });
+
+    rerender({ elapsed: 8 * 60000 + 500 });
+
+    expect(result.current.flash).toBeNull();
+    expect(vibrate).toHaveBeenCalledTimes(1);
+  });
+
+  it("should silence vibrations when muted and remember it", () => {
+    const { result, rerender } = renderAlerts();
+
+    act(() => {
+      result.current.toggleMuted();
+    });
+    rerender({ elapsed: 8 * 60000 + 500 });
+
+    expect(result.current.isMuted).toBe(true);
+    expect(result.current.flash).toBe("warning");
+    expect(vibrate).not.toHaveBeenCalled();
+    expect(
+      renderHook(() => useThresholdAlerts([], () => 0)).result.current.isMuted,
+    ).toBe(true);
+  });
+
+  it("should only flash in a tab that does not lead", () => {
+    const { result, rerender } = renderHook(
+      ({ elapsed }) =>
+        useThresholdAlerts([item], () => elapsed, undefined, undefined, false),
+      { initialProps: { elapsed: 9.9 * 60000 } },
+    );
+
+    rerender({ elapsed: 10 * 60000 });
+
+    expect(result.current.flash).toBe("timeUp");
+    expect(vibrate).not.toHaveBeenCalled();
+  });
+
+  it("should alert when the rebalanced budget runs out", () => {
+    const budgets = new Map([[item.id, 6]]);
+    const { result, rerender } = renderHook(
+      ({ elapsed }) =>
+        useThresholdAlerts([item], () => elapsed, undefined, budgets),
+      { initialProps: { elapsed: 5.9 * 60000 } },
+    );
+
+    rerender({ elapsed: 6 * 60000 });
+
+    expect(result.current.flash).toBe("timeUp");
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  type AlertKind,
+  crossedAlert,
+  playChime,
+  resolveAlertSettings,
+  vibrateFor,
+} from "@/lib/alerts";
+import { type AgendaItem, type AlertSettings, timeBox } from "@/lib/meeting";
+import {
+  alertsMutedStorage,
+  loadVersioned,
+  saveVersioned,
+} from "@/lib/storage";
+import { useEffect, useRef, useState } from "react";
+
+/** How long the screen flashes for an alert, in milliseconds */
+const FLASH_DURATION = 1500;
+
+/**
+ * Loads the mute preference, defaulting to unmuted.
+ */
+function loadMuted(): boolean {
+  try {
+    return loadVersioned(alertsMutedStorage) ?? false;
+  } catch (e) {
+    console.error("Failed to load alert mute setting:", e);
+    return false;
+  }
+}
+
+/**
+ * Custom hook that gives threshold alerts for the active agenda item.
+ *
+ * The remaining time of the active item is computed on every render, so the
+ * hook follows the same currentTime tick as the rest of the page. It counts
+ * down the same time as the agenda: the rebalanced budget in fixed end-time
+ * mode, the time box otherwise. When the remaining time crosses a threshold
+ * (see lib/alerts) the hook plays a chime, vibrates and flashes, as the
+ * meeting's settings allow. Muting silences the chime and the vibration; the
+ * flash is still shown. The mute preference is kept in localStorage. Of
+ * several tabs showing the meeting only the leader chimes and vibrates; the
+ * others still flash.
+ *
+ * @param agendaItems - Current agenda items
+ * @param getCurrentElapsed - Function to get the current elapsed time of an item
+ * @param settings - Alert settings of the meeting
+ * @param budgets - Rebalanced budgets in minutes by item id (fixed end-time mode only)
+ * @param isLeader - Whether this tab leads the meeting (see useTabSync)
+ * @returns Object containing the alert state and controls
+ * @returns returns.flash - Alert currently flashing on screen, or null
+ * @returns returns.isMuted - Whether chimes and vibrations are muted
+ * @returns returns.toggleMuted - Mutes or unmutes alerts
+ *
+ * @example
+ * ```tsx
+ * const { flash, isMuted, toggleMuted } = useThresholdAlerts(
+ *   agendaItems,
+ *   getCurrentElapsed,
+ *   details.alerts,
+ * );
+ * ```
+ */
+export function useThresholdAlerts(
+  agendaItems: AgendaItem[],
+  getCurrentElapsed: (item: AgendaItem) => number,
+  settings?: AlertSettings,
+  budgets?: Map<string, number>,
+  isLeader = true,
+) {
+  const [isMuted, setIsMuted] = useState(loadMuted);
+  const [flash, setFlash] = useState<AlertKind | null>(null);
+
+  const activeItem = agendaItems.find((item) => item.isActive);
+  const activeId = activeItem?.id;
+  const remaining = activeItem
+    ? (budgets?.get(activeItem.id) ?? timeBox(activeItem)) * 60000 -
+      getCurrentElapsed(activeItem)
+    : undefined;
+  const resolved = resolveAlertSettings(settings, activeItem?.alerts);
+
+  // Settings and mute state as of the latest render, read by the tick effect
+  const latest = useRef({ resolved, isMuted, isLeader });
+  latest.current = { resolved, isMuted, isLeader };
+  // Remaining time of the active item at the previous tick
+  const previous = useRef<{ id: string; remaining: number } | null>(null);
+
+  /**
+   * Effect that checks the thresholds on every tick.
+   * Switching items starts over, so a new item never alerts on its first tick.
+   */
+  useEffect(() => {
+    const last = previous.current;
+    previous.current =
+      activeId !== undefined && remaining !== undefined
+        ? { id: activeId, remaining }
+        : null;
+    if (!last || last.id !== activeId || remaining === undefined) return;
+
+    const { resolved, isMuted, isLeader } = latest.current;
+    const kind = crossedAlert(last.remaining, remaining, resolved);
+    if (!kind) return;
+    const audible = isLeader && !isMuted;
+    if (resolved.chime && audible) playChime(kind);
+    if (resolved.vibrate && audible) vibrateFor(kind);
+    if (resolved.flash) setFlash(kind);
+  }, [activeId, remaining]);
+
+  /**
+   * Effect that ends the flash after FLASH_DURATION.
+   */
+  useEffect(() => {
+    if (!flash) return;
+    const timeout = window.setTimeout(() => setFlash(null), FLASH_DURATION);
+    return () => clearTimeout(timeout);
+  }, [flash]);
+
+  /**
+   * Mutes or unmutes alerts and remembers the choice.
+   */
+  const toggleMuted = () => {
+    const next = !isMuted;
+    setIsMuted(next);
+    try {
+      saveVersioned(alertsMutedStorage, next);
+    } catch (e) {
+      console.error("Failed to save alert mute setting:", e);
+    }
+  };
+
+  return { flash, isMuted, toggleMuted };
+}
@@ -1,6 +1,6 @@
+import type { AgendaItem } from "@/lib/meeting";
 import { act, renderHook } from "@testing-library/react";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import type { AgendaItem } from "./useMeetingState";
 import { useTimeCalculations } from "./useTimeCalculations";
 
 /**
@@ -1,5 +1,5 @@
+import { type AgendaItem, timeBox } from "@/lib/meeting";
 import { useCallback, useEffect } from "react";
-import type { AgendaItem } from "./useMeetingState";
 
 /**
  * Custom hook for managing time calculations and background time tracking.
@@ -21,6 +21,8 @@ import type { AgendaItem } from "./useMeetingState";
  * @param currentTime - Current timestamp from timer (updates every second)
  * @param isRunning - Whether the timer is currently running
  * @param setAgendaItems - Function to update agenda items state
+ * @param ownsClock - Whether this tab keeps the items' time (defaults to true);
+ *   a tab mirroring another tab's meeting leaves the items alone
  * @returns Object containing time calculation functions and computed values
  * @returns returns.getCurrentElapsed - Function to get current elapsed time for an item
  * @returns returns.totalElapsed - Total elapsed time across all agenda items in milliseconds
@@ -48,6 +50,7 @@ export function useTimeCalculations(
   currentTime: number,
   isRunning: boolean,
   setAgendaItems: React.Dispatch<React.SetStateAction<AgendaItem[]>>,
+  ownsClock = true,
 ) {
   /**
    * Calculates the current elapsed time for a specific agenda item.
@@ -81,10 +84,11 @@ export function useTimeCalculations(
   }, 0);
 
   /**
-   * Calculates the total estimated time across all agenda items.
+   * Calculates the total estimated time across all agenda items, including
+   * extensions.
    */
   const totalEstimated = agendaItems.reduce(
-    (sum, item) => sum + item.estimatedMinutes * 60000,
+    (sum, item) => sum + timeBox(item) * 60000,
     0,
   );
 
@@ -102,6 +106,7 @@ export function useTimeCalculations(
    * is not visible or the browser is minimized.
    */
   useEffect(() => {
+    if (!ownsClock) return;
     const handleVisibilityChange = () => {
       if (document.hidden && isRunning) {
         // Tab is being hidden, save current state with timestamps
@@ -138,7 +143,7 @@ export function useTimeCalculations(
     return () => {
       document.removeEventListener("visibilitychange", handleVisibilityChange);
     };
-  }, [isRunning, setAgendaItems]);
+  }, [isRunning, setAgendaItems, ownsClock]);
 
   return {
     getCurrentElapsed,
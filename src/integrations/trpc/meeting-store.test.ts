@@ -0,0 +1,169 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { buildMeeting } from "@/test/fixtures";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMeetingStore } from "./meeting-store";
+
+/**
+ * Test suite for the JSON-file meeting store.
+ *
+ * Tests server-side persistence including:
+ * - reading from a missing file
+ * - creating and listing meetings
+ * - upserting by meeting id
+ * - serialization of concurrent writes
+ * - deleting and importing meetings
+ * - quarantining invalid entries and unreadable files
+ */
+describe("createMeetingStore", () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "meeting-store-"));
+    filePath = join(dir, "nested", "meetings.json");
+  });
+
+  /**
+   * Writes the raw file contents as if left by an earlier version.
+   */
+  const seed = async (contents: string) => {
+    await mkdir(join(dir, "nested"), { recursive: true });
+    await writeFile(filePath, contents, "utf-8");
+  };
+
+  const readQuarantine = async () =>
+    JSON.parse(await readFile(`${filePath}.quarantine`, "utf-8"));
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("should return an empty list when the file does not exist", async () => {
+    const store = createMeetingStore(filePath);
+
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("should persist created meetings to disk", async () => {
+    const store = createMeetingStore(filePath);
+    const meeting = buildMeeting("m1", "2021-01-01T00:00:00.000Z");
+
+    await store.create(meeting);
+
+    const onDisk = JSON.parse(await readFile(filePath, "utf-8"));
+    expect(onDisk).toEqual([meeting]);
+    // A new store instance reads the same data back
+    expect(await createMeetingStore(filePath).list()).toEqual([meeting]);
+  });
+
+  it("should list meetings newest first", async () => {
+    const store = createMeetingStore(filePath);
+    const older = buildMeeting("m1", "2021-01-01T00:00:00.000Z");
+    const newer = buildMeeting("m2", "2021-01-02T00:00:00.000Z");
+
+    await store.create(newer);
+    await store.create(older);
+
+    expect((await store.list()).map((m) => m.id)).toEqual(["m2", "m1"]);
+  });
+
+  it("should replace a meeting with the same id", async () => {
+    const store = createMeetingStore(filePath);
+    const original = buildMeeting("m1", "2021-01-01T00:00:00.000Z");
+    const updated = { ...original, title: "Renamed" };
+
+    await store.create(original);
+    await store.create(updated);
+
+    expect(await store.list()).toEqual([updated]);
+  });
+
+  it("should not lose meetings created concurrently", async () => {
+    const store = createMeetingStore(filePath);
+
+    await Promise.all(
+      Array.from({ length: 5 }, (_, i) =>
+        store.create(buildMeeting(`m${i}`, `2021-01-0${i + 1}T00:00:00.000Z`)),
+      ),
+    );
+
+    expect(await store.list()).toHaveLength(5);
+  });
+
+  it("should delete meetings by id", async () => {
+    const store = createMeetingStore(filePath);
+    await store.create(buildMeeting("m1", "2021-01-01T00:00:00.000Z"));
+    await store.create(buildMeeting("m2", "2021-01-02T00:00:00.000Z"));
+
+    expect(await store.remove("m1")).toBe(true);
+    expect(await store.remove("missing")).toBe(false);
+    expect((await store.list()).map((m) => m.id)).toEqual(["m2"]);
+  });
+
+  it("should merge imported meetings without overwriting existing ones", async () => {
+    const store = createMeetingStore(filePath);
+    const existing = buildMeeting("m1", "2021-01-01T00:00:00.000Z");
+    await store.create(existing);
+
+    const added = await store.importMeetings(
+      [
+        { ...existing, title: "Renamed" },
+        buildMeeting("m2", "2021-01-02T00:00:00.000Z"),
+      ],
+      "merge",
+    );
+
+    expect(added).toBe(1);
+    expect(await store.list()).toEqual([
+      buildMeeting("m2", "2021-01-02T00:00:00.000Z"),
+      existing,
+    ]);
+  });
+
+  it("should replace all meetings on a replace import", async () => {
+    const store = createMeetingStore(filePath);
+    await store.create(buildMeeting("m1", "2021-01-01T00:00:00.000Z"));
+
+    const added = await store.importMeetings(
+      [buildMeeting("m2", "2021-01-02T00:00:00.000Z")],
+      "replace",
+    );
+
+    expect(added).toBe(1);
+    expect((await store.list()).map((m) => m.id)).toEqual(["m2"]);
+  });
+
+  it("should keep an invalid entry when rewriting the file", async () => {
+    const invalid = { id: "broken", agendaItems: "not a list" };
+    const valid = buildMeeting("m1", "2021-01-01T00:00:00.000Z");
+    await seed(JSON.stringify([valid, invalid]));
+    const store = createMeetingStore(filePath);
+
+    // A step that leaves the file alone still finds the entry
+    expect(await store.remove("missing")).toBe(false);
+    const created = buildMeeting("m2", "2021-01-02T00:00:00.000Z");
+    await store.create(created);
+
+    expect(await store.list()).toEqual([created, valid]);
+    const quarantined = await readQuarantine();
+    expect(quarantined).toHaveLength(1);
+    expect(JSON.parse(quarantined[0].raw)).toEqual(invalid);
+  });
+
+  it("should stay writable when the file cannot be parsed", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await seed("{not json");
+    const store = createMeetingStore(filePath);
+
+    expect(await store.list()).toEqual([]);
+
+    const meeting = buildMeeting("m1", "2021-01-01T00:00:00.000Z");
+    await store.create(meeting);
+
+    expect(await store.list()).toEqual([meeting]);
+    expect((await readQuarantine())[0].raw).toBe("{not json");
+  });
+});
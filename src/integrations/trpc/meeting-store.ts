@@ -0,0 +1,179 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { type Meeting, parseMeetingHistory } from "@/lib/meeting";
+
+/**
+ * Server-side persistence for saved meetings.
+ *
+ * Meetings are kept in a single JSON file on local disk so the app can run
+ * without an external database. Writes go through a temp file and an atomic
+ * rename, and are serialized through a promise chain so concurrent tRPC
+ * mutations never interleave partial writes.
+ *
+ * Stored meetings that fail validation, or the whole file when it cannot be
+ * parsed, are copied to `<file>.quarantine` before the next write replaces
+ * them, so the raw data can still be recovered by hand.
+ */
+export interface MeetingStore {
+  /** Returns all stored meetings, newest first. */
+  list: () => Promise<Meeting[]>;
+  /** Inserts a meeting, replacing any existing record with the same id. */
+  create: (meeting: Meeting) => Promise<Meeting>;
+  /** Deletes a meeting; resolves to false if it did not exist. */
+  remove: (id: string) => Promise<boolean>;
+  /**
+   * Imports meetings in one write. "merge" keeps existing meetings and
+   * skips ids already stored; "replace" discards everything first.
+   * Resolves to the number of meetings added.
+   */
+  importMeetings: (
+    meetings: Meeting[],
+    mode: "merge" | "replace",
+  ) => Promise<number>;
+}
+
+interface QuarantineEntry {
+  raw: string;
+  reason: string;
+  quarantinedAt: number;
+}
+
+interface StoredMeetings {
+  /** Meetings that passed validation */
+  meetings: Meeting[];
+  /** Raw entries that did not, with the reason */
+  rejected: Omit<QuarantineEntry, "quarantinedAt">[];
+}
+
+/**
+ * Writes a JSON value through a temp file and an atomic rename.
+ *
+ * @param path - Target file; parent directories are created as needed
+ * @param value - Value to serialize
+ */
+async function writeJson(path: string, value: unknown) {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, JSON.stringify(value, null, 2), "utf-8");
+  await rename(tempPath, path);
+}
+
+/**
+ * Creates a JSON-file backed meeting store.
+ *
+ * @param filePath - Path of the JSON file; parent directories are created on first write
+ * @returns Store bound to the given file
+ */
+export function createMeetingStore(filePath: string): MeetingStore {
+  const quarantinePath = `${filePath}.quarantine`;
+  let writeQueue: Promise<unknown> = Promise.resolve();
+
+  const readAll = async (): Promise<StoredMeetings> => {
+    let raw: string;
+    try {
+      raw = await readFile(filePath, "utf-8");
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return { meetings: [], rejected: [] };
+      }
+      throw e;
+    }
+
+    const rejected: StoredMeetings["rejected"] = [];
+    try {
+      const meetings = parseMeetingHistory(JSON.parse(raw), (entry, error) =>
+        rejected.push({ raw: JSON.stringify(entry), reason: String(error) }),
+      );
+      return { meetings, rejected };
+    } catch (e) {
+      // Treat an unreadable file as empty so the store stays writable
+      console.error("Failed to parse meeting store:", e);
+      return { meetings: [], rejected: [{ raw, reason: String(e) }] };
+    }
+  };
+
+  /**
+   * Appends rejected entries to the quarantine file.
+   * Identical entries are only kept once, so every write that finds the
+   * same corrupt entry does not grow the file.
+   */
+  const quarantine = async (rejected: StoredMeetings["rejected"]) => {
+    if (rejected.length === 0) return;
+    let entries: QuarantineEntry[] = [];
+    try {
+      entries = JSON.parse(await readFile(quarantinePath, "utf-8"));
+    } catch {
+      entries = [];
+    }
+    const known = new Set(entries.map((entry) => entry.raw));
+    const added = rejected.filter((entry) => !known.has(entry.raw));
+    if (added.length === 0) return;
+    const quarantinedAt = Date.now();
+    await writeJson(quarantinePath, [
+      ...entries,
+      ...added.map((entry) => ({ ...entry, quarantinedAt })),
+    ]);
+  };
+
+  const writeAll = (meetings: Meeting[]) => writeJson(filePath, meetings);
+
+  const list = async () => {
+    await writeQueue;
+    const { meetings } = await readAll();
+    return meetings.sort((a, b) => b.date.localeCompare(a.date));
+  };
+
+  /**
+   * Runs a read-modify-write step after all previously queued writes.
+   */
+  const enqueue = <T>(step: (meetings: Meeting[]) => Promise<T>) => {
+    const result = writeQueue.then(async () => {
+      const { meetings, rejected } = await readAll();
+      // Set rejected entries aside before the rewrite drops them
+      await quarantine(rejected);
+      return step(meetings);
+    });
+    // Keep the queue alive even if this write fails
+    writeQueue = result.catch(() => undefined);
+    return result;
+  };
+
+  const create = (meeting: Meeting) =>
+    enqueue(async (meetings) => {
+      const others = meetings.filter((m) => m.id !== meeting.id);
+      await writeAll([meeting, ...others]);
+      return meeting;
+    });
+
+  const remove = (id: string) =>
+    enqueue(async (meetings) => {
+      const others = meetings.filter((m) => m.id !== id);
+      if (others.length === meetings.length) return false;
+      await writeAll(others);
+      return true;
+    });
+
+  const importMeetings = (meetings: Meeting[], mode: "merge" | "replace") =>
+    enqueue(async (existing) => {
+      if (mode === "replace") {
+        await writeAll(meetings);
+        return meetings.length;
+      }
+      const ids = new Set(existing.map((m) => m.id));
+      const missing = meetings.filter((m) => !ids.has(m.id));
+      if (missing.length > 0) {
+        await writeAll([...existing, ...missing]);
+      }
+      return missing.length;
+    });
+
+  return { list, create, remove, importMeetings };
+}
+
+/**
+ * Default store used by the tRPC router.
+ * The location can be overridden with the MEETING_STORE_PATH environment variable.
+ */
+export const meetingStore = createMeetingStore(
+  resolve(process.env.MEETING_STORE_PATH ?? ".data/meetings.json"),
+);
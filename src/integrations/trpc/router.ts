@@ -2,30 +2,37 @@
 import type { TRPCRouterRecord } from "@trpc/server";
 import { z } from "zod";
 
+import { meetingSchema } from "@/lib/meeting";
 import { createTRPCRouter, publicProcedure } from "./init";
+import { meetingStore } from "./meeting-store";
 
 const meetingRouter = {
-  create: publicProcedure
+  create: publicProcedure.input(meetingSchema).mutation(async ({ input }) => {
+    return meetingStore.create(input);
+  }),
+
+  list: publicProcedure.query(async () => {
+    return meetingStore.list();
+  }),
+
+  import: publicProcedure
     .input(
       z.object({
-        title: z.string().min(1),
-        duration: z.number().positive(),
-        participants: z.array(z.string()).min(1),
+        meetings: z.array(meetingSchema),
+        mode: z.enum(["merge", "replace"]),
       }),
     )
     .mutation(async ({ input }) => {
-      // TODO: 実際のデータベースへの保存処理を実装
       return {
-        id: Date.now().toString(),
-        ...input,
-        createdAt: new Date(),
+        added: await meetingStore.importMeetings(input.meetings, input.mode),
       };
     }),
 
-  list: publicProcedure.query(async () => {
-    // TODO: 実際のデータベースからの取得処理を実装
-    return [];
-  }),
+  delete: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input }) => {
+      return { deleted: await meetingStore.remove(input.id) };
+    }),
 
   updateProgress: publicProcedure
     .input(
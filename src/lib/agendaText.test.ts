@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { parseAgendaText } from "./agendaText";
+
+/**
+ * Test suite for pasted agenda import.
+ *
+ * Tests text parsing including:
+ * - duration notations (10m, 10分, (10), 1h30m)
+ * - list markers, headings and blank lines
+ * - the default and maximum estimates
+ */
+describe("agendaText", () => {
+  const parse = (text: string) =>
+    parseAgendaText(text).map(({ name, estimatedMinutes }) => ({
+      name,
+      estimatedMinutes,
+    }));
+
+  describe("durations", () => {
+    it.each([
+      ["10m", 10],
+      ["10 min", 10],
+      ["10 minutes", 10],
+      ["10分", 10],
+      ["10分間", 10],
+      ["1h30m", 90],
+      ["1h 30m", 90],
+      ["1.5h", 90],
+      ["2 hours", 120],
+      ["1時間30分", 90],
+    ])("should parse %s", (duration, minutes) => {
+      expect(parse(`- Item ${duration}`)).toEqual([
+        { name: "Item", estimatedMinutes: minutes },
+      ]);
+    });
+
+    it("should only read bare numbers in brackets", () => {
+      expect(parse("Item (10)\nItem 10")).toEqual([
+        { name: "Item", estimatedMinutes: 10 },
+        { name: "Item 10", estimatedMinutes: 5 },
+      ]);
+    });
+  });
+
+  describe("parseAgendaText", () => {
+    it("should parse a Markdown bullet list", () => {
+      expect(
+        parse(
+          [
+            "# Weekly sync",
+            "",
+            "- Project update (10m)",
+            "* Hiring (10)",
+            "1. Roadmap review 1h30m",
+            "- [ ] Q&A: 15 min",
+          ].join("\n"),
+        ),
+      ).toEqual([
+        { name: "Project update", estimatedMinutes: 10 },
+        { name: "Hiring", estimatedMinutes: 10 },
+        { name: "Roadmap review", estimatedMinutes: 90 },
+        { name: "Q&A", estimatedMinutes: 15 },
+      ]);
+    });
+
+    it("should parse Japanese durations and bullets", () => {
+      expect(
+        parse("・進捗報告10分\n・課題（15分）\n【5分】 次回アクション確認"),
+      ).toEqual([
+        { name: "進捗報告", estimatedMinutes: 10 },
+        { name: "課題", estimatedMinutes: 15 },
+        { name: "次回アクション確認", estimatedMinutes: 5 },
+      ]);
+    });
+
+    it("should pick up leading durations", () => {
+      expect(parse("20m - Demo")).toEqual([
+        { name: "Demo", estimatedMinutes: 20 },
+      ]);
+    });
+
+    it("should fall back to the default estimate", () => {
+      expect(parse("Open questions\nQ3 planning")).toEqual([
+        { name: "Open questions", estimatedMinutes: 5 },
+        { name: "Q3 planning", estimatedMinutes: 5 },
+      ]);
+    });
+
+    it("should keep estimates within the time input range", () => {
+      expect(parse("Offsite (6h)\nStandup (0m)")).toEqual([
+        { name: "Offsite", estimatedMinutes: 240 },
+        { name: "Standup", estimatedMinutes: 1 },
+      ]);
+    });
+
+    it("should create untimed items with unique ids", () => {
+      const items = parseAgendaText("A\nB");
+
+      expect(new Set(items.map((item) => item.id)).size).toBe(2);
+      expect(items[0]).toMatchObject({ isActive: false, elapsedTime: 0 });
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import type { AgendaItem } from "./meeting";
+
+/**
+ * Import of agendas written as Markdown or plain-text lists.
+ *
+ * Each non-empty line becomes an agenda item. List markers (`-`, `*`, `1.`,
+ * `・`, checkboxes) are stripped and a duration is picked up from brackets
+ * (`(10m)`, `(10)`, `【10分】`) or from the start or end of the line
+ * (`10m`, `10分`, `1h30m`, `1時間30分`). Headings and rules are skipped.
+ */
+
+export type AgendaImportMode = "replace" | "append";
+
+/** Estimate used when a line has no duration, matching the TimeInput default */
+const DEFAULT_ESTIMATED_MINUTES = 5;
+
+/** Upper bound of TimeInput */
+const MAX_ESTIMATED_MINUTES = 240;
+
+const DURATION_SOURCE =
+  "(?:\\d+(?:\\.\\d+)?\\s*(?:hours?|hrs?|h|時間)\\s*)?(?:\\d+\\s*(?:minutes?|mins?|m|分間?))?";
+const SEPARATOR_SOURCE = "[\\s:：\\-–—,、]";
+
+const LIST_MARKER = /^\s*(?:[-*+•・]\s*|\d+[.)]\s+)(?:\[[ xX]\]\s+)?/;
+const SKIPPED_LINE = /^\s*(?:#.*|[-*_=\s]+)$/;
+const BRACKETED = /[(（[【]\s*([^()（）[\]【】]+?)\s*[)）\]】]/g;
+const LEADING = new RegExp(`^(${DURATION_SOURCE})${SEPARATOR_SOURCE}+`, "i");
+// Japanese text is often written without a space before the duration
+const TRAILING = new RegExp(
+  `(?:^|${SEPARATOR_SOURCE}|(?<=[^\\x00-\\x7F]))(${DURATION_SOURCE})$`,
+  "i",
+);
+
+/**
+ * Converts a duration such as `10m`, `10分`, `1h30m` or `1.5h` to minutes.
+ *
+ * @param text - Duration without brackets
+ * @param allowBareNumber - Accept a number without unit as minutes
+ * @returns Minutes, or undefined if the text is not a duration
+ */
+function parseDuration(
+  text: string,
+  allowBareNumber = false,
+): number | undefined {
+  const trimmed = text.trim();
+  if (allowBareNumber && /^\d+$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  const match = trimmed.match(
+    /^(?:(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h|時間)\s*)?(?:(\d+)\s*(?:minutes?|mins?|m|分間?))?$/i,
+  );
+  if (!match || (match[1] === undefined && match[2] === undefined)) {
+    return undefined;
+  }
+  return Math.round(Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0));
+}
+
+/**
+ * Splits one list line into a name and an optional duration.
+ */
+function parseLine(line: string): { name: string; minutes?: number } {
+  let name = line.replace(LIST_MARKER, "").trim();
+
+  for (const match of name.matchAll(BRACKETED)) {
+    const minutes = parseDuration(match[1], true);
+    if (minutes !== undefined) {
+      name = name.replace(match[0], " ");
+      return { name: name.replace(/\s+/g, " ").trim(), minutes };
+    }
+  }
+
+  for (const pattern of [TRAILING, LEADING]) {
+    const match = name.match(pattern);
+    const minutes = match ? parseDuration(match[1]) : undefined;
+    if (match && minutes !== undefined) {
+      name = name.replace(match[0], "");
+      return {
+        name: name.replace(
+          new RegExp(`^${SEPARATOR_SOURCE}+|${SEPARATOR_SOURCE}+$`, "g"),
+          "",
+        ),
+        minutes,
+      };
+    }
+  }
+
+  return { name };
+}
+
+/**
+ * Parses a pasted agenda into fresh, untimed agenda items.
+ * Ids are `import_<timestamp>_<n>` so repeated imports stay unique.
+ *
+ * @param text - Markdown or plain-text list, one item per line
+ * @param options.agendaLinesOnly - Skip lines that are neither list items nor
+ *   carry a duration (for free-form text such as calendar descriptions)
+ * @returns Agenda items in the order they appear
+ */
+export function parseAgendaText(
+  text: string,
+  { agendaLinesOnly = false }: { agendaLinesOnly?: boolean } = {},
+): AgendaItem[] {
+  const now = Date.now();
+  const items: AgendaItem[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (SKIPPED_LINE.test(line)) continue;
+    const { name, minutes } = parseLine(line);
+    if (!name) continue;
+    if (agendaLinesOnly && minutes === undefined && !LIST_MARKER.test(line)) {
+      continue;
+    }
+    items.push({
+      id: `import_${now}_${items.length + 1}`,
+      name,
+      estimatedMinutes: Math.min(
+        Math.max(minutes ?? DEFAULT_ESTIMATED_MINUTES, 1),
+        MAX_ESTIMATED_MINUTES,
+      ),
+      isActive: false,
+      elapsedTime: 0,
+    });
+  }
+
+  return items;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_ALERT_SETTINGS,
+  crossedAlert,
+  resolveAlertSettings,
+} from "./alerts";
+
+/**
+ * Test suite for threshold alerts.
+ *
+ * Tests including:
+ * - defaults and per-meeting and per-item overrides
+ * - crossing the warning, zero and overtime thresholds once
+ * - turning thresholds off
+ */
+describe("alerts", () => {
+  const minutes = (value: number) => value * 60000;
+
+  describe("resolveAlertSettings", () => {
+    it("should use the defaults when nothing is set", () => {
+      expect(resolveAlertSettings()).toEqual(DEFAULT_ALERT_SETTINGS);
+    });
+
+    it("should let the item override the meeting's thresholds", () => {
+      const settings = resolveAlertSettings(
+        { warnMinutes: 5, overtimeEveryMinutes: 0, chime: false },
+        { warnMinutes: 1 },
+      );
+
+      expect(settings).toEqual({
+        ...DEFAULT_ALERT_SETTINGS,
+        warnMinutes: 1,
+        overtimeEveryMinutes: 0,
+        chime: false,
+      });
+    });
+  });
+
+  describe("crossedAlert", () => {
+    const thresholds = resolveAlertSettings();
+
+    it("should warn when the warning threshold is crossed", () => {
+      expect(crossedAlert(minutes(2) + 500, minutes(2) - 500, thresholds)).toBe(
+        "warning",
+      );
+      expect(
+        crossedAlert(minutes(2) - 500, minutes(2) - 1500, thresholds),
+      ).toBe(undefined);
+    });
+
+    it("should alert when the time runs out", () => {
+      expect(crossedAlert(500, -500, thresholds)).toBe("timeUp");
+      expect(crossedAlert(500, 0, thresholds)).toBe("timeUp");
+    });
+
+    it("should alert at every overtime interval", () => {
+      expect(
+        crossedAlert(-minutes(5) + 500, -minutes(5) - 500, thresholds),
+      ).toBe("overtime");
+      expect(
+        crossedAlert(-minutes(5) - 500, -minutes(6), thresholds),
+      ).toBeUndefined();
+      expect(
+        crossedAlert(-minutes(10) + 500, -minutes(10) - 500, thresholds),
+      ).toBe("overtime");
+    });
+
+    it("should report the most urgent threshold of a jump", () => {
+      expect(crossedAlert(minutes(3), -500, thresholds)).toBe("timeUp");
+      expect(crossedAlert(minutes(3), -minutes(6), thresholds)).toBe(
+        "overtime",
+      );
+    });
+
+    it("should not alert when the remaining time grows", () => {
+      expect(crossedAlert(-500, minutes(3), thresholds)).toBeUndefined();
+    });
+
+    it("should skip thresholds that are turned off", () => {
+      const off = resolveAlertSettings({
+        warnMinutes: 0,
+        atZero: false,
+        overtimeEveryMinutes: 0,
+      });
+
+      expect(crossedAlert(minutes(3), -minutes(20), off)).toBeUndefined();
+    });
+  });
+});
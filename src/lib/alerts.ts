@@ -0,0 +1,142 @@
+import type { AlertSettings, AlertThresholds } from "./meeting";
+
+/**
+ * Threshold alerts for the active agenda item.
+ *
+ * An alert fires when the item's remaining time crosses a threshold between
+ * two timer ticks, so each threshold fires once however often the timer
+ * ticks, and not at all when the meeting is restored past it.
+ */
+
+export type AlertKind = "warning" | "timeUp" | "overtime";
+
+export const DEFAULT_ALERT_SETTINGS: Required<AlertSettings> = {
+  warnMinutes: 2,
+  atZero: true,
+  overtimeEveryMinutes: 5,
+  chime: true,
+  flash: true,
+  vibrate: true,
+};
+
+/** Chime notes per alert, in Hz */
+const CHIMES: Record<AlertKind, number[]> = {
+  warning: [880],
+  timeUp: [880, 660],
+  overtime: [660, 660, 660],
+};
+
+/** Vibration patterns per alert, in milliseconds */
+const VIBRATIONS: Record<AlertKind, number[]> = {
+  warning: [200],
+  timeUp: [300, 100, 300],
+  overtime: [150, 100, 150, 100, 150],
+};
+
+const NOTE_SPACING = 0.25;
+const NOTE_LENGTH = 0.6;
+
+/**
+ * Combines the meeting's alert settings with an item's overrides.
+ * Fields neither sets fall back to DEFAULT_ALERT_SETTINGS.
+ *
+ * @param meeting - Alert settings of the meeting
+ * @param item - Threshold overrides of the active item
+ * @returns Complete settings for the item
+ */
+export function resolveAlertSettings(
+  meeting?: AlertSettings,
+  item?: AlertThresholds,
+): Required<AlertSettings> {
+  return {
+    warnMinutes:
+      item?.warnMinutes ??
+      meeting?.warnMinutes ??
+      DEFAULT_ALERT_SETTINGS.warnMinutes,
+    atZero: item?.atZero ?? meeting?.atZero ?? DEFAULT_ALERT_SETTINGS.atZero,
+    overtimeEveryMinutes:
+      item?.overtimeEveryMinutes ??
+      meeting?.overtimeEveryMinutes ??
+      DEFAULT_ALERT_SETTINGS.overtimeEveryMinutes,
+    chime: meeting?.chime ?? DEFAULT_ALERT_SETTINGS.chime,
+    flash: meeting?.flash ?? DEFAULT_ALERT_SETTINGS.flash,
+    vibrate: meeting?.vibrate ?? DEFAULT_ALERT_SETTINGS.vibrate,
+  };
+}
+
+/**
+ * Finds the threshold crossed as the remaining time went from one tick to
+ * the next. When a jump crosses several, the most urgent one wins.
+ *
+ * @param previousRemaining - Remaining time at the previous tick in milliseconds
+ * @param remaining - Remaining time now in milliseconds (negative in overtime)
+ * @param thresholds - Complete thresholds for the item
+ * @returns The alert to give, or undefined
+ */
+export function crossedAlert(
+  previousRemaining: number,
+  remaining: number,
+  thresholds: Required<AlertThresholds>,
+): AlertKind | undefined {
+  if (remaining >= previousRemaining) return undefined;
+
+  const every = thresholds.overtimeEveryMinutes * 60000;
+  if (every > 0) {
+    // Number of whole overtime intervals reached
+    const intervals = (value: number) =>
+      value < 0 ? Math.floor(-value / every) : 0;
+    if (intervals(remaining) > intervals(previousRemaining)) return "overtime";
+  }
+  if (thresholds.atZero && previousRemaining > 0 && remaining <= 0) {
+    return "timeUp";
+  }
+  const warn = thresholds.warnMinutes * 60000;
+  if (warn > 0 && previousRemaining > warn && remaining <= warn) {
+    return "warning";
+  }
+  return undefined;
+}
+
+/**
+ * Plays the chime for an alert, generated with the Web Audio API.
+ * Does nothing where Web Audio is unavailable.
+ *
+ * @param kind - Alert to play
+ */
+export function playChime(kind: AlertKind) {
+  if (typeof AudioContext === "undefined") return;
+  try {
+    const context = new AudioContext();
+    const notes = CHIMES[kind];
+    notes.forEach((frequency, index) => {
+      const start = context.currentTime + index * NOTE_SPACING;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = "sine";
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + NOTE_LENGTH);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + NOTE_LENGTH);
+      if (index === notes.length - 1) {
+        oscillator.onended = () => {
+          context.close();
+        };
+      }
+    });
+  } catch (e) {
+    console.error("Failed to play alert chime:", e);
+  }
+}
+
+/**
+ * Vibrates the device for an alert where the Vibration API is available.
+ *
+ * @param kind - Alert to signal
+ */
+export function vibrateFor(kind: AlertKind) {
+  if (typeof navigator === "undefined" || !navigator.vibrate) return;
+  navigator.vibrate(VIBRATIONS[kind]);
+}
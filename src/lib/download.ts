@@ -0,0 +1,17 @@
+/**
+ * Offers text content to the user as a file download.
+ *
+ * @param fileName - Suggested file name
+ * @param content - File content
+ * @param type - MIME type of the content
+ */
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
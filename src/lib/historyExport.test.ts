@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import {
+  HistoryImportError,
+  createHistoryBundle,
+  meetingsToCsv,
+  parseHistoryBundle,
+} from "./historyExport";
+import type { Meeting } from "./meeting";
+
+/**
+ * Test suite for history export and import.
+ *
+ * Tests the export formats including:
+ * - JSON bundle round trips
+ * - validation errors for invalid files
+ * - duplicate and existing meeting ids
+ * - CSV rows and escaping
+ */
+describe("historyExport", () => {
+  const meeting: Meeting = {
+    id: "m1",
+    date: "2021-01-01T00:00:00.000Z",
+    title: "Weekly sync",
+    agendaItems: [
+      {
+        id: "a1",
+        name: "Status, updates",
+        estimatedMinutes: 10,
+        actualMinutes: 12.5,
+        isActive: false,
+        elapsedTime: 750000,
+        owner: "Alice",
+        notes: 'Said "hi"\nand left',
+        decisions: ["Ship it", "Hire"],
+        actionItems: [
+          {
+            id: "x1",
+            text: "Write docs",
+            assignee: "Bob",
+            dueDate: "2021-01-08",
+          },
+        ],
+      },
+    ],
+  };
+
+  const getError = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (e) {
+      return e;
+    }
+    throw new Error("Expected an error");
+  };
+
+  describe("parseHistoryBundle", () => {
+    it("should round-trip meetings through a bundle", () => {
+      const preview = parseHistoryBundle(createHistoryBundle([meeting]), []);
+
+      expect(preview).toEqual({ meetings: [meeting], existingIds: [] });
+    });
+
+    it("should report meetings that already exist", () => {
+      const other = { ...meeting, id: "m2" };
+      const preview = parseHistoryBundle(
+        createHistoryBundle([meeting, other]),
+        ["m2", "m3"],
+      );
+
+      expect(preview.existingIds).toEqual(["m2"]);
+    });
+
+    it("should reject text that is not JSON", () => {
+      const error = getError(() => parseHistoryBundle("{not json", []));
+
+      expect(error).toBeInstanceOf(HistoryImportError);
+      expect((error as HistoryImportError).code).toBe("invalidJson");
+    });
+
+    it("should reject JSON that is not a history bundle", () => {
+      const bundle = JSON.parse(createHistoryBundle([meeting]));
+      bundle.meetings[0].date = "yesterday";
+
+      const error = getError(() =>
+        parseHistoryBundle(JSON.stringify(bundle), []),
+      ) as HistoryImportError;
+
+      expect(error.code).toBe("invalidBundle");
+      expect(error.detail).toContain("meetings.0.date");
+    });
+
+    it("should reject bundles with duplicate meeting ids", () => {
+      const error = getError(() =>
+        parseHistoryBundle(createHistoryBundle([meeting, meeting]), []),
+      ) as HistoryImportError;
+
+      expect(error.code).toBe("duplicateIds");
+      expect(error.detail).toBe("m1");
+    });
+  });
+
+  describe("meetingsToCsv", () => {
+    it("should write one escaped row per agenda item", () => {
+      const lines = meetingsToCsv([meeting]).split("\r\n");
+
+      expect(lines[0]).toBe(
+        "\uFEFFmeeting_id,meeting_date,meeting_title,item_position,item_name,owner,status,estimated_minutes,extended_minutes,actual_minutes,difference_minutes,notes,decisions,action_items",
+      );
+      expect(lines[1]).toBe(
+        'm1,2021-01-01T00:00:00.000Z,Weekly sync,1,"Status, updates",Alice,,10,,12.5,2.5,"Said ""hi""\nand left",Ship it; Hire,Write docs / Bob / 2021-01-08',
+      );
+      expect(lines).toHaveLength(3);
+    });
+
+    it("should write extensions and status and measure against the time box", () => {
+      const csv = meetingsToCsv([
+        {
+          id: "m3",
+          date: "2021-01-03T00:00:00.000Z",
+          agendaItems: [
+            {
+              id: "b1",
+              name: "Design",
+              estimatedMinutes: 10,
+              extendedMinutes: 5,
+              actualMinutes: 14,
+              isActive: false,
+              elapsedTime: 840000,
+            },
+            {
+              id: "b2",
+              name: "Hiring",
+              estimatedMinutes: 5,
+              isActive: false,
+              elapsedTime: 0,
+              status: "deferred",
+            },
+          ],
+        },
+      ]);
+      const lines = csv.split("\r\n");
+
+      expect(lines[1]).toBe(
+        "m3,2021-01-03T00:00:00.000Z,,1,Design,,,10,5,14,-1,,,",
+      );
+      expect(lines[2]).toBe(
+        "m3,2021-01-03T00:00:00.000Z,,2,Hiring,,deferred,5,,,,,,",
+      );
+    });
+
+    it("should write a single row for meetings without agenda items", () => {
+      const csv = meetingsToCsv([
+        { id: "m2", date: "2021-01-02T00:00:00.000Z", agendaItems: [] },
+      ]);
+
+      expect(csv.split("\r\n")[1]).toBe(
+        "m2,2021-01-02T00:00:00.000Z,,,,,,,,,,,,",
+      );
+    });
+  });
+});
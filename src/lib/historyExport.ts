@@ -0,0 +1,192 @@
+import { z } from "zod";
+import { type Meeting, meetingSchema, timeBox } from "./meeting";
+
+/**
+ * Export and import of the full meeting history.
+ *
+ * The JSON bundle carries every field of every meeting and is the format
+ * accepted by import. The CSV export is for spreadsheets only: one row per
+ * agenda item, prefixed with the meeting it belongs to.
+ */
+
+const BUNDLE_FORMAT = "meeting-time-tracker/history";
+const BUNDLE_VERSION = 1;
+
+const historyBundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string().datetime(),
+  meetings: z.array(meetingSchema),
+});
+
+type HistoryBundle = z.infer<typeof historyBundleSchema>;
+
+/**
+ * Wraps meetings in a versioned JSON export bundle.
+ *
+ * @param meetings - Meetings to export
+ * @returns Pretty-printed JSON document
+ */
+export function createHistoryBundle(meetings: Meeting[]): string {
+  const bundle: HistoryBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    meetings,
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+/**
+ * Result of checking an import file against the current history.
+ */
+export interface ImportPreview {
+  meetings: Meeting[];
+  /** Ids of imported meetings that already exist in the history */
+  existingIds: string[];
+}
+
+type HistoryImportErrorCode = "invalidJson" | "invalidBundle" | "duplicateIds";
+
+/**
+ * Thrown when an import file is not a valid history bundle.
+ * code identifies the problem for translated messages; detail holds the
+ * offending path or ids.
+ */
+export class HistoryImportError extends Error {
+  constructor(
+    readonly code: HistoryImportErrorCode,
+    readonly detail = "",
+  ) {
+    super(detail ? `${code}: ${detail}` : code);
+    this.name = "HistoryImportError";
+  }
+}
+
+/**
+ * Validates an import file and finds meetings that are already stored.
+ *
+ * @param text - Contents of a JSON bundle created by createHistoryBundle
+ * @param currentIds - Ids of the meetings currently in the history
+ * @returns The meetings to import and which of them already exist
+ * @throws HistoryImportError when the file is not valid JSON, is not a
+ *   history bundle, or contains the same meeting id more than once
+ */
+export function parseHistoryBundle(
+  text: string,
+  currentIds: Iterable<string>,
+): ImportPreview {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new HistoryImportError("invalidJson");
+  }
+
+  const result = historyBundleSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new HistoryImportError(
+      "invalidBundle",
+      `${issue.path.join(".") || "root"}: ${issue.message}`,
+    );
+  }
+
+  const { meetings } = result.data;
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const meeting of meetings) {
+    if (seen.has(meeting.id)) duplicates.add(meeting.id);
+    seen.add(meeting.id);
+  }
+  if (duplicates.size > 0) {
+    throw new HistoryImportError("duplicateIds", [...duplicates].join(", "));
+  }
+
+  const current = new Set(currentIds);
+  return {
+    meetings,
+    existingIds: meetings
+      .map((meeting) => meeting.id)
+      .filter((id) => current.has(id)),
+  };
+}
+
+const CSV_COLUMNS = [
+  "meeting_id",
+  "meeting_date",
+  "meeting_title",
+  "item_position",
+  "item_name",
+  "owner",
+  "status",
+  "estimated_minutes",
+  "extended_minutes",
+  "actual_minutes",
+  "difference_minutes",
+  "notes",
+  "decisions",
+  "action_items",
+];
+
+/**
+ * Quotes a CSV field when it contains a delimiter, quote or line break.
+ */
+function escapeCsv(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Exports meetings as CSV with one row per agenda item.
+ * Meetings without agenda items get a single row with empty item columns.
+ * The difference is measured against the time box, as in the retrospective.
+ *
+ * @param meetings - Meetings to export
+ * @returns CSV document with a byte order mark, so spreadsheet apps read it
+ *   as UTF-8, a header row and CRLF line endings
+ */
+export function meetingsToCsv(meetings: Meeting[]): string {
+  const rows = [CSV_COLUMNS.join(",")];
+  for (const meeting of meetings) {
+    const prefix = [meeting.id, meeting.date, meeting.title];
+    if (meeting.agendaItems.length === 0) {
+      rows.push(
+        [...prefix, ...Array(CSV_COLUMNS.length - prefix.length).fill("")]
+          .map(escapeCsv)
+          .join(","),
+      );
+    }
+    meeting.agendaItems.forEach((item, index) => {
+      const difference =
+        item.actualMinutes === undefined
+          ? undefined
+          : Math.round((item.actualMinutes - timeBox(item)) * 10) / 10;
+      rows.push(
+        [
+          ...prefix,
+          index + 1,
+          item.name,
+          item.owner,
+          item.status,
+          item.estimatedMinutes,
+          item.extendedMinutes,
+          item.actualMinutes,
+          difference,
+          item.notes,
+          item.decisions?.join("; "),
+          item.actionItems
+            ?.map((actionItem) =>
+              [actionItem.text, actionItem.assignee, actionItem.dueDate]
+                .filter(Boolean)
+                .join(" / "),
+            )
+            .join("; "),
+        ]
+          .map(escapeCsv)
+          .join(","),
+      );
+    });
+  }
+  return `\uFEFF${rows.join("\r\n")}\r\n`;
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { buildItem } from "../test/fixtures";
+import {
+  defaultHistoryFilter,
+  filterMeetings,
+  needsFullHistory,
+} from "./historyFilter";
+import type { Meeting } from "./meeting";
+
+/**
+ * Test suite for the history list filters.
+ *
+ * Tests filtering including:
+ * - search by title and agenda item name
+ * - inclusive local date ranges
+ * - sort options
+ */
+describe("historyFilter", () => {
+  const finishedItem = (
+    name: string,
+    estimatedMinutes: number,
+    actualMinutes: number,
+  ) =>
+    buildItem(name, {
+      estimatedMinutes,
+      actualMinutes,
+      elapsedTime: actualMinutes * 60000,
+    });
+
+  const meetings: Meeting[] = [
+    {
+      id: "standup",
+      date: new Date(2021, 0, 10, 9).toISOString(),
+      agendaItems: [finishedItem("Daily Standup", 15, 20)],
+    },
+    {
+      id: "planning",
+      date: new Date(2021, 0, 20, 9).toISOString(),
+      agendaItems: [finishedItem("Sprint Planning", 60, 45)],
+    },
+    {
+      id: "review",
+      date: new Date(2021, 0, 5, 9).toISOString(),
+      agendaItems: [finishedItem("Code Review", 30, 30)],
+    },
+  ];
+
+  const ids = (result: Meeting[]) => result.map((meeting) => meeting.id);
+
+  it("should sort newest first by default", () => {
+    expect(ids(filterMeetings(meetings, defaultHistoryFilter))).toEqual([
+      "planning",
+      "standup",
+      "review",
+    ]);
+  });
+
+  it("should search agenda item names case-insensitively", () => {
+    expect(
+      ids(
+        filterMeetings(meetings, { ...defaultHistoryFilter, query: "sprint" }),
+      ),
+    ).toEqual(["planning"]);
+  });
+
+  it("should also match meeting titles", () => {
+    const titled = [{ ...meetings[0], title: "Team Sync" }, meetings[1]];
+
+    expect(
+      ids(filterMeetings(titled, { ...defaultHistoryFilter, query: "sync" })),
+    ).toEqual(["standup"]);
+  });
+
+  it("should include both ends of the date range", () => {
+    expect(
+      ids(
+        filterMeetings(meetings, {
+          ...defaultHistoryFilter,
+          from: "2021-01-05",
+          to: "2021-01-10",
+        }),
+      ),
+    ).toEqual(["standup", "review"]);
+  });
+
+  it("should sort by total actual time or overrun", () => {
+    expect(
+      ids(
+        filterMeetings(meetings, { ...defaultHistoryFilter, sort: "longest" }),
+      ),
+    ).toEqual(["planning", "review", "standup"]);
+    expect(
+      ids(
+        filterMeetings(meetings, { ...defaultHistoryFilter, sort: "overrun" }),
+      ),
+    ).toEqual(["standup", "review", "planning"]);
+  });
+
+  it("should measure overrun against the extended time box", () => {
+    const extended = meetings.map((meeting) =>
+      meeting.id === "standup"
+        ? {
+            ...meeting,
+            agendaItems: [{ ...meeting.agendaItems[0], extendedMinutes: 10 }],
+          }
+        : meeting,
+    );
+
+    expect(
+      ids(
+        filterMeetings(extended, { ...defaultHistoryFilter, sort: "overrun" }),
+      ),
+    ).toEqual(["review", "standup", "planning"]);
+  });
+
+  it("should not reorder the input array", () => {
+    const input = [...meetings];
+    filterMeetings(input, { ...defaultHistoryFilter, sort: "oldest" });
+    expect(input).toEqual(meetings);
+  });
+
+  it("should need the whole history for anything but the default view", () => {
+    expect(needsFullHistory(defaultHistoryFilter)).toBe(false);
+    expect(needsFullHistory({ ...defaultHistoryFilter, query: "  " })).toBe(
+      false,
+    );
+    expect(needsFullHistory({ ...defaultHistoryFilter, query: "plan" })).toBe(
+      true,
+    );
+    expect(
+      needsFullHistory({ ...defaultHistoryFilter, from: "2021-01-01" }),
+    ).toBe(true);
+    expect(needsFullHistory({ ...defaultHistoryFilter, sort: "oldest" })).toBe(
+      true,
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import { type Meeting, summarizeMeeting } from "./meeting";
+
+export type HistorySort = "newest" | "oldest" | "longest" | "overrun";
+
+/**
+ * Filters applied to the history list.
+ * `from` and `to` are `YYYY-MM-DD` values from date inputs, interpreted in
+ * local time; empty strings disable the bound.
+ */
+export interface HistoryFilter {
+  query: string;
+  from: string;
+  to: string;
+  sort: HistorySort;
+}
+
+export const defaultHistoryFilter: HistoryFilter = {
+  query: "",
+  from: "",
+  to: "",
+  sort: "newest",
+};
+
+/**
+ * Whether a filter looks beyond the newest meetings, so it can only be
+ * applied once the whole history is loaded.
+ *
+ * @param filter - Current filter
+ * @returns True when searching, bounding the date or sorting other than newest first
+ */
+export function needsFullHistory(filter: HistoryFilter): boolean {
+  return (
+    filter.query.trim() !== "" ||
+    filter.from !== "" ||
+    filter.to !== "" ||
+    filter.sort !== defaultHistoryFilter.sort
+  );
+}
+
+/**
+ * Sort comparators keyed by sort option. Ties fall back to newest first.
+ */
+const comparators: Record<HistorySort, (a: Meeting, b: Meeting) => number> = {
+  newest: (a, b) => b.date.localeCompare(a.date),
+  oldest: (a, b) => a.date.localeCompare(b.date),
+  longest: (a, b) =>
+    summarizeMeeting(b).totalActual - summarizeMeeting(a).totalActual ||
+    b.date.localeCompare(a.date),
+  overrun: (a, b) => overrun(b) - overrun(a) || b.date.localeCompare(a.date),
+};
+
+/**
+ * Minutes a meeting ran over its time boxes (negative when under).
+ */
+function overrun(meeting: Meeting): number {
+  const { totalTimeBox, totalActual } = summarizeMeeting(meeting);
+  return totalActual - totalTimeBox;
+}
+
+/**
+ * Applies the search, date range and sort order to a list of meetings.
+ *
+ * @param meetings - Meetings to filter, in any order
+ * @param filter - Search text, date bounds and sort option
+ * @returns A new array with the matching meetings in the requested order
+ */
+export function filterMeetings(
+  meetings: Meeting[],
+  filter: HistoryFilter,
+): Meeting[] {
+  const query = filter.query.trim().toLowerCase();
+  const from = filter.from
+    ? new Date(`${filter.from}T00:00:00`).getTime()
+    : Number.NEGATIVE_INFINITY;
+  const to = filter.to
+    ? new Date(`${filter.to}T23:59:59.999`).getTime()
+    : Number.POSITIVE_INFINITY;
+
+  return meetings
+    .filter((meeting) => {
+      const time = new Date(meeting.date).getTime();
+      if (time < from || time > to) return false;
+      return (
+        !query ||
+        meeting.title?.toLowerCase().includes(query) ||
+        meeting.agendaItems.some((item) =>
+          item.name.toLowerCase().includes(query),
+        )
+      );
+    })
+    .sort(comparators[filter.sort]);
+}
@@ -0,0 +1,248 @@
+import { IDBFactory, IDBKeyRange } from "fake-indexeddb";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildMeeting } from "../test/fixtures";
+import {
+  createLocalStorageHistoryStore,
+  selectExpiredMeetings,
+} from "./historyStore";
+import type { Meeting } from "./meeting";
+import { meetingHistoryStorage, saveVersioned } from "./storage";
+
+/**
+ * Test suite for the local meeting history store.
+ *
+ * Tests history storage including:
+ * - retention policy selection (count, days, forever)
+ * - pagination newest first
+ * - upserts, deletion and merging of missing meetings
+ * - listing and clearing the whole history
+ * - the IndexedDB store: cursor paging, merging, retention by index,
+ *   migration from localStorage and validation of stored records
+ */
+describe("historyStore", () => {
+  const meetings = [
+    buildMeeting("m1", "2021-01-01T00:00:00.000Z"),
+    buildMeeting("m3", "2021-01-20T00:00:00.000Z"),
+    buildMeeting("m2", "2021-01-10T00:00:00.000Z"),
+  ];
+  const now = new Date("2021-01-21T00:00:00.000Z").getTime();
+
+  describe("selectExpiredMeetings", () => {
+    it("should keep everything for the forever policy", () => {
+      expect(selectExpiredMeetings(meetings, { kind: "forever" }, now)).toEqual(
+        [],
+      );
+    });
+
+    it("should keep only the newest N meetings for the count policy", () => {
+      expect(
+        selectExpiredMeetings(meetings, { kind: "count", max: 2 }, now),
+      ).toEqual(["m1"]);
+    });
+
+    it("should drop meetings older than N days for the days policy", () => {
+      expect(
+        selectExpiredMeetings(meetings, { kind: "days", days: 14 }, now),
+      ).toEqual(["m1"]);
+    });
+  });
+
+  describe("createLocalStorageHistoryStore", () => {
+    it("should return pages newest first", async () => {
+      const store = createLocalStorageHistoryStore();
+      for (const meeting of meetings) {
+        await store.put(meeting);
+      }
+
+      const first = await store.listPage(0, 2);
+      const second = await store.listPage(2, 2);
+
+      expect(first.meetings.map((m) => m.id)).toEqual(["m3", "m2"]);
+      expect(first.hasMore).toBe(true);
+      expect(second.meetings.map((m) => m.id)).toEqual(["m1"]);
+      expect(second.hasMore).toBe(false);
+    });
+
+    it("should replace meetings with the same id", async () => {
+      const store = createLocalStorageHistoryStore();
+      await store.put(meetings[0]);
+      await store.put({ ...meetings[0], date: "2021-02-01T00:00:00.000Z" });
+
+      const page = await store.listPage(0, 10);
+      expect(page.meetings).toHaveLength(1);
+      expect(page.meetings[0].date).toBe("2021-02-01T00:00:00.000Z");
+    });
+
+    it("should delete meetings by id", async () => {
+      const store = createLocalStorageHistoryStore();
+      await store.addMissing(meetings);
+
+      await store.remove("m2");
+
+      expect((await store.listPage(0, 10)).meetings.map((m) => m.id)).toEqual([
+        "m3",
+        "m1",
+      ]);
+    });
+
+    it("should only add meetings that are not stored yet", async () => {
+      const store = createLocalStorageHistoryStore();
+      await store.put(meetings[0]);
+
+      const added = await store.addMissing([
+        { ...meetings[0], agendaItems: [] },
+        meetings[1],
+      ]);
+
+      expect(added).toBe(1);
+      expect((await store.listPage(0, 10)).meetings).toHaveLength(2);
+    });
+
+    it("should list and clear every meeting", async () => {
+      const store = createLocalStorageHistoryStore();
+      await store.addMissing(meetings);
+
+      expect((await store.listAll()).map((m) => m.id)).toEqual([
+        "m3",
+        "m2",
+        "m1",
+      ]);
+
+      await store.clear();
+
+      expect(await store.listAll()).toEqual([]);
+    });
+
+    it("should delete meetings outside the retention policy", async () => {
+      const store = createLocalStorageHistoryStore();
+      await store.addMissing(meetings);
+
+      const removed = await store.applyRetention(
+        { kind: "count", max: 1 },
+        now,
+      );
+
+      expect(removed).toBe(2);
+      expect((await store.listPage(0, 10)).meetings.map((m) => m.id)).toEqual([
+        "m3",
+      ]);
+    });
+  });
+
+  describe("IndexedDB store", () => {
+    /**
+     * Opens the shared store on a fresh in-memory database, as on first load.
+     */
+    const openStore = async () => {
+      vi.stubGlobal("indexedDB", new IDBFactory());
+      vi.stubGlobal("IDBKeyRange", IDBKeyRange);
+      vi.resetModules();
+      const { getHistoryStore } = await import("./historyStore");
+      return getHistoryStore();
+    };
+
+    /**
+     * Writes a record straight into the database, bypassing the store.
+     */
+    const putRecord = (record: unknown) =>
+      new Promise<void>((resolve, reject) => {
+        const request = indexedDB.open("meeting-time-tracker");
+        request.onsuccess = () => {
+          const db = request.result;
+          const transaction = db.transaction("meetings", "readwrite");
+          transaction.objectStore("meetings").put(record);
+          transaction.oncomplete = () => {
+            db.close();
+            resolve();
+          };
+          transaction.onerror = () => reject(transaction.error);
+        };
+      });
+
+    const ids = (list: Meeting[]) => list.map((meeting) => meeting.id);
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+      vi.restoreAllMocks();
+    });
+
+    it("should page through the date index newest first", async () => {
+      const store = await openStore();
+      await store.addMissing([
+        ...meetings,
+        buildMeeting("m4", "2021-01-05T00:00:00.000Z"),
+        buildMeeting("m5", "2021-01-15T00:00:00.000Z"),
+      ]);
+
+      const pages = [
+        await store.listPage(0, 2),
+        await store.listPage(2, 2),
+        await store.listPage(4, 2),
+      ];
+
+      expect(pages.map((page) => ids(page.meetings))).toEqual([
+        ["m3", "m5"],
+        ["m2", "m4"],
+        ["m1"],
+      ]);
+      expect(pages.map((page) => page.hasMore)).toEqual([true, true, false]);
+      expect(await store.listPage(5, 2)).toEqual({
+        meetings: [],
+        hasMore: false,
+      });
+    });
+
+    it("should keep stored meetings when adding existing ids", async () => {
+      const store = await openStore();
+      await store.put(meetings[0]);
+
+      const added = await store.addMissing([
+        { ...meetings[0], title: "Changed" },
+        meetings[1],
+      ]);
+
+      expect(added).toBe(1);
+      expect(await store.listAll()).toEqual([meetings[1], meetings[0]]);
+    });
+
+    it("should prune by count or age from the date index", async () => {
+      const store = await openStore();
+      await store.addMissing(meetings);
+
+      expect(await store.applyRetention({ kind: "forever" }, now)).toBe(0);
+      expect(await store.applyRetention({ kind: "days", days: 14 }, now)).toBe(
+        1,
+      );
+      expect(ids(await store.listAll())).toEqual(["m3", "m2"]);
+
+      expect(await store.applyRetention({ kind: "count", max: 1 }, now)).toBe(
+        1,
+      );
+      expect(ids(await store.listAll())).toEqual(["m3"]);
+    });
+
+    it("should move history out of localStorage on first open", async () => {
+      saveVersioned(meetingHistoryStorage, meetings);
+
+      const store = await openStore();
+
+      expect(ids(await store.listAll())).toEqual(["m3", "m2", "m1"]);
+      expect(localStorage.getItem(meetingHistoryStorage.key)).toBeNull();
+    });
+
+    it("should skip stored records that are not valid meetings", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      const store = await openStore();
+      await store.addMissing(meetings);
+      await putRecord({ id: "broken", date: "2021-01-15T00:00:00.000Z" });
+
+      expect(ids((await store.listPage(0, 10)).meetings)).toEqual([
+        "m3",
+        "m2",
+        "m1",
+      ]);
+      expect(ids(await store.listAll())).toEqual(["m3", "m2", "m1"]);
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import { type Meeting, parseMeetingHistory } from "./meeting";
+import {
+  type RetentionPolicy,
+  loadVersioned,
+  meetingHistoryStorage,
+  saveVersioned,
+} from "./storage";
+
+/**
+ * Local meeting history storage.
+ *
+ * History lives in IndexedDB so it is not limited by localStorage quotas and
+ * can be read one page at a time instead of parsing one large JSON string.
+ * When IndexedDB is unavailable (SSR, tests, some private browsing modes)
+ * the versioned `meeting-history` localStorage key is used instead.
+ */
+export interface MeetingHistoryStore {
+  /** Returns meetings newest first, starting at offset */
+  listPage: (offset: number, limit: number) => Promise<HistoryPage>;
+  /** Returns every stored meeting, newest first */
+  listAll: () => Promise<Meeting[]>;
+  /** Inserts or replaces a meeting */
+  put: (meeting: Meeting) => Promise<void>;
+  /** Deletes a meeting by id */
+  remove: (id: string) => Promise<void>;
+  /** Deletes every meeting */
+  clear: () => Promise<void>;
+  /** Inserts meetings whose ids are not stored yet; returns how many were added */
+  addMissing: (meetings: Meeting[]) => Promise<number>;
+  /** Deletes meetings outside the retention policy; returns how many were removed */
+  applyRetention: (policy: RetentionPolicy, now: number) => Promise<number>;
+}
+
+export interface HistoryPage {
+  meetings: Meeting[];
+  hasMore: boolean;
+}
+
+export const HISTORY_PAGE_SIZE = 20;
+
+const DB_NAME = "meeting-time-tracker";
+const DB_VERSION = 1;
+const MEETINGS_STORE = "meetings";
+const DATE_INDEX = "date";
+
+const byDateDesc = (a: Meeting, b: Meeting) => b.date.localeCompare(a.date);
+
+/**
+ * Determines which meetings fall outside a retention policy.
+ *
+ * @param meetings - Meetings to check, in any order
+ * @param policy - Retention policy to apply
+ * @param now - Current timestamp in milliseconds
+ * @returns Ids of meetings that should be deleted
+ */
+export function selectExpiredMeetings(
+  meetings: Meeting[],
+  policy: RetentionPolicy,
+  now: number,
+): string[] {
+  switch (policy.kind) {
+    case "forever":
+      return [];
+    case "count":
+      return [...meetings]
+        .sort(byDateDesc)
+        .slice(policy.max)
+        .map((meeting) => meeting.id);
+    case "days": {
+      const cutoff = new Date(now - policy.days * 86400000).toISOString();
+      return meetings
+        .filter((meeting) => meeting.date < cutoff)
+        .map((meeting) => meeting.id);
+    }
+  }
+}
+
+/**
+ * Creates a history store backed by the versioned `meeting-history`
+ * localStorage key. Every operation reads and rewrites the whole array,
+ * so this is only used when IndexedDB is not available.
+ */
+export function createLocalStorageHistoryStore(): MeetingHistoryStore {
+  const readAll = () =>
+    (loadVersioned(meetingHistoryStorage) ?? []).sort(byDateDesc);
+  const writeAll = (meetings: Meeting[]) =>
+    saveVersioned(meetingHistoryStorage, [...meetings].sort(byDateDesc));
+
+  return {
+    listPage: async (offset, limit) => {
+      const meetings = readAll();
+      return {
+        meetings: meetings.slice(offset, offset + limit),
+        hasMore: meetings.length > offset + limit,
+      };
+    },
+    listAll: async () => readAll(),
+    put: async (meeting) => {
+      const others = readAll().filter((m) => m.id !== meeting.id);
+      writeAll([meeting, ...others]);
+    },
+    remove: async (id) => {
+      writeAll(readAll().filter((meeting) => meeting.id !== id));
+    },
+    clear: async () => {
+      writeAll([]);
+    },
+    addMissing: async (meetings) => {
+      const existing = readAll();
+      const ids = new Set(existing.map((meeting) => meeting.id));
+      const missing = meetings.filter((meeting) => !ids.has(meeting.id));
+      if (missing.length > 0) {
+        writeAll([...existing, ...missing]);
+      }
+      return missing.length;
+    },
+    applyRetention: async (policy, now) => {
+      const meetings = readAll();
+      const expired = new Set(selectExpiredMeetings(meetings, policy, now));
+      if (expired.size > 0) {
+        writeAll(meetings.filter((meeting) => !expired.has(meeting.id)));
+      }
+      return expired.size;
+    },
+  };
+}
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction commits.
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Opens the history database and creates the object store on first use.
+ */
+function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+  const request = factory.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(MEETINGS_STORE, {
+      keyPath: "id",
+    });
+    store.createIndex(DATE_INDEX, "date");
+  };
+  return promisifyRequest(request);
+}
+
+/**
+ * Creates a history store backed by IndexedDB.
+ * Meetings are keyed by id and indexed by ISO date, so pages and the
+ * retention policy are served from the index without loading everything.
+ * Records are validated as they are read; invalid ones are left in the
+ * database but not returned.
+ *
+ * @param db - Open database created by openDatabase
+ */
+function createIndexedDbHistoryStore(db: IDBDatabase): MeetingHistoryStore {
+  const listPage = async (offset: number, limit: number) => {
+    const transaction = db.transaction(MEETINGS_STORE, "readonly");
+    const index = transaction.objectStore(MEETINGS_STORE).index(DATE_INDEX);
+    const records: unknown[] = [];
+    let hasMore = false;
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(null, "prev");
+      let skipped = offset === 0;
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        if (records.length === limit) {
+          hasMore = true;
+          return resolve();
+        }
+        records.push(cursor.value);
+        cursor.continue();
+      };
+    });
+
+    return { meetings: parseMeetingHistory(records), hasMore };
+  };
+
+  const listAll = async () => {
+    const transaction = db.transaction(MEETINGS_STORE, "readonly");
+    const index = transaction.objectStore(MEETINGS_STORE).index(DATE_INDEX);
+    const records: unknown[] = await promisifyRequest(index.getAll());
+    return parseMeetingHistory(records.reverse());
+  };
+
+  const put = async (meeting: Meeting) => {
+    const transaction = db.transaction(MEETINGS_STORE, "readwrite");
+    transaction.objectStore(MEETINGS_STORE).put(meeting);
+    await transactionDone(transaction);
+  };
+
+  const remove = async (id: string) => {
+    const transaction = db.transaction(MEETINGS_STORE, "readwrite");
+    transaction.objectStore(MEETINGS_STORE).delete(id);
+    await transactionDone(transaction);
+  };
+
+  const clear = async () => {
+    const transaction = db.transaction(MEETINGS_STORE, "readwrite");
+    transaction.objectStore(MEETINGS_STORE).clear();
+    await transactionDone(transaction);
+  };
+
+  const addMissing = async (meetings: Meeting[]) => {
+    const transaction = db.transaction(MEETINGS_STORE, "readwrite");
+    const store = transaction.objectStore(MEETINGS_STORE);
+    let added = 0;
+    for (const meeting of meetings) {
+      const request = store.add(meeting);
+      request.onsuccess = () => {
+        added++;
+      };
+      request.onerror = (event) => {
+        // Existing id: keep the stored meeting and don't abort the transaction
+        event.preventDefault();
+        event.stopPropagation();
+      };
+    }
+    await transactionDone(transaction);
+    return added;
+  };
+
+  const applyRetention = async (policy: RetentionPolicy, now: number) => {
+    if (policy.kind === "forever") return 0;
+
+    const transaction = db.transaction(MEETINGS_STORE, "readwrite");
+    const index = transaction.objectStore(MEETINGS_STORE).index(DATE_INDEX);
+    let removed = 0;
+
+    if (policy.kind === "count") {
+      let kept = 0;
+      const request = index.openCursor(null, "prev");
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        if (kept < policy.max) {
+          kept++;
+        } else {
+          cursor.delete();
+          removed++;
+        }
+        cursor.continue();
+      };
+    } else {
+      const cutoff = new Date(now - policy.days * 86400000).toISOString();
+      const request = index.openCursor(IDBKeyRange.upperBound(cutoff, true));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.delete();
+        removed++;
+        cursor.continue();
+      };
+    }
+
+    await transactionDone(transaction);
+    return removed;
+  };
+
+  return {
+    listPage,
+    listAll,
+    put,
+    remove,
+    clear,
+    addMissing,
+    applyRetention,
+  };
+}
+
+/**
+ * Opens the IndexedDB store and moves any history still held in the
+ * legacy localStorage key into it.
+ */
+async function initHistoryStore(): Promise<MeetingHistoryStore> {
+  if (typeof indexedDB === "undefined") {
+    return createLocalStorageHistoryStore();
+  }
+
+  let store: MeetingHistoryStore;
+  try {
+    store = createIndexedDbHistoryStore(await openDatabase(indexedDB));
+  } catch (e) {
+    console.error("Failed to open IndexedDB, using localStorage:", e);
+    return createLocalStorageHistoryStore();
+  }
+
+  try {
+    const legacy = loadVersioned(meetingHistoryStorage);
+    if (legacy) {
+      await store.addMissing(legacy);
+      localStorage.removeItem(meetingHistoryStorage.key);
+    }
+  } catch (e) {
+    console.error("Failed to migrate meeting history:", e);
+  }
+
+  return store;
+}
+
+let historyStorePromise: Promise<MeetingHistoryStore> | null = null;
+
+/**
+ * Returns the shared history store, opening it on first use.
+ */
+export function getHistoryStore(): Promise<MeetingHistoryStore> {
+  if (!historyStorePromise) {
+    historyStorePromise = initHistoryStore();
+  }
+  return historyStorePromise;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+import { meetingFromCalendarEvent, parseIcsEvents } from "./ics";
+
+/**
+ * Test suite for iCalendar import.
+ *
+ * Tests .ics parsing including:
+ * - UTC, TZID, floating and all-day times
+ * - DURATION instead of DTEND
+ * - folded lines, escapes and nested components
+ * - mapping events to meeting details and agenda items
+ */
+describe("ics", () => {
+  const calendar = (...lines: string[]) =>
+    ["BEGIN:VCALENDAR", "VERSION:2.0", ...lines, "END:VCALENDAR"].join("\r\n");
+
+  const event = (...lines: string[]) => [
+    "BEGIN:VEVENT",
+    ...lines,
+    "END:VEVENT",
+  ];
+
+  describe("parseIcsEvents", () => {
+    it("should read summary, times and description", () => {
+      const [parsed] = parseIcsEvents(
+        calendar(
+          ...event(
+            "UID:abc@example.com",
+            "SUMMARY:Weekly sync\\, team A",
+            "DTSTART:20240105T010000Z",
+            "DTEND:20240105T020000Z",
+            "DESCRIPTION:- Updates (10m)\\n- Demo (20m)",
+          ),
+        ),
+      );
+
+      expect(parsed).toEqual({
+        uid: "abc@example.com",
+        summary: "Weekly sync, team A",
+        start: "2024-01-05T01:00:00.000Z",
+        end: "2024-01-05T02:00:00.000Z",
+        description: "- Updates (10m)\n- Demo (20m)",
+      });
+    });
+
+    it("should convert TZID times to UTC", () => {
+      const [parsed] = parseIcsEvents(
+        calendar(
+          ...event(
+            "DTSTART;TZID=Asia/Tokyo:20240105T100000",
+            "DTEND;TZID=America/New_York:20240704T100000",
+          ),
+        ),
+      );
+
+      expect(parsed.start).toBe("2024-01-05T01:00:00.000Z");
+      // Daylight saving time in July
+      expect(parsed.end).toBe("2024-07-04T14:00:00.000Z");
+    });
+
+    it("should read floating, all-day and unknown-zone times as local", () => {
+      const [parsed] = parseIcsEvents(
+        calendar(
+          ...event(
+            "DTSTART;VALUE=DATE:20240105",
+            "DTEND;TZID=Tokyo Standard Time:20240105T100000",
+          ),
+        ),
+      );
+
+      expect(parsed.start).toBe(new Date(2024, 0, 5).toISOString());
+      expect(parsed.end).toBe(new Date(2024, 0, 5, 10).toISOString());
+    });
+
+    it("should compute the end from DURATION", () => {
+      const [parsed] = parseIcsEvents(
+        calendar(...event("DTSTART:20240105T010000Z", "DURATION:PT1H30M")),
+      );
+
+      expect(parsed.end).toBe("2024-01-05T02:30:00.000Z");
+    });
+
+    it("should unfold lines and ignore nested alarms", () => {
+      const [parsed] = parseIcsEvents(
+        calendar(
+          ...event(
+            "SUMMARY:Planning",
+            "DESCRIPTION:- Road",
+            " map (30m)",
+            "BEGIN:VALARM",
+            "DESCRIPTION:Reminder",
+            "END:VALARM",
+          ),
+        ),
+      );
+
+      expect(parsed.description).toBe("- Roadmap (30m)");
+    });
+
+    it("should return every event sorted by start", () => {
+      const events = parseIcsEvents(
+        calendar(
+          ...event("SUMMARY:Later", "DTSTART:20240106T010000Z"),
+          ...event("SUMMARY:Earlier", "DTSTART:20240105T010000Z"),
+        ),
+      );
+
+      expect(events.map((e) => e.summary)).toEqual(["Earlier", "Later"]);
+    });
+
+    it("should turn HTML descriptions into list lines", () => {
+      const [parsed] = parseIcsEvents(
+        calendar(
+          ...event(
+            "DESCRIPTION:<p>Agenda</p><ul><li>Intro (5m)</li><li>Q&amp;A</li></ul>",
+          ),
+        ),
+      );
+
+      expect(meetingFromCalendarEvent(parsed).agendaItems).toMatchObject([
+        { name: "Intro", estimatedMinutes: 5 },
+        { name: "Q&A", estimatedMinutes: 5 },
+      ]);
+    });
+  });
+
+  describe("meetingFromCalendarEvent", () => {
+    it("should map the event to details and agenda items", () => {
+      const meeting = meetingFromCalendarEvent({
+        summary: "Weekly sync",
+        start: "2024-01-05T01:00:00.000Z",
+        end: "2024-01-05T02:00:00.000Z",
+        description:
+          "Join: https://example.com/meet\n\n- Updates (10m)\nDemo 20m",
+      });
+
+      expect(meeting.details).toEqual({
+        title: "Weekly sync",
+        scheduledStart: "2024-01-05T01:00:00.000Z",
+        scheduledEnd: "2024-01-05T02:00:00.000Z",
+      });
+      expect(meeting.agendaItems).toMatchObject([
+        { name: "Updates", estimatedMinutes: 10 },
+        { name: "Demo", estimatedMinutes: 20 },
+      ]);
+    });
+
+    it("should return no agenda items without a description", () => {
+      expect(meetingFromCalendarEvent({ summary: "1:1" }).agendaItems).toEqual(
+        [],
+      );
+    });
+  });
+});
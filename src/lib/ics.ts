@@ -0,0 +1,244 @@
+import { parseAgendaText } from "./agendaText";
+import type { AgendaItem, MeetingDetails } from "./meeting";
+
+/**
+ * Minimal iCalendar (RFC 5545) reader for importing meetings.
+ *
+ * Only the VEVENT properties the tracker uses are read: SUMMARY, DTSTART,
+ * DTEND/DURATION, DESCRIPTION and UID. Recurring events are read as their
+ * first occurrence. Everything is parsed locally.
+ */
+
+export interface CalendarEvent {
+  uid?: string;
+  summary?: string;
+  /** ISO start time */
+  start?: string;
+  /** ISO end time */
+  end?: string;
+  description?: string;
+}
+
+/**
+ * Joins folded lines: a line starting with a space or tab continues the
+ * previous one.
+ */
+function unfoldLines(text: string): string[] {
+  return text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+}
+
+/**
+ * Decodes TEXT escapes (\n, \, \; \,).
+ */
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN\\;,])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+/**
+ * Turns simple HTML descriptions (as written by some calendar apps) into
+ * plain-text lines, keeping list items as Markdown bullets.
+ */
+function htmlToText(value: string): string {
+  if (!/<[a-z][^>]*>/i.test(value)) return value;
+  return value
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<\/(p|div|li|ul|ol)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds.
+ * Throws a RangeError for unknown zones.
+ */
+function timeZoneOffset(utc: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(utc));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return (
+    Date.UTC(
+      get("year"),
+      get("month") - 1,
+      get("day"),
+      get("hour"),
+      get("minute"),
+      get("second"),
+    ) - utc
+  );
+}
+
+/**
+ * Parses a DATE or DATE-TIME value.
+ * UTC (`Z`) and TZID times are converted exactly; floating times, all-day
+ * dates and zones the browser does not know are read as local time.
+ *
+ * @param value - e.g. `20240105T100000Z`, `20240105T100000` or `20240105`
+ * @param timeZone - TZID parameter, if any
+ * @returns ISO timestamp, or undefined if the value is malformed
+ */
+function parseDateTime(value: string, timeZone?: string): string | undefined {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/,
+  );
+  if (!match) return undefined;
+  const [, year, month, day, hour = "0", minute = "0", second = "0", utc] =
+    match;
+  const fields = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour),
+    Number(minute),
+    Number(second),
+  ] as const;
+
+  if (utc) {
+    return new Date(Date.UTC(...fields)).toISOString();
+  }
+  if (timeZone && match[4]) {
+    try {
+      const guess = Date.UTC(...fields);
+      const offset = timeZoneOffset(guess, timeZone);
+      // Re-check at the converted instant in case it crosses a DST change
+      const corrected = timeZoneOffset(guess - offset, timeZone);
+      return new Date(guess - corrected).toISOString();
+    } catch {
+      // Unknown zone (e.g. a Windows zone name): fall back to local time
+    }
+  }
+  return new Date(...fields).toISOString();
+}
+
+/**
+ * Parses an ISO 8601 duration such as `PT1H30M` or `P1D`.
+ *
+ * @returns Duration in milliseconds, or undefined if malformed
+ */
+function parseDuration(value: string): number | undefined {
+  const match = value.match(
+    /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/,
+  );
+  if (!match) return undefined;
+  const [, weeks, days, hours, minutes, seconds] = match.map(Number);
+  return (
+    ((((weeks || 0) * 7 + (days || 0)) * 24 + (hours || 0)) * 60 +
+      (minutes || 0)) *
+      60000 +
+    (seconds || 0) * 1000
+  );
+}
+
+/**
+ * Reads the events of an iCalendar file.
+ * Properties of nested components such as VALARM are ignored.
+ *
+ * @param text - Contents of an .ics file
+ * @returns Events sorted by start time
+ */
+export function parseIcsEvents(text: string): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  const stack: string[] = [];
+  let event: CalendarEvent | null = null;
+  let duration: number | undefined;
+
+  for (const line of unfoldLines(text)) {
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const [name, ...params] = line.slice(0, colon).split(";");
+    const property = name.toUpperCase();
+    const value = line.slice(colon + 1);
+
+    if (property === "BEGIN") {
+      stack.push(value.toUpperCase());
+      if (value.toUpperCase() === "VEVENT") {
+        event = {};
+        duration = undefined;
+      }
+      continue;
+    }
+    if (property === "END") {
+      if (stack.pop() === "VEVENT" && event) {
+        if (!event.end && event.start && duration !== undefined) {
+          event.end = new Date(
+            new Date(event.start).getTime() + duration,
+          ).toISOString();
+        }
+        events.push(event);
+        event = null;
+      }
+      continue;
+    }
+    if (!event || stack.at(-1) !== "VEVENT") continue;
+
+    const timeZone = params
+      .find((param) => param.toUpperCase().startsWith("TZID="))
+      ?.slice(5)
+      .replace(/^"|"$/g, "");
+    switch (property) {
+      case "UID":
+        event.uid = value;
+        break;
+      case "SUMMARY":
+        event.summary = unescapeText(value).trim() || undefined;
+        break;
+      case "DESCRIPTION":
+        event.description = htmlToText(unescapeText(value));
+        break;
+      case "DTSTART":
+        event.start = parseDateTime(value, timeZone);
+        break;
+      case "DTEND":
+        event.end = parseDateTime(value, timeZone);
+        break;
+      case "DURATION":
+        duration = parseDuration(value);
+        break;
+    }
+  }
+
+  return events.sort((a, b) => (a.start ?? "").localeCompare(b.start ?? ""));
+}
+
+export interface CalendarMeeting {
+  details: MeetingDetails;
+  /** Empty when the description has no agenda */
+  agendaItems: AgendaItem[];
+}
+
+/**
+ * Maps a calendar event onto the tracker: the summary becomes the title,
+ * start and end become the scheduled times, and list lines (or lines with a
+ * duration) in the description become agenda items.
+ *
+ * @param event - Event picked from the calendar file
+ * @returns Meeting details and agenda items
+ */
+export function meetingFromCalendarEvent(
+  event: CalendarEvent,
+): CalendarMeeting {
+  return {
+    details: {
+      title: event.summary,
+      scheduledStart: event.start,
+      scheduledEnd: event.end,
+    },
+    agendaItems: parseAgendaText(event.description ?? "", {
+      agendaLinesOnly: true,
+    }),
+  };
+}
@@ -0,0 +1,448 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  activeSessionSchema,
+  agendaItemSchema,
+  carryOverItems,
+  cloneAgenda,
+  estimateAccuracy,
+  hasItemMinutes,
+  meetingSchema,
+  parseMeetingHistory,
+  parseParticipants,
+  summarizeByOwner,
+  summarizeMeeting,
+  timeBox,
+} from "./meeting";
+
+/**
+ * Test suite for the shared meeting domain model.
+ *
+ * Tests schema validation including:
+ * - accepting well-formed agenda items, meetings and sessions
+ * - rejecting corrupt or old-shape data
+ * - per-entry filtering of stored meeting history
+ * - meeting totals, per-owner roll-ups, participant lists and cloning agendas
+ * - carrying parked items over to the next meeting
+ * - time boxes including extensions, and accuracy measured against them
+ */
+describe("meeting domain model", () => {
+  const validItem = {
+    id: "item_1",
+    name: "Progress Report",
+    estimatedMinutes: 10,
+    actualMinutes: 12,
+    isActive: false,
+    elapsedTime: 720000,
+  };
+
+  const validMeeting = {
+    id: "meeting_1",
+    date: "2021-01-01T00:00:00.000Z",
+    agendaItems: [validItem],
+  };
+
+  describe("agendaItemSchema", () => {
+    it("should accept a valid agenda item", () => {
+      expect(agendaItemSchema.parse(validItem)).toEqual(validItem);
+    });
+
+    it("should accept items without optional timing fields", () => {
+      const { actualMinutes, ...pending } = validItem;
+
+      expect(agendaItemSchema.safeParse(pending).success).toBe(true);
+    });
+
+    it("should accept notes, decisions and action items", () => {
+      const result = agendaItemSchema.safeParse({
+        ...validItem,
+        notes: "Discussed the release",
+        decisions: ["Ship on Friday"],
+        actionItems: [
+          {
+            id: "a1",
+            text: "Write release notes",
+            assignee: "Sato",
+            dueDate: "2021-01-08",
+          },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject action items with a malformed due date", () => {
+      const result = agendaItemSchema.safeParse({
+        ...validItem,
+        actionItems: [{ id: "a1", text: "Follow up", dueDate: "next week" }],
+      });
+
+      expect(result.success).toBe(false);
+    });
+
+    it("should reject items with missing or mistyped fields", () => {
+      expect(
+        agendaItemSchema.safeParse({ ...validItem, elapsedTime: undefined })
+          .success,
+      ).toBe(false);
+      expect(
+        agendaItemSchema.safeParse({ ...validItem, estimatedMinutes: "10" })
+          .success,
+      ).toBe(false);
+      expect(
+        agendaItemSchema.safeParse({ ...validItem, name: "" }).success,
+      ).toBe(false);
+    });
+  });
+
+  describe("meetingSchema", () => {
+    it("should accept a valid meeting", () => {
+      expect(meetingSchema.parse(validMeeting)).toEqual(validMeeting);
+    });
+
+    it("should accept meetings with details and without them", () => {
+      expect(
+        meetingSchema.safeParse({
+          ...validMeeting,
+          title: "Weekly sync",
+          facilitator: "Sato",
+          participants: ["Sato", "Suzuki"],
+          purpose: "Align on priorities",
+        }).success,
+      ).toBe(true);
+      expect(meetingSchema.safeParse(validMeeting).success).toBe(true);
+    });
+
+    it("should reject meetings with a non-ISO date", () => {
+      expect(
+        meetingSchema.safeParse({ ...validMeeting, date: "yesterday" }).success,
+      ).toBe(false);
+    });
+  });
+
+  describe("activeSessionSchema", () => {
+    it("should accept a valid session blob", () => {
+      const session = {
+        agendaItems: [validItem],
+        isRunning: true,
+        savedAt: 1609459200000,
+      };
+
+      expect(activeSessionSchema.parse(session)).toEqual(session);
+    });
+
+    it("should reject a session without agenda items", () => {
+      expect(
+        activeSessionSchema.safeParse({ isRunning: false, savedAt: 0 }).success,
+      ).toBe(false);
+    });
+  });
+
+  describe("parseMeetingHistory", () => {
+    it("should drop invalid meetings and keep valid ones", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const history = parseMeetingHistory([
+        validMeeting,
+        { id: "broken" },
+        { ...validMeeting, id: "meeting_2" },
+      ]);
+
+      expect(history.map((meeting) => meeting.id)).toEqual([
+        "meeting_1",
+        "meeting_2",
+      ]);
+      expect(warnSpy).toHaveBeenCalledTimes(1);
+
+      warnSpy.mockRestore();
+    });
+
+    it("should throw when the stored value is not an array", () => {
+      expect(() => parseMeetingHistory({ meetings: [] })).toThrow();
+    });
+  });
+
+  describe("summarizeMeeting", () => {
+    it("should total estimated and actual minutes", () => {
+      const meeting = meetingSchema.parse({
+        ...validMeeting,
+        agendaItems: [
+          validItem,
+          { ...validItem, id: "item_2", actualMinutes: undefined },
+        ],
+      });
+
+      expect(summarizeMeeting(meeting)).toEqual({
+        itemCount: 2,
+        totalEstimated: 20,
+        totalTimeBox: 20,
+        totalActual: 12,
+      });
+    });
+
+    it("should add extensions to the time box but not the estimate", () => {
+      const meeting = meetingSchema.parse({
+        ...validMeeting,
+        agendaItems: [{ ...validItem, extendedMinutes: 5 }],
+      });
+
+      expect(summarizeMeeting(meeting)).toEqual({
+        itemCount: 1,
+        totalEstimated: 10,
+        totalTimeBox: 15,
+        totalActual: 12,
+      });
+    });
+
+    it("should leave skipped and parked items out", () => {
+      const meeting = meetingSchema.parse({
+        ...validMeeting,
+        agendaItems: [
+          validItem,
+          {
+            ...validItem,
+            id: "item_2",
+            actualMinutes: undefined,
+            status: "skipped",
+          },
+          {
+            ...validItem,
+            id: "item_3",
+            actualMinutes: undefined,
+            status: "deferred",
+          },
+        ],
+      });
+
+      expect(summarizeMeeting(meeting)).toEqual({
+        itemCount: 1,
+        totalEstimated: 10,
+        totalTimeBox: 10,
+        totalActual: 12,
+      });
+    });
+  });
+
+  describe("summarizeByOwner", () => {
+    it("should roll items up per owner, largest overrun first", () => {
+      const items = [
+        { ...validItem, id: "a", owner: "Sato", actualMinutes: 9 },
+        { ...validItem, id: "b", owner: "Suzuki", actualMinutes: 15 },
+        { ...validItem, id: "c", owner: "Sato", actualMinutes: 10 },
+        { ...validItem, id: "d", actualMinutes: 12 },
+      ];
+
+      expect(summarizeByOwner(items)).toEqual([
+        {
+          owner: "Suzuki",
+          itemCount: 1,
+          totalEstimated: 10,
+          totalTimeBox: 10,
+          totalActual: 15,
+        },
+        {
+          owner: undefined,
+          itemCount: 1,
+          totalEstimated: 10,
+          totalTimeBox: 10,
+          totalActual: 12,
+        },
+        {
+          owner: "Sato",
+          itemCount: 2,
+          totalEstimated: 20,
+          totalTimeBox: 20,
+          totalActual: 19,
+        },
+      ]);
+    });
+
+    it("should not rank time within an extension as overrun", () => {
+      const items = [
+        {
+          ...validItem,
+          id: "a",
+          owner: "Sato",
+          extendedMinutes: 10,
+          actualMinutes: 18,
+        },
+        { ...validItem, id: "b", owner: "Suzuki", actualMinutes: 11 },
+      ];
+
+      expect(summarizeByOwner(items).map((summary) => summary.owner)).toEqual([
+        "Suzuki",
+        "Sato",
+      ]);
+    });
+  });
+
+  describe("hasItemMinutes", () => {
+    it("should ignore blank notes and empty lists", () => {
+      expect(hasItemMinutes({ notes: "  ", decisions: [] })).toBe(false);
+      expect(hasItemMinutes({ decisions: ["Ship it"] })).toBe(true);
+    });
+  });
+
+  describe("parseParticipants", () => {
+    it("should split on ASCII and Japanese commas and trim names", () => {
+      expect(parseParticipants(" Sato, Suzuki、 Tanaka ,, ")).toEqual([
+        "Sato",
+        "Suzuki",
+        "Tanaka",
+      ]);
+    });
+  });
+
+  describe("cloneAgenda", () => {
+    const meeting = meetingSchema.parse({
+      ...validMeeting,
+      agendaItems: [
+        { ...validItem, extendedMinutes: 5 },
+        { ...validItem, id: "item_2", actualMinutes: 0.2 },
+        { ...validItem, id: "item_3", actualMinutes: undefined },
+      ],
+    });
+
+    it("should reset timing and extensions and assign new ids", () => {
+      const items = cloneAgenda(meeting);
+
+      expect(items.map((item) => item.estimatedMinutes)).toEqual([10, 10, 10]);
+      for (const item of items) {
+        expect(item).toEqual({
+          id: expect.any(String),
+          name: "Progress Report",
+          estimatedMinutes: 10,
+          isActive: false,
+          elapsedTime: 0,
+        });
+      }
+      expect(new Set(items.map((item) => item.id)).size).toBe(3);
+      expect(items.map((item) => item.id)).not.toContain("item_1");
+    });
+
+    it("should use rounded actuals as estimates when asked", () => {
+      const items = cloneAgenda(meeting, { useActualsAsEstimates: true });
+
+      expect(items.map((item) => item.estimatedMinutes)).toEqual([12, 1, 10]);
+    });
+  });
+
+  describe("timeBox", () => {
+    it("should add extensions to the estimate", () => {
+      expect(timeBox(validItem)).toBe(10);
+      expect(timeBox({ ...validItem, extendedMinutes: 6 })).toBe(16);
+    });
+  });
+
+  describe("estimateAccuracy", () => {
+    it("should measure the actual time against the time box", () => {
+      expect(estimateAccuracy({ ...validItem, actualMinutes: 12 })).toEqual({
+        difference: 2,
+        accuracy: 80,
+      });
+    });
+
+    it("should not count time within an extension as an overrun", () => {
+      const extended = { ...validItem, extendedMinutes: 5, actualMinutes: 15 };
+
+      expect(estimateAccuracy(extended)).toEqual({
+        difference: 0,
+        accuracy: 100,
+      });
+    });
+
+    it("should not divide by a zero-minute time box", () => {
+      const zero = { ...validItem, estimatedMinutes: 0 };
+
+      expect(estimateAccuracy({ ...zero, actualMinutes: 0 })).toEqual({
+        difference: 0,
+        accuracy: 100,
+      });
+      expect(estimateAccuracy({ ...zero, actualMinutes: 3 })).toEqual({
+        difference: 3,
+        accuracy: 0,
+      });
+    });
+  });
+
+  describe("carryOverItems", () => {
+    it("should turn parked items into fresh items for the next meeting", () => {
+      const meeting = meetingSchema.parse({
+        ...validMeeting,
+        agendaItems: [
+          validItem,
+          {
+            ...validItem,
+            id: "item_2",
+            actualMinutes: undefined,
+            status: "skipped",
+          },
+          {
+            ...validItem,
+            id: "item_3",
+            name: "Budget",
+            owner: "Sato",
+            actualMinutes: undefined,
+            elapsedTime: 60000,
+            status: "deferred",
+          },
+        ],
+      });
+
+      expect(carryOverItems(meeting)).toEqual([
+        {
+          id: expect.any(String),
+          name: "Budget",
+          owner: "Sato",
+          estimatedMinutes: 10,
+          isActive: false,
+          elapsedTime: 0,
+          carriedFrom: "meeting_1",
+        },
+      ]);
+    });
+
+    it("should leave out parked items already on the agenda", () => {
+      const meeting = meetingSchema.parse({
+        ...validMeeting,
+        agendaItems: [
+          { ...validItem, id: "item_2", status: "deferred" },
+          { ...validItem, id: "item_3", name: "Budget", status: "deferred" },
+          { ...validItem, id: "item_4", name: "Hiring", status: "deferred" },
+        ],
+      });
+      const agenda = [
+        { ...validItem, id: "item_2", name: "Renamed" },
+        {
+          ...validItem,
+          id: "carried",
+          name: "Budget",
+          carriedFrom: validMeeting.id,
+        },
+      ];
+
+      expect(carryOverItems(meeting, agenda).map((item) => item.name)).toEqual([
+        "Hiring",
+      ]);
+    });
+
+    it("should carry over parked items named like a regular agenda item", () => {
+      const meeting = meetingSchema.parse({
+        ...validMeeting,
+        agendaItems: [
+          { ...validItem, name: "Project update", status: "deferred" },
+        ],
+      });
+      const agenda = [
+        { ...validItem, id: "recurring", name: "Project update" },
+        {
+          ...validItem,
+          id: "carried",
+          name: "Project update",
+          carriedFrom: "older_meeting",
+        },
+      ];
+
+      expect(carryOverItems(meeting, agenda)).toHaveLength(1);
+    });
+  });
+});
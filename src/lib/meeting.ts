@@ -0,0 +1,422 @@
+import { z } from "zod";
+
+/**
+ * Shared meeting domain model.
+ *
+ * These zod schemas are the single source of truth for the shape of agenda
+ * items, saved meetings and the active session blob. They are used by the
+ * tRPC router to validate input, by the localStorage loaders to reject
+ * corrupt or outdated data, and (through the inferred types) by components.
+ */
+
+/**
+ * A follow-up task recorded during an agenda item.
+ * dueDate is a `YYYY-MM-DD` calendar date.
+ */
+export const actionItemSchema = z.object({
+  id: z.string(),
+  text: z.string().min(1),
+  assignee: z.string().optional(),
+  dueDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .optional(),
+});
+
+export type ActionItem = z.infer<typeof actionItemSchema>;
+
+/**
+ * When to alert about an agenda item's time, in minutes.
+ * warnMinutes alerts that many minutes before the time runs out, atZero when
+ * it does and overtimeEveryMinutes repeatedly while running over; 0 turns a
+ * minute threshold off.
+ */
+export const alertThresholdsSchema = z.object({
+  warnMinutes: z.number().nonnegative().optional(),
+  atZero: z.boolean().optional(),
+  overtimeEveryMinutes: z.number().nonnegative().optional(),
+});
+
+export type AlertThresholds = z.infer<typeof alertThresholdsSchema>;
+
+/**
+ * Alert thresholds for a whole meeting and how alerts are given: a chime,
+ * a screen flash and/or a vibration on devices that support it.
+ */
+export const alertSettingsSchema = alertThresholdsSchema.extend({
+  chime: z.boolean().optional(),
+  flash: z.boolean().optional(),
+  vibrate: z.boolean().optional(),
+});
+
+export type AlertSettings = z.infer<typeof alertSettingsSchema>;
+
+/**
+ * A single agenda item with its timing state.
+ * elapsedTime and startTime are in milliseconds; minutes fields are minutes.
+ * owner is the participant presenting the item; notes, decisions and
+ * actionItems are the minutes taken while it was discussed. fixed and
+ * minimumMinutes limit how far the item is shrunk in fixed end-time mode.
+ * isBreak marks a planned break, timed like any other item but reported as
+ * break time. status marks items that were skipped or deferred to the parking
+ * lot; carriedFrom is the id of the meeting a parked item was carried over
+ * from. alerts overrides the meeting's alert thresholds for this item.
+ * extendedMinutes is time added to the item while it ran, kept apart from
+ * estimatedMinutes so the plan and the extensions can be reported separately.
+ */
+export const agendaItemSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  estimatedMinutes: z.number().nonnegative(),
+  extendedMinutes: z.number().nonnegative().optional(),
+  actualMinutes: z.number().nonnegative().optional(),
+  isActive: z.boolean(),
+  startTime: z.number().optional(),
+  elapsedTime: z.number().nonnegative(),
+  owner: z.string().optional(),
+  notes: z.string().optional(),
+  decisions: z.array(z.string()).optional(),
+  actionItems: z.array(actionItemSchema).optional(),
+  fixed: z.boolean().optional(),
+  minimumMinutes: z.number().positive().optional(),
+  isBreak: z.boolean().optional(),
+  status: z.enum(["skipped", "deferred"]).optional(),
+  carriedFrom: z.string().optional(),
+  alerts: alertThresholdsSchema.optional(),
+});
+
+export type AgendaItem = z.infer<typeof agendaItemSchema>;
+
+/**
+ * The minutes an agenda item may take: its estimate plus any extensions.
+ */
+export function timeBox(
+  item: Pick<AgendaItem, "estimatedMinutes" | "extendedMinutes">,
+): number {
+  return item.estimatedMinutes + (item.extendedMinutes ?? 0);
+}
+
+/**
+ * How far an item's actual minutes were from its time box.
+ * Extensions were granted on purpose, so time within them is no overrun.
+ *
+ * @param item - Agenda item with an actual duration
+ * @returns difference - Actual minus time-boxed minutes (positive is over);
+ *   accuracy - Rounded percentage, 100 when exactly on time; a zero-minute
+ *   time box is either hit exactly (100) or missed (0)
+ */
+export function estimateAccuracy(item: AgendaItem): {
+  difference: number;
+  accuracy: number;
+} {
+  const planned = timeBox(item);
+  const difference = (item.actualMinutes ?? 0) - planned;
+  if (planned === 0) {
+    return { difference, accuracy: difference === 0 ? 100 : 0 };
+  }
+  return {
+    difference,
+    accuracy: Math.round((1 - Math.abs(difference) / planned) * 100),
+  };
+}
+
+/**
+ * The minutes-taking fields of an agenda item.
+ */
+export type ItemMinutes = Pick<
+  AgendaItem,
+  "notes" | "decisions" | "actionItems"
+>;
+
+/**
+ * Whether an agenda item has any notes, decisions or action items.
+ */
+export function hasItemMinutes(item: ItemMinutes): boolean {
+  return Boolean(
+    item.notes?.trim() || item.decisions?.length || item.actionItems?.length,
+  );
+}
+
+/**
+ * Descriptive metadata captured before a meeting starts.
+ * Every field is optional so meetings saved before it existed stay valid.
+ */
+export const meetingDetailsSchema = z.object({
+  title: z.string().optional(),
+  facilitator: z.string().optional(),
+  participants: z.array(z.string()).optional(),
+  purpose: z.string().optional(),
+  /** Planned start, e.g. from a calendar event */
+  scheduledStart: z.string().datetime().optional(),
+  /** Planned end, e.g. from a calendar event */
+  scheduledEnd: z.string().datetime().optional(),
+  /** Finish at scheduledEnd by shrinking the remaining items */
+  fixedEnd: z.boolean().optional(),
+  /** Time alerts; unset fields use the defaults in lib/alerts */
+  alerts: alertSettingsSchema.optional(),
+});
+
+export type MeetingDetails = z.infer<typeof meetingDetailsSchema>;
+
+/**
+ * One entry of the append-only meeting log, recorded for every flow
+ * transition and estimate edit. at is a timestamp in milliseconds; itemId is
+ * the item acted on (the one that was active, moved or edited) and
+ * nextItemId the item that became active. Item timings can be rebuilt from
+ * the log (see lib/meetingLog).
+ */
+export const meetingEventSchema = z.object({
+  type: z.enum([
+    "start",
+    "pause",
+    "resume",
+    "complete",
+    "goBack",
+    "skip",
+    "defer",
+    "revisit",
+    "jump",
+    "extend",
+    "reorder",
+    "editEstimate",
+  ]),
+  at: z.number(),
+  itemId: z.string().optional(),
+  nextItemId: z.string().optional(),
+  /** New position of a reordered item */
+  toIndex: z.number().int().nonnegative().optional(),
+  /** New estimate of an edited item */
+  estimatedMinutes: z.number().nonnegative().optional(),
+  /** Minutes added to the active item's time box */
+  minutes: z.number().positive().optional(),
+});
+
+export type MeetingEvent = z.infer<typeof meetingEventSchema>;
+
+/**
+ * A completed meeting as saved to history.
+ * events is missing on meetings saved before the log existed.
+ */
+export const meetingSchema = meetingDetailsSchema.extend({
+  id: z.string(),
+  date: z.string().datetime(),
+  agendaItems: z.array(agendaItemSchema),
+  events: z.array(meetingEventSchema).optional(),
+});
+
+export type Meeting = z.infer<typeof meetingSchema>;
+
+/**
+ * The in-progress meeting persisted under `active-meeting-session`.
+ */
+export const activeSessionSchema = z.object({
+  agendaItems: z.array(agendaItemSchema),
+  details: meetingDetailsSchema.optional(),
+  events: z.array(meetingEventSchema).optional(),
+  isRunning: z.boolean(),
+  savedAt: z.number(),
+});
+
+export type ActiveSession = z.infer<typeof activeSessionSchema>;
+
+/**
+ * Totals for one saved meeting, as shown in the history list.
+ * totalTimeBox adds the extensions to totalEstimated; overruns are measured
+ * against it.
+ */
+export interface MeetingSummary {
+  itemCount: number;
+  totalEstimated: number;
+  totalTimeBox: number;
+  totalActual: number;
+}
+
+/**
+ * Sums estimated, time-boxed and actual minutes over a meeting's agenda items.
+ * Items without an actual duration count as zero actual minutes; skipped and
+ * deferred items were not discussed and are left out.
+ *
+ * @param meeting - Meeting to summarize
+ * @returns Item count and totals in minutes
+ */
+export function summarizeMeeting(meeting: Meeting): MeetingSummary {
+  const discussed = meeting.agendaItems.filter((item) => !item.status);
+  return {
+    itemCount: discussed.length,
+    totalEstimated: discussed.reduce(
+      (sum, item) => sum + item.estimatedMinutes,
+      0,
+    ),
+    totalTimeBox: discussed.reduce((sum, item) => sum + timeBox(item), 0),
+    totalActual: discussed.reduce(
+      (sum, item) => sum + (item.actualMinutes ?? 0),
+      0,
+    ),
+  };
+}
+
+/**
+ * Estimated vs actual time for the items owned by one person.
+ * owner is undefined for unassigned items.
+ */
+export interface OwnerSummary {
+  owner?: string;
+  itemCount: number;
+  totalEstimated: number;
+  totalTimeBox: number;
+  totalActual: number;
+}
+
+/**
+ * Rolls agenda items up per owner.
+ * Items without an actual duration count as zero actual minutes.
+ *
+ * @param items - Agenda items, typically the completed items of a meeting
+ * @returns One entry per owner, the largest overrun first
+ */
+export function summarizeByOwner(items: AgendaItem[]): OwnerSummary[] {
+  const byOwner = new Map<string | undefined, OwnerSummary>();
+  for (const item of items) {
+    const summary = byOwner.get(item.owner) ?? {
+      owner: item.owner,
+      itemCount: 0,
+      totalEstimated: 0,
+      totalTimeBox: 0,
+      totalActual: 0,
+    };
+    summary.itemCount++;
+    summary.totalEstimated += item.estimatedMinutes;
+    summary.totalTimeBox += timeBox(item);
+    summary.totalActual += item.actualMinutes ?? 0;
+    byOwner.set(item.owner, summary);
+  }
+  return [...byOwner.values()].sort(
+    (a, b) => b.totalActual - b.totalTimeBox - (a.totalActual - a.totalTimeBox),
+  );
+}
+
+/**
+ * Extracts the metadata fields of a meeting.
+ *
+ * @param meeting - Saved meeting
+ * @returns Title, facilitator, participants and purpose (when set); the
+ *   scheduled times belong to the original occurrence and are not copied
+ */
+export function getMeetingDetails(meeting: Meeting): MeetingDetails {
+  const { title, facilitator, participants, purpose } = meeting;
+  return { title, facilitator, participants, purpose };
+}
+
+/**
+ * Splits a comma-separated participant list into trimmed names.
+ * Japanese commas (、) are accepted as separators too.
+ *
+ * @param text - Raw input, e.g. "Alice, Bob"
+ * @returns Non-empty names in input order
+ */
+export function parseParticipants(text: string): string[] {
+  return text
+    .split(/[,、]/)
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Copies a past meeting's agenda into fresh, untimed agenda items.
+ * Each item gets a new id and all timing state is cleared; owners are kept.
+ *
+ * @param meeting - Meeting to run again
+ * @param options.useActualsAsEstimates - Use each item's actual duration
+ *   (rounded to whole minutes, at least 1) as its new estimate
+ * @returns Agenda items ready for a new session
+ */
+export function cloneAgenda(
+  meeting: Meeting,
+  { useActualsAsEstimates = false }: { useActualsAsEstimates?: boolean } = {},
+): AgendaItem[] {
+  const now = Date.now();
+  return meeting.agendaItems.map((item, index) => ({
+    id: `${now}_${index}`,
+    name: item.name,
+    owner: item.owner,
+    fixed: item.fixed,
+    minimumMinutes: item.minimumMinutes,
+    isBreak: item.isBreak,
+    alerts: item.alerts,
+    estimatedMinutes:
+      useActualsAsEstimates && item.actualMinutes !== undefined
+        ? Math.max(1, Math.round(item.actualMinutes))
+        : item.estimatedMinutes,
+    isActive: false,
+    elapsedTime: 0,
+  }));
+}
+
+/**
+ * Copies the items a meeting left in the parking lot into fresh agenda items
+ * for the next meeting. Time already spent on them is not carried over.
+ * Items still on the current agenda because the meeting was reset after
+ * saving, and items already carried in from this meeting, are left out so
+ * they are not added twice. An agenda item that merely has the same name,
+ * like a recurring "Project update", does not count.
+ *
+ * @param meeting - Saved meeting
+ * @param agenda - Current agenda
+ * @returns Untimed items marked with the meeting they came from
+ */
+export function carryOverItems(
+  meeting: Meeting,
+  agenda: AgendaItem[] = [],
+): AgendaItem[] {
+  const now = Date.now();
+  const ids = new Set(agenda.map((item) => item.id));
+  const carriedNames = new Set(
+    agenda
+      .filter((item) => item.carriedFrom === meeting.id)
+      .map((item) => item.name),
+  );
+  return meeting.agendaItems
+    .filter(
+      (item) =>
+        item.status === "deferred" &&
+        !ids.has(item.id) &&
+        !carriedNames.has(item.name),
+    )
+    .map((item, index) => ({
+      id: `carried_${now}_${index}`,
+      name: item.name,
+      owner: item.owner,
+      estimatedMinutes: item.estimatedMinutes,
+      isActive: false,
+      elapsedTime: 0,
+      carriedFrom: meeting.id,
+    }));
+}
+
+/**
+ * Validates stored meeting history.
+ * Invalid entries are dropped individually so one corrupt meeting does not
+ * hide the rest of the history.
+ *
+ * @param data - Parsed JSON value read from storage
+ * @param onInvalid - Called with each rejected entry (defaults to a console warning)
+ * @returns Valid meetings in their original order
+ * @throws ZodError when the value is not an array at all
+ */
+export function parseMeetingHistory(
+  data: unknown,
+  onInvalid: (entry: unknown, error: z.ZodError) => void = (_, error) =>
+    console.warn("Skipping invalid meeting in history:", error),
+): Meeting[] {
+  const entries = z.array(z.unknown()).parse(data);
+  const meetings: Meeting[] = [];
+  for (const entry of entries) {
+    const result = meetingSchema.safeParse(entry);
+    if (result.success) {
+      meetings.push(result.data);
+    } else {
+      onInvalid(entry, result.error);
+    }
+  }
+  return meetings;
+}
@@ -0,0 +1,406 @@
+import { describe, expect, it } from "vitest";
+import { buildItem } from "../test/fixtures";
+import {
+  type MeetingFlowEvent,
+  type MeetingFlowState,
+  canTransition,
+  transition,
+} from "./meetingFlow";
+
+/**
+ * Test suite for the meeting flow state machine.
+ *
+ * Tests every event with a fixed clock, including:
+ * - start, pause, resume and complete
+ * - going back to completed items
+ * - skipping without recording a time
+ * - parking items and revisiting them
+ * - jumping to another item
+ * - extending the active item's time box
+ * - reordering
+ * - rejection of events that are not allowed
+ */
+describe("meetingFlow", () => {
+  const now = 1_000_000_000_000;
+  const minutes = (value: number) => value * 60000;
+
+  const idle: MeetingFlowState = {
+    agendaItems: [buildItem("a"), buildItem("b"), buildItem("c")],
+    isRunning: false,
+  };
+
+  const running: MeetingFlowState = {
+    agendaItems: [
+      buildItem("a", { actualMinutes: 8, elapsedTime: minutes(8) }),
+      buildItem("b", {
+        isActive: true,
+        startTime: now - minutes(3),
+        elapsedTime: minutes(2),
+      }),
+      buildItem("c"),
+    ],
+    isRunning: true,
+  };
+
+  const paused: MeetingFlowState = {
+    agendaItems: [
+      buildItem("a", { isActive: true, elapsedTime: minutes(4) }),
+      buildItem("b"),
+    ],
+    isRunning: false,
+  };
+
+  const activeId = (state: MeetingFlowState) =>
+    state.agendaItems.find((item) => item.isActive)?.id;
+
+  describe("start", () => {
+    it("should activate the first incomplete item", () => {
+      const state = transition(
+        {
+          ...idle,
+          agendaItems: [
+            buildItem("a", { actualMinutes: 5 }),
+            ...idle.agendaItems.slice(1),
+          ],
+        },
+        { type: "start" },
+        now,
+      );
+
+      expect(state.isRunning).toBe(true);
+      expect(activeId(state)).toBe("b");
+      expect(state.agendaItems[1].startTime).toBe(now);
+    });
+
+    it("should be rejected while running, paused or finished", () => {
+      const finished = {
+        agendaItems: [buildItem("a", { actualMinutes: 5 })],
+        isRunning: false,
+      };
+      for (const state of [running, paused, finished]) {
+        expect(transition(state, { type: "start" }, now)).toBe(state);
+      }
+    });
+  });
+
+  describe("pause and resume", () => {
+    it("should fold the running stretch into the elapsed time", () => {
+      const state = transition(running, { type: "pause" }, now);
+
+      expect(state.isRunning).toBe(false);
+      expect(state.agendaItems[1]).toMatchObject({
+        isActive: true,
+        startTime: undefined,
+        elapsedTime: minutes(5),
+      });
+    });
+
+    it("should restart the timer on the paused item", () => {
+      const state = transition(paused, { type: "resume" }, now);
+
+      expect(state.isRunning).toBe(true);
+      expect(state.agendaItems[0]).toMatchObject({
+        isActive: true,
+        startTime: now,
+        elapsedTime: minutes(4),
+      });
+    });
+
+    it("should reject pausing when not running", () => {
+      expect(transition(paused, { type: "pause" }, now)).toBe(paused);
+    });
+
+    it("should reject resuming without a paused item", () => {
+      expect(transition(idle, { type: "resume" }, now)).toBe(idle);
+      expect(transition(running, { type: "resume" }, now)).toBe(running);
+    });
+  });
+
+  describe("complete", () => {
+    it("should record the actual time and start the next item", () => {
+      const state = transition(running, { type: "complete" }, now);
+
+      expect(state.agendaItems[1]).toMatchObject({
+        isActive: false,
+        startTime: undefined,
+        actualMinutes: 5,
+      });
+      expect(activeId(state)).toBe("c");
+      expect(state.agendaItems[2].startTime).toBe(now);
+      expect(state.isRunning).toBe(true);
+    });
+
+    it("should round the actual time to a tenth of a minute", () => {
+      const state = transition(
+        {
+          ...paused,
+          agendaItems: [
+            buildItem("a", { isActive: true, elapsedTime: 100_000 }),
+          ],
+        },
+        { type: "complete" },
+        now,
+      );
+
+      expect(state.agendaItems[0].actualMinutes).toBe(1.7);
+    });
+
+    it("should stop the timer after the last item", () => {
+      const state = transition(
+        transition(running, { type: "complete" }, now),
+        { type: "complete" },
+        now + minutes(10),
+      );
+
+      expect(state.isRunning).toBe(false);
+      expect(activeId(state)).toBeUndefined();
+      expect(state.agendaItems[2].actualMinutes).toBe(10);
+    });
+
+    it("should not start the next item while paused", () => {
+      const state = transition(paused, { type: "complete" }, now);
+
+      expect(state.agendaItems[0].actualMinutes).toBe(4);
+      expect(activeId(state)).toBeUndefined();
+      expect(state.isRunning).toBe(false);
+    });
+
+    it("should be rejected without an active item", () => {
+      expect(transition(idle, { type: "complete" }, now)).toBe(idle);
+    });
+  });
+
+  describe("goBack", () => {
+    it("should reopen the previous item with its recorded time", () => {
+      const state = transition(running, { type: "goBack" }, now);
+
+      expect(state.agendaItems[0]).toMatchObject({
+        isActive: true,
+        startTime: now,
+        elapsedTime: minutes(8),
+        actualMinutes: undefined,
+      });
+      expect(state.agendaItems[1]).toMatchObject({
+        isActive: false,
+        startTime: undefined,
+        elapsedTime: minutes(5),
+      });
+      expect(state.isRunning).toBe(true);
+    });
+
+    it("should reopen the last completed item when nothing is active", () => {
+      const state = transition(
+        {
+          agendaItems: [
+            buildItem("a", { actualMinutes: 3 }),
+            buildItem("b", { actualMinutes: 6 }),
+            buildItem("c"),
+          ],
+          isRunning: false,
+        },
+        { type: "goBack" },
+        now,
+      );
+
+      expect(activeId(state)).toBe("b");
+      expect(state.agendaItems[1].elapsedTime).toBe(minutes(6));
+      expect(state.isRunning).toBe(true);
+    });
+
+    it("should be rejected on the first item or before anything is done", () => {
+      expect(transition(paused, { type: "goBack" }, now)).toBe(paused);
+      expect(transition(idle, { type: "goBack" }, now)).toBe(idle);
+    });
+  });
+
+  describe("skip", () => {
+    it("should move on without recording a time", () => {
+      const state = transition(running, { type: "skip" }, now);
+
+      expect(state.agendaItems[1]).toMatchObject({
+        isActive: false,
+        startTime: undefined,
+        elapsedTime: minutes(5),
+        status: "skipped",
+      });
+      expect(state.agendaItems[1].actualMinutes).toBeUndefined();
+      expect(activeId(state)).toBe("c");
+      expect(state.isRunning).toBe(true);
+    });
+
+    it("should be rejected without an active item", () => {
+      expect(transition(idle, { type: "skip" }, now)).toBe(idle);
+    });
+
+    it("should not start skipped items again", () => {
+      const skipped: MeetingFlowState = {
+        agendaItems: [buildItem("a", { status: "skipped" }), buildItem("b")],
+        isRunning: false,
+      };
+
+      expect(activeId(transition(skipped, { type: "start" }, now))).toBe("b");
+    });
+  });
+
+  describe("defer and revisit", () => {
+    const parked: MeetingFlowState = {
+      agendaItems: [
+        buildItem("a", { status: "deferred", elapsedTime: minutes(1) }),
+        buildItem("b", { actualMinutes: 5, elapsedTime: minutes(5) }),
+      ],
+      isRunning: false,
+    };
+
+    it("should park the active item and move on", () => {
+      const state = transition(running, { type: "defer" }, now);
+
+      expect(state.agendaItems[1]).toMatchObject({
+        isActive: false,
+        status: "deferred",
+      });
+      expect(state.agendaItems[1].actualMinutes).toBeUndefined();
+      expect(activeId(state)).toBe("c");
+    });
+
+    it("should finish the meeting when only parked items are left", () => {
+      expect(transition(parked, { type: "start" }, now)).toBe(parked);
+    });
+
+    it("should reopen a parked item where it left off", () => {
+      const state = transition(parked, { type: "revisit", index: 0 }, now);
+
+      expect(state.agendaItems[0]).toMatchObject({
+        isActive: true,
+        startTime: now,
+        elapsedTime: minutes(1),
+      });
+      expect(state.agendaItems[0].status).toBeUndefined();
+      expect(state.isRunning).toBe(true);
+    });
+
+    it("should only revisit parked items while nothing is active", () => {
+      expect(transition(parked, { type: "revisit", index: 1 }, now)).toBe(
+        parked,
+      );
+      expect(transition(running, { type: "revisit", index: 2 }, now)).toBe(
+        running,
+      );
+    });
+  });
+
+  describe("jump", () => {
+    it("should switch items and leave the active one pending", () => {
+      const state = transition(running, { type: "jump", index: 2 }, now);
+
+      expect(state.agendaItems[1]).toMatchObject({
+        isActive: false,
+        startTime: undefined,
+        elapsedTime: minutes(5),
+      });
+      expect(state.agendaItems[1].actualMinutes).toBeUndefined();
+      expect(state.agendaItems[2]).toMatchObject({
+        isActive: true,
+        startTime: now,
+      });
+      expect(state.isRunning).toBe(true);
+    });
+
+    it("should take up parked items and start a paused meeting", () => {
+      const parked: MeetingFlowState = {
+        agendaItems: [
+          buildItem("a", { isActive: true, elapsedTime: minutes(4) }),
+          buildItem("b", { status: "deferred" }),
+        ],
+        isRunning: false,
+      };
+      const state = transition(parked, { type: "jump", index: 1 }, now);
+
+      expect(activeId(state)).toBe("b");
+      expect(state.agendaItems[1].status).toBeUndefined();
+      expect(state.isRunning).toBe(true);
+    });
+
+    it("should reject the active, completed or a missing item", () => {
+      const rejected: MeetingFlowEvent[] = [
+        { type: "jump", index: 1 },
+        { type: "jump", index: 0 },
+        { type: "jump", index: 5 },
+      ];
+      for (const event of rejected) {
+        expect(transition(running, event, now)).toBe(running);
+      }
+    });
+  });
+
+  describe("extend", () => {
+    it("should add to the active item's time box and keep its estimate", () => {
+      const once = transition(running, { type: "extend", minutes: 5 }, now);
+      const twice = transition(once, { type: "extend", minutes: 1 }, now);
+
+      expect(twice.agendaItems[1]).toMatchObject({
+        estimatedMinutes: 10,
+        extendedMinutes: 6,
+        isActive: true,
+        startTime: now - minutes(3),
+      });
+      expect(twice.agendaItems[2].extendedMinutes).toBeUndefined();
+      expect(twice.isRunning).toBe(true);
+    });
+
+    it("should reject extending without an active item or by no time", () => {
+      expect(transition(idle, { type: "extend", minutes: 5 }, now)).toBe(idle);
+      expect(transition(running, { type: "extend", minutes: 0 }, now)).toBe(
+        running,
+      );
+    });
+  });
+
+  describe("reorder", () => {
+    it("should move an item to a new position", () => {
+      const state = transition(
+        idle,
+        { type: "reorder", fromIndex: 2, toIndex: 0 },
+        now,
+      );
+
+      expect(state.agendaItems.map((item) => item.id)).toEqual(["c", "a", "b"]);
+      expect(state.isRunning).toBe(false);
+    });
+
+    it("should reject moving the active item or invalid indices", () => {
+      const rejected: MeetingFlowEvent[] = [
+        { type: "reorder", fromIndex: 1, toIndex: 2 },
+        { type: "reorder", fromIndex: 0, toIndex: 0 },
+        { type: "reorder", fromIndex: 0, toIndex: 3 },
+        { type: "reorder", fromIndex: -1, toIndex: 1 },
+      ];
+      for (const event of rejected) {
+        expect(transition(running, event, now)).toBe(running);
+      }
+    });
+  });
+
+  describe("canTransition", () => {
+    it("should match the events transition accepts", () => {
+      const events: MeetingFlowEvent[] = [
+        { type: "start" },
+        { type: "pause" },
+        { type: "resume" },
+        { type: "complete" },
+        { type: "goBack" },
+        { type: "skip" },
+        { type: "defer" },
+        { type: "revisit", index: 0 },
+        { type: "jump", index: 1 },
+        { type: "extend", minutes: 1 },
+      ];
+      for (const state of [idle, running, paused]) {
+        for (const event of events) {
+          expect(canTransition(state, event)).toBe(
+            transition(state, event, now) !== state,
+          );
+        }
+      }
+    });
+  });
+});
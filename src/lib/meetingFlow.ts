@@ -0,0 +1,319 @@
+import type { AgendaItem } from "./meeting";
+
+/**
+ * Meeting flow state machine.
+ *
+ * Every change to which item is running goes through `transition`, a pure
+ * function of the current state, an event and the current time. Events that
+ * are not allowed in the current state are rejected by returning the state
+ * unchanged (the same object), so callers can tell nothing happened.
+ *
+ * States, as seen from the agenda:
+ * - idle: not running and no active item (before the start, or after skipping)
+ * - running: running with one active item counting up from its startTime
+ * - paused: not running, with an active item whose time is in elapsedTime
+ * - finished: every item has an actual time or was skipped or deferred
+ *
+ * Skipped items are passed over for good. Deferred items wait in the parking
+ * lot until they are revisited, or are carried into the next meeting. Jumping
+ * switches to any unfinished item and leaves the active one pending.
+ * Extending adds minutes to the active item's time box without touching its
+ * estimate.
+ */
+
+export interface MeetingFlowState {
+  agendaItems: AgendaItem[];
+  isRunning: boolean;
+}
+
+export type MeetingFlowEvent =
+  /** Activate the first pending item and start the timer */
+  | { type: "start" }
+  /** Stop the timer, keeping the active item */
+  | { type: "pause" }
+  /** Restart the timer on the paused active item */
+  | { type: "resume" }
+  /** Record the active item's actual time and move on to the next item */
+  | { type: "complete" }
+  /** Reopen the previous item and continue its time */
+  | { type: "goBack" }
+  /** Leave the active item without recording a time and move on */
+  | { type: "skip" }
+  /** Move the active item to the parking lot and move on */
+  | { type: "defer" }
+  /** Take up a parked item again */
+  | { type: "revisit"; index: number }
+  /** Switch to another unfinished item, leaving the active one pending */
+  | { type: "jump"; index: number }
+  /** Add minutes to the active item's time box */
+  | { type: "extend"; minutes: number }
+  /** Move an item that is not active to another position */
+  | { type: "reorder"; fromIndex: number; toIndex: number };
+
+const isComplete = (item: AgendaItem) => item.actualMinutes !== undefined;
+
+/** Not yet discussed, skipped or parked */
+const isPending = (item: AgendaItem) => !isComplete(item) && !item.status;
+
+/**
+ * Converts an elapsed time to the recorded actual minutes, rounded to a
+ * tenth of a minute.
+ */
+export function toActualMinutes(elapsed: number): number {
+  return Math.round((elapsed / 60000) * 10) / 10;
+}
+
+/**
+ * Elapsed time of an item at `now`, including the running stretch.
+ */
+function elapsedAt(item: AgendaItem, now: number): number {
+  return item.isActive && item.startTime
+    ? item.elapsedTime + (now - item.startTime)
+    : item.elapsedTime;
+}
+
+/**
+ * Index of the first pending item after `index`, or -1.
+ */
+function nextPendingIndex(items: AgendaItem[], index: number): number {
+  return items.findIndex((item, i) => i > index && isPending(item));
+}
+
+/**
+ * Checks whether an event is allowed in the current state.
+ *
+ * @param state - Current agenda and running flag
+ * @param event - Event to check
+ * @returns Whether transition would change the state
+ */
+export function canTransition(
+  { agendaItems, isRunning }: MeetingFlowState,
+  event: MeetingFlowEvent,
+): boolean {
+  const activeIndex = agendaItems.findIndex((item) => item.isActive);
+
+  switch (event.type) {
+    case "start":
+      return !isRunning && activeIndex === -1 && agendaItems.some(isPending);
+    case "pause":
+      return isRunning;
+    case "resume":
+      return !isRunning && activeIndex !== -1;
+    case "complete":
+    case "skip":
+    case "defer":
+      return activeIndex !== -1;
+    case "revisit":
+      return (
+        activeIndex === -1 && agendaItems[event.index]?.status === "deferred"
+      );
+    case "jump": {
+      const target = agendaItems[event.index];
+      return target !== undefined && !target.isActive && !isComplete(target);
+    }
+    case "extend":
+      return activeIndex !== -1 && event.minutes > 0;
+    case "goBack":
+      return activeIndex === -1
+        ? agendaItems.some(isComplete)
+        : activeIndex > 0;
+    case "reorder":
+      return (
+        event.fromIndex !== event.toIndex &&
+        event.fromIndex >= 0 &&
+        event.fromIndex < agendaItems.length &&
+        event.toIndex >= 0 &&
+        event.toIndex < agendaItems.length &&
+        !agendaItems[event.fromIndex].isActive
+      );
+  }
+}
+
+/**
+ * Leaves the active item: folds the running stretch into elapsedTime and
+ * activates the next pending item when the meeting is running. The timer
+ * stops when there is nothing left after it.
+ */
+function advance(
+  state: MeetingFlowState,
+  activeIndex: number,
+  leave: (item: AgendaItem, elapsed: number) => AgendaItem,
+  now: number,
+): MeetingFlowState {
+  const next = state.isRunning
+    ? nextPendingIndex(state.agendaItems, activeIndex)
+    : -1;
+  return {
+    agendaItems: state.agendaItems.map((item, index) => {
+      if (index === activeIndex) {
+        return leave(item, elapsedAt(item, now));
+      }
+      if (index === next) {
+        return { ...item, isActive: true, startTime: now };
+      }
+      return item;
+    }),
+    isRunning: next !== -1,
+  };
+}
+
+/**
+ * Applies an event to the meeting flow.
+ *
+ * @param state - Current agenda and running flag
+ * @param event - Event to apply
+ * @param now - Current timestamp in milliseconds
+ * @returns The next state, or the same state object if the event is not allowed
+ */
+export function transition(
+  state: MeetingFlowState,
+  event: MeetingFlowEvent,
+  now: number,
+): MeetingFlowState {
+  if (!canTransition(state, event)) return state;
+
+  const { agendaItems } = state;
+  const activeIndex = agendaItems.findIndex((item) => item.isActive);
+
+  switch (event.type) {
+    case "start": {
+      const target = agendaItems.findIndex(isPending);
+      return {
+        agendaItems: agendaItems.map((item, index) => ({
+          ...item,
+          isActive: index === target,
+          startTime: index === target ? now : undefined,
+        })),
+        isRunning: true,
+      };
+    }
+
+    case "pause":
+      return {
+        agendaItems: agendaItems.map((item) =>
+          item.isActive
+            ? {
+                ...item,
+                elapsedTime: elapsedAt(item, now),
+                startTime: undefined,
+              }
+            : item,
+        ),
+        isRunning: false,
+      };
+
+    case "resume":
+      return {
+        agendaItems: agendaItems.map((item, index) =>
+          index === activeIndex ? { ...item, startTime: now } : item,
+        ),
+        isRunning: true,
+      };
+
+    case "complete":
+      return advance(
+        state,
+        activeIndex,
+        (item, elapsed) => ({
+          ...item,
+          isActive: false,
+          startTime: undefined,
+          elapsedTime: elapsed,
+          actualMinutes: toActualMinutes(elapsed),
+        }),
+        now,
+      );
+
+    case "skip":
+    case "defer":
+      return advance(
+        state,
+        activeIndex,
+        (item, elapsed) => ({
+          ...item,
+          isActive: false,
+          startTime: undefined,
+          elapsedTime: elapsed,
+          status: event.type === "skip" ? "skipped" : "deferred",
+        }),
+        now,
+      );
+
+    case "revisit":
+      return {
+        agendaItems: agendaItems.map((item, index) =>
+          index === event.index
+            ? { ...item, isActive: true, startTime: now, status: undefined }
+            : item,
+        ),
+        isRunning: true,
+      };
+
+    case "jump":
+      return {
+        agendaItems: agendaItems.map((item, index) =>
+          index === event.index
+            ? { ...item, isActive: true, startTime: now, status: undefined }
+            : {
+                ...item,
+                isActive: false,
+                startTime: undefined,
+                elapsedTime: elapsedAt(item, now),
+              },
+        ),
+        isRunning: true,
+      };
+
+    case "extend":
+      return {
+        ...state,
+        agendaItems: agendaItems.map((item, index) =>
+          index === activeIndex
+            ? {
+                ...item,
+                extendedMinutes: (item.extendedMinutes ?? 0) + event.minutes,
+              }
+            : item,
+        ),
+      };
+
+    case "goBack": {
+      const target =
+        activeIndex === -1
+          ? agendaItems.map(isComplete).lastIndexOf(true)
+          : activeIndex - 1;
+      return {
+        agendaItems: agendaItems.map((item, index) => {
+          if (index === target) {
+            // Continue from the recorded time
+            return {
+              ...item,
+              isActive: true,
+              startTime: now,
+              elapsedTime:
+                item.actualMinutes !== undefined
+                  ? item.actualMinutes * 60000
+                  : item.elapsedTime,
+              actualMinutes: undefined,
+              status: undefined,
+            };
+          }
+          return {
+            ...item,
+            isActive: false,
+            startTime: undefined,
+            elapsedTime: elapsedAt(item, now),
+          };
+        }),
+        isRunning: true,
+      };
+    }
+
+    case "reorder": {
+      const items = [...agendaItems];
+      const [moved] = items.splice(event.fromIndex, 1);
+      items.splice(event.toIndex, 0, moved);
+      return { ...state, agendaItems: items };
+    }
+  }
+}
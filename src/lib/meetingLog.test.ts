@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import { buildItem } from "../test/fixtures";
+import type { MeetingEvent } from "./meeting";
+import {
+  type MeetingFlowEvent,
+  type MeetingFlowState,
+  transition,
+} from "./meetingFlow";
+import {
+  pausePeriods,
+  recordTransition,
+  replayEvents,
+  totalPausedTime,
+} from "./meetingLog";
+
+/**
+ * Test suite for the meeting event log.
+ *
+ * Tests recording and replay including:
+ * - the items named by each recorded event
+ * - replayed timings matching the state machine
+ * - exact pause accounting
+ * - skipped, parked and revisited items
+ * - estimate edits, extensions and unknown items
+ * - pause periods and total paused time
+ */
+describe("meetingLog", () => {
+  const now = 1_000_000_000_000;
+  const minutes = (value: number) => value * 60000;
+
+  const agenda = [buildItem("a"), buildItem("b"), buildItem("c")];
+
+  /**
+   * Runs events through the state machine, recording the log on the way.
+   */
+  const run = (steps: [MeetingFlowEvent, number][]) => {
+    let state: MeetingFlowState = { agendaItems: agenda, isRunning: false };
+    const log: MeetingEvent[] = [];
+    for (const [event, at] of steps) {
+      const next = transition(state, event, at);
+      if (next !== state) log.push(recordTransition(state, next, event, at));
+      state = next;
+    }
+    return { state, log };
+  };
+
+  describe("recordTransition", () => {
+    it("should name the item left and the item activated", () => {
+      const { log } = run([
+        [{ type: "start" }, now],
+        [{ type: "pause" }, now + minutes(1)],
+        [{ type: "resume" }, now + minutes(2)],
+        [{ type: "complete" }, now + minutes(3)],
+        [{ type: "goBack" }, now + minutes(4)],
+      ]);
+
+      expect(log).toEqual([
+        { type: "start", at: now, itemId: undefined, nextItemId: "a" },
+        {
+          type: "pause",
+          at: now + minutes(1),
+          itemId: "a",
+          nextItemId: undefined,
+        },
+        {
+          type: "resume",
+          at: now + minutes(2),
+          itemId: "a",
+          nextItemId: undefined,
+        },
+        {
+          type: "complete",
+          at: now + minutes(3),
+          itemId: "a",
+          nextItemId: "b",
+        },
+        { type: "goBack", at: now + minutes(4), itemId: "b", nextItemId: "a" },
+      ]);
+    });
+
+    it("should record the moved item and its new position", () => {
+      const { log } = run([
+        [{ type: "reorder", fromIndex: 2, toIndex: 0 }, now],
+      ]);
+
+      expect(log).toEqual([
+        { type: "reorder", at: now, itemId: "c", toIndex: 0 },
+      ]);
+    });
+  });
+
+  describe("replayEvents", () => {
+    it("should rebuild the timings left by the state machine", () => {
+      const { state, log } = run([
+        [{ type: "start" }, now],
+        [{ type: "complete" }, now + minutes(4)],
+        [{ type: "pause" }, now + minutes(6)],
+        [{ type: "resume" }, now + minutes(9)],
+        [{ type: "skip" }, now + minutes(10)],
+        [{ type: "goBack" }, now + minutes(11)],
+        [{ type: "complete" }, now + minutes(12)],
+        [{ type: "complete" }, now + minutes(15)],
+      ]);
+
+      expect(replayEvents(agenda, log)).toEqual(state.agendaItems);
+    });
+
+    it("should rebuild parked and revisited items", () => {
+      const { state, log } = run([
+        [{ type: "start" }, now],
+        [{ type: "defer" }, now + minutes(2)],
+        [{ type: "skip" }, now + minutes(3)],
+        [{ type: "complete" }, now + minutes(8)],
+        [{ type: "revisit", index: 0 }, now + minutes(10)],
+      ]);
+
+      expect(replayEvents(agenda, log)).toEqual(state.agendaItems);
+      expect(state.agendaItems.map((item) => item.status)).toEqual([
+        undefined,
+        "skipped",
+        undefined,
+      ]);
+    });
+
+    it("should leave paused time out of the item's time", () => {
+      const { log } = run([
+        [{ type: "start" }, now],
+        [{ type: "pause" }, now + minutes(2)],
+        [{ type: "resume" }, now + minutes(12)],
+        [{ type: "complete" }, now + minutes(15)],
+      ]);
+
+      expect(replayEvents(agenda, log)[0]).toMatchObject({
+        actualMinutes: 5,
+        elapsedTime: minutes(5),
+      });
+    });
+
+    it("should replay the active item of a running meeting", () => {
+      const { state, log } = run([
+        [{ type: "start" }, now],
+        [{ type: "complete" }, now + minutes(4)],
+      ]);
+
+      expect(replayEvents(agenda, log)[1]).toEqual(state.agendaItems[1]);
+      expect(replayEvents(agenda, log)[1]).toMatchObject({
+        isActive: true,
+        startTime: now + minutes(4),
+      });
+    });
+
+    it("should apply estimate edits", () => {
+      const items = replayEvents(agenda, [
+        { type: "editEstimate", at: now, itemId: "b", estimatedMinutes: 25 },
+      ]);
+
+      expect(items.map((item) => item.estimatedMinutes)).toEqual([10, 25, 10]);
+    });
+
+    it("should add up extensions apart from the estimate", () => {
+      const { state, log } = run([
+        [{ type: "start" }, now],
+        [{ type: "extend", minutes: 5 }, now + minutes(9)],
+        [{ type: "extend", minutes: 1 }, now + minutes(14)],
+        [{ type: "complete" }, now + minutes(16)],
+      ]);
+
+      expect(log[1]).toEqual({
+        type: "extend",
+        at: now + minutes(9),
+        itemId: "a",
+        minutes: 5,
+      });
+      expect(replayEvents(agenda, log)).toEqual(state.agendaItems);
+      expect(replayEvents(agenda, log)[0]).toMatchObject({
+        estimatedMinutes: 10,
+        extendedMinutes: 6,
+        actualMinutes: 16,
+      });
+    });
+
+    it("should ignore events for items that are not in the list", () => {
+      const items = replayEvents(agenda, [
+        { type: "start", at: now, nextItemId: "removed" },
+        { type: "complete", at: now + minutes(5), itemId: "removed" },
+      ]);
+
+      expect(items).toEqual(agenda);
+    });
+  });
+
+  describe("pauses", () => {
+    it("should read pauses until the clock starts again", () => {
+      const { log } = run([
+        [{ type: "start" }, now],
+        [{ type: "pause" }, now + minutes(5)],
+        [{ type: "resume" }, now + minutes(15)],
+        [{ type: "pause" }, now + minutes(20)],
+        [{ type: "complete" }, now + minutes(21)],
+        [{ type: "start" }, now + minutes(25)],
+        [{ type: "pause" }, now + minutes(30)],
+      ]);
+
+      expect(pausePeriods(log)).toEqual([
+        { start: now + minutes(5), end: now + minutes(15) },
+        { start: now + minutes(20), end: now + minutes(25) },
+        { start: now + minutes(30) },
+      ]);
+      expect(totalPausedTime(log, now + minutes(32))).toBe(minutes(17));
+    });
+
+    it("should not count the time after the last item as a pause", () => {
+      const { log } = run([
+        [{ type: "start" }, now],
+        [{ type: "complete" }, now + minutes(5)],
+        [{ type: "complete" }, now + minutes(10)],
+        [{ type: "complete" }, now + minutes(15)],
+        [{ type: "goBack" }, now + minutes(30)],
+      ]);
+
+      expect(totalPausedTime(log, now + minutes(40))).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import type { AgendaItem, MeetingEvent } from "./meeting";
+import {
+  type MeetingFlowEvent,
+  type MeetingFlowState,
+  toActualMinutes,
+} from "./meetingFlow";
+
+/**
+ * Append-only meeting log.
+ *
+ * Every accepted flow transition is recorded as a timestamped event that
+ * names items by id, so the log stays meaningful when items are added,
+ * removed or reordered later. Replaying the log over the agenda rebuilds
+ * each item's timings; pauses are exact because every pause and resume is
+ * in the log.
+ */
+
+/**
+ * A stretch of time during which the meeting was paused.
+ * end is missing while the pause is still going on.
+ */
+interface PausePeriod {
+  start: number;
+  end?: number;
+}
+
+const activeItemId = (state: MeetingFlowState) =>
+  state.agendaItems.find((item) => item.isActive)?.id;
+
+/**
+ * Describes an accepted transition as a log event.
+ *
+ * @param previous - State before the transition
+ * @param next - State after the transition
+ * @param event - Event that was applied
+ * @param at - Timestamp of the transition in milliseconds
+ * @returns Event to append to the log
+ */
+export function recordTransition(
+  previous: MeetingFlowState,
+  next: MeetingFlowState,
+  event: MeetingFlowEvent,
+  at: number,
+): MeetingEvent {
+  if (event.type === "reorder") {
+    return {
+      type: "reorder",
+      at,
+      itemId: previous.agendaItems[event.fromIndex]?.id,
+      toIndex: event.toIndex,
+    };
+  }
+  if (event.type === "extend") {
+    return {
+      type: "extend",
+      at,
+      itemId: activeItemId(previous),
+      minutes: event.minutes,
+    };
+  }
+
+  const itemId = activeItemId(previous);
+  const nextItemId = activeItemId(next);
+  return {
+    type: event.type,
+    at,
+    itemId,
+    nextItemId: nextItemId !== itemId ? nextItemId : undefined,
+  };
+}
+
+/**
+ * Rebuilds item timings and estimates by replaying a log.
+ * The order and every other field come from the given items; events for
+ * items that are not in the list are ignored.
+ *
+ * @param items - Agenda items to replay onto
+ * @param events - Log in the order it was recorded
+ * @returns Items with isActive, startTime, elapsedTime, actualMinutes,
+ *   status, estimatedMinutes and extendedMinutes as the log left them
+ */
+export function replayEvents(
+  items: AgendaItem[],
+  events: MeetingEvent[],
+): AgendaItem[] {
+  const byId = new Map(
+    items.map((item): [string, AgendaItem] => [
+      item.id,
+      {
+        ...item,
+        isActive: false,
+        startTime: undefined,
+        elapsedTime: 0,
+        actualMinutes: undefined,
+        status: undefined,
+        extendedMinutes: undefined,
+      },
+    ]),
+  );
+
+  const update = (
+    id: string | undefined,
+    change: (item: AgendaItem) => Partial<AgendaItem>,
+  ) => {
+    const item = id !== undefined && byId.get(id);
+    if (item) byId.set(item.id, { ...item, ...change(item) });
+  };
+  // Folds the running stretch into elapsedTime and stops the clock
+  const stop = (item: AgendaItem, at: number) => ({
+    elapsedTime: item.startTime
+      ? item.elapsedTime + (at - item.startTime)
+      : item.elapsedTime,
+    startTime: undefined,
+  });
+
+  for (const event of events) {
+    switch (event.type) {
+      case "pause":
+        update(event.itemId, (item) => stop(item, event.at));
+        break;
+      case "resume":
+        update(event.itemId, () => ({ startTime: event.at }));
+        break;
+      case "editEstimate":
+        if (event.estimatedMinutes !== undefined) {
+          const { estimatedMinutes } = event;
+          update(event.itemId, () => ({ estimatedMinutes }));
+        }
+        break;
+      case "extend":
+        if (event.minutes !== undefined) {
+          const { minutes } = event;
+          update(event.itemId, (item) => ({
+            extendedMinutes: (item.extendedMinutes ?? 0) + minutes,
+          }));
+        }
+        break;
+      case "reorder":
+        // Order comes from the items
+        break;
+      default:
+        update(event.itemId, (item) => {
+          const stopped = stop(item, event.at);
+          return {
+            ...stopped,
+            isActive: false,
+            actualMinutes:
+              event.type === "complete"
+                ? toActualMinutes(stopped.elapsedTime)
+                : item.actualMinutes,
+            status:
+              event.type === "skip"
+                ? "skipped"
+                : event.type === "defer"
+                  ? "deferred"
+                  : item.status,
+          };
+        });
+        update(event.nextItemId, (item) => ({
+          isActive: true,
+          startTime: event.at,
+          status: undefined,
+          // Going back continues from the recorded time
+          ...(item.actualMinutes !== undefined && {
+            elapsedTime: item.actualMinutes * 60000,
+            actualMinutes: undefined,
+          }),
+        }));
+    }
+  }
+
+  return items.map((item) => byId.get(item.id) ?? item);
+}
+
+/**
+ * Reads the pauses out of a log. A pause lasts from a pause event until the
+ * clock starts again (resume, start, go back, revisit or jump); finishing the
+ * last item is not a pause.
+ *
+ * @param events - Log in the order it was recorded
+ * @returns Pauses in order, the last one open if the meeting is still paused
+ */
+export function pausePeriods(events: MeetingEvent[]): PausePeriod[] {
+  const periods: PausePeriod[] = [];
+  let current: PausePeriod | undefined;
+  for (const event of events) {
+    if (event.type === "pause" && !current) {
+      current = { start: event.at };
+      periods.push(current);
+    } else if (
+      current &&
+      (event.type === "resume" ||
+        event.type === "start" ||
+        event.type === "goBack" ||
+        event.type === "revisit" ||
+        event.type === "jump")
+    ) {
+      current.end = event.at;
+      current = undefined;
+    }
+  }
+  return periods;
+}
+
+/**
+ * Total time the meeting spent paused.
+ *
+ * @param events - Log in the order it was recorded
+ * @param now - End of an ongoing pause, in milliseconds
+ * @returns Paused time in milliseconds
+ */
+export function totalPausedTime(events: MeetingEvent[], now: number): number {
+  return pausePeriods(events).reduce(
+    (sum, period) => sum + Math.max(0, (period.end ?? now) - period.start),
+    0,
+  );
+}
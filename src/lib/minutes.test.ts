@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import type { Meeting } from "./meeting";
+import { meetingToMarkdown, minutesFileName } from "./minutes";
+
+/**
+ * Test suite for Markdown minutes export.
+ *
+ * Tests the generated document including:
+ * - meeting details and the agenda table with totals
+ * - per-item notes, decisions and action items
+ */
+describe("minutes", () => {
+  // Echo translation keys so assertions don't depend on the language
+  const t = (key: string) => key;
+
+  const meeting: Meeting = {
+    id: "m1",
+    date: "2021-01-01T09:00:00.000Z",
+    title: "Weekly sync",
+    facilitator: "Sato",
+    participants: ["Sato", "Suzuki"],
+    agendaItems: [
+      {
+        id: "i1",
+        name: "Status | blockers",
+        owner: "Suzuki",
+        estimatedMinutes: 10,
+        actualMinutes: 12.5,
+        isActive: false,
+        elapsedTime: 750000,
+        notes: "Build is flaky",
+        decisions: ["Pin the runner image"],
+        actionItems: [
+          {
+            id: "a1",
+            text: "Fix CI",
+            assignee: "Suzuki",
+            dueDate: "2021-01-08",
+          },
+        ],
+      },
+      {
+        id: "i2",
+        name: "Planning",
+        estimatedMinutes: 20,
+        actualMinutes: 15,
+        isActive: false,
+        elapsedTime: 900000,
+      },
+    ],
+  };
+
+  it("should include the meeting details", () => {
+    const markdown = meetingToMarkdown(meeting, t);
+
+    expect(markdown.startsWith("# Weekly sync\n")).toBe(true);
+    expect(markdown).toContain("- **details.facilitator:** Sato");
+    expect(markdown).toContain("- **details.participants:** Sato, Suzuki");
+  });
+
+  it("should render the agenda table with differences and totals", () => {
+    const markdown = meetingToMarkdown(meeting, t);
+
+    expect(markdown).toContain(
+      "| 1 | Status \\| blockers | Suzuki | 10:00 | 12:30 | +2:30 |",
+    );
+    expect(markdown).toContain("| 2 | Planning |  | 20:00 | 15:00 | 5:00 |");
+    expect(markdown).toContain(
+      "| | **minutes.total** | | 30:00 | 27:30 | 2:30 |",
+    );
+  });
+
+  it("should list extensions next to the planned time and not count them as overrun", () => {
+    const extended: Meeting = {
+      ...meeting,
+      agendaItems: [{ ...meeting.agendaItems[0], extendedMinutes: 2 }],
+    };
+    const markdown = meetingToMarkdown(extended, t);
+
+    expect(markdown).toContain(
+      "| 1 | Status \\| blockers | Suzuki | 10:00 (+2:00) | 12:30 | +0:30 |",
+    );
+    expect(markdown).toContain(
+      "| | **minutes.total** | | 10:00 (+2:00) | 12:30 | +0:30 |",
+    );
+  });
+
+  it("should add sections only for items with minutes", () => {
+    const markdown = meetingToMarkdown(meeting, t);
+
+    expect(markdown).toContain("## 1. Status | blockers\n\nBuild is flaky");
+    expect(markdown).toContain("- Pin the runner image");
+    expect(markdown).toContain("- [ ] Fix CI (@Suzuki, 2021-01-08)");
+    expect(markdown).not.toContain("## 2. Planning");
+  });
+
+  it("should fall back to a generic title", () => {
+    const markdown = meetingToMarkdown({ ...meeting, title: undefined }, t);
+
+    expect(markdown.startsWith("# minutes.title\n")).toBe(true);
+  });
+
+  it("should name the file after the local meeting date", () => {
+    // Just after local midnight, when the UTC date may still be the day before
+    const date = new Date(2021, 0, 2, 0, 30).toISOString();
+
+    expect(minutesFileName({ ...meeting, date })).toBe("minutes-2021-01-02.md");
+  });
+});
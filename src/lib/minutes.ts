@@ -0,0 +1,123 @@
+import {
+  type ActionItem,
+  type Meeting,
+  hasItemMinutes,
+  summarizeMeeting,
+  timeBox,
+} from "./meeting";
+import { formatTime, getTimeDifference, localDateStamp } from "./time";
+
+/**
+ * Escapes characters that would break a Markdown table cell.
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Formats planned minutes, with any extensions listed next to the estimate.
+ */
+function plannedTime(estimated: number, extended?: number): string {
+  return extended
+    ? `${formatTime(estimated)} (+${formatTime(extended)})`
+    : formatTime(estimated);
+}
+
+/**
+ * Formats an action item as a Markdown task list entry.
+ */
+function formatActionItem(actionItem: ActionItem): string {
+  const details = [
+    actionItem.assignee && `@${actionItem.assignee}`,
+    actionItem.dueDate,
+  ].filter(Boolean);
+  return `- [ ] ${actionItem.text}${details.length ? ` (${details.join(", ")})` : ""}`;
+}
+
+/**
+ * Renders a saved meeting as Markdown minutes.
+ *
+ * The document has the meeting details, an agenda table with estimated vs
+ * actual time and the difference for each item plus totals, and a section
+ * per item with its notes, decisions and action items (items without any
+ * are skipped).
+ *
+ * @param meeting - Meeting to export
+ * @param t - Translation function used for headings and labels
+ * @returns Markdown document ending with a newline
+ */
+export function meetingToMarkdown(
+  meeting: Meeting,
+  t: (key: string) => string,
+): string {
+  const { totalEstimated, totalTimeBox, totalActual } =
+    summarizeMeeting(meeting);
+  const lines: string[] = [
+    `# ${meeting.title || t("minutes.title")}`,
+    "",
+    `- **${t("minutes.date")}:** ${new Date(meeting.date).toLocaleString()}`,
+  ];
+
+  if (meeting.facilitator) {
+    lines.push(`- **${t("details.facilitator")}:** ${meeting.facilitator}`);
+  }
+  if (meeting.participants?.length) {
+    lines.push(
+      `- **${t("details.participants")}:** ${meeting.participants.join(", ")}`,
+    );
+  }
+  if (meeting.purpose) {
+    lines.push(`- **${t("details.purpose")}:** ${meeting.purpose}`);
+  }
+
+  lines.push(
+    "",
+    `## ${t("minutes.agenda")}`,
+    "",
+    `| # | ${t("table.topicName")} | ${t("table.owner")} | ${t("table.estimated")} | ${t("table.actual")} | ${t("table.difference")} |`,
+    "|---|---|---|---|---|---|",
+  );
+  meeting.agendaItems.forEach((item, index) => {
+    const actual = item.actualMinutes ?? 0;
+    // Skipped and parked items were not discussed; extensions are no overrun
+    const timing = item.status
+      ? `${t(`agenda.${item.status}`)} | —`
+      : `${formatTime(actual)} | ${getTimeDifference(timeBox(item), actual)}`;
+    const planned = plannedTime(item.estimatedMinutes, item.extendedMinutes);
+    lines.push(
+      `| ${index + 1} | ${escapeCell(item.name)} | ${escapeCell(item.owner ?? "")} | ${planned} | ${timing} |`,
+    );
+  });
+  lines.push(
+    `| | **${t("minutes.total")}** | | ${plannedTime(totalEstimated, totalTimeBox - totalEstimated)} | ${formatTime(totalActual)} | ${getTimeDifference(totalTimeBox, totalActual)} |`,
+  );
+
+  meeting.agendaItems.forEach((item, index) => {
+    if (!hasItemMinutes(item)) return;
+    lines.push("", `## ${index + 1}. ${item.name}`);
+    if (item.notes?.trim()) {
+      lines.push("", item.notes.trim());
+    }
+    if (item.decisions?.length) {
+      lines.push("", `### ${t("notes.decisions")}`, "");
+      for (const decision of item.decisions) {
+        lines.push(`- ${decision}`);
+      }
+    }
+    if (item.actionItems?.length) {
+      lines.push("", `### ${t("notes.actionItems")}`, "");
+      for (const actionItem of item.actionItems) {
+        lines.push(formatActionItem(actionItem));
+      }
+    }
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Suggested file name for a meeting's minutes, e.g. `minutes-2021-01-01.md`.
+ */
+export function minutesFileName(meeting: Meeting): string {
+  return `minutes-${localDateStamp(new Date(meeting.date))}.md`;
+}
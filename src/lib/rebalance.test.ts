@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { buildItem } from "../test/fixtures";
+import type { AgendaItem } from "./meeting";
+import { rebalanceAgenda } from "./rebalance";
+
+/**
+ * Test suite for fixed end-time rebalancing.
+ *
+ * Tests budget computation including:
+ * - proportional shrinking of pending items
+ * - fixed items and per-item minimums
+ * - stable budgets while the active item is within its budget
+ * - shrinking after the active item overruns
+ */
+describe("rebalanceAgenda", () => {
+  const now = 1_000_000_000_000;
+  const minutes = (value: number) => value * 60000;
+
+  const getElapsed = (item: AgendaItem) =>
+    item.isActive && item.startTime
+      ? item.elapsedTime + (now - item.startTime)
+      : item.elapsedTime;
+
+  const budgetsOf = (items: AgendaItem[], minutesLeft: number) =>
+    Object.fromEntries(
+      rebalanceAgenda(items, now, now + minutes(minutesLeft), getElapsed),
+    );
+
+  it("should keep the estimates when the agenda fits", () => {
+    expect(
+      budgetsOf(
+        [
+          buildItem("a", { estimatedMinutes: 10 }),
+          buildItem("b", { estimatedMinutes: 20 }),
+        ],
+        40,
+      ),
+    ).toEqual({
+      a: 10,
+      b: 20,
+    });
+  });
+
+  it("should shrink pending items proportionally", () => {
+    expect(
+      budgetsOf(
+        [
+          buildItem("a", { estimatedMinutes: 10 }),
+          buildItem("b", { estimatedMinutes: 30 }),
+        ],
+        20,
+      ),
+    ).toEqual({
+      a: 5,
+      b: 15,
+    });
+  });
+
+  it("should ignore completed items", () => {
+    expect(
+      budgetsOf(
+        [
+          buildItem("done", { estimatedMinutes: 10, actualMinutes: 15 }),
+          buildItem("a", { estimatedMinutes: 10 }),
+        ],
+        5,
+      ),
+    ).toEqual({ a: 5 });
+  });
+
+  it("should keep fixed items at their estimate", () => {
+    expect(
+      budgetsOf(
+        [
+          buildItem("a", { estimatedMinutes: 10, fixed: true }),
+          buildItem("b", { estimatedMinutes: 10 }),
+          buildItem("c", { estimatedMinutes: 10 }),
+        ],
+        20,
+      ),
+    ).toEqual({ a: 10, b: 5, c: 5 });
+  });
+
+  it("should not shrink items below their minimum", () => {
+    expect(
+      budgetsOf(
+        [
+          buildItem("a", { estimatedMinutes: 10, minimumMinutes: 8 }),
+          buildItem("b", { estimatedMinutes: 10 }),
+        ],
+        10,
+      ),
+    ).toEqual({ a: 8, b: 2 });
+  });
+
+  it("should use one-minute minimums when time runs out", () => {
+    expect(
+      budgetsOf(
+        [
+          buildItem("a", { estimatedMinutes: 10 }),
+          buildItem("b", { estimatedMinutes: 5 }),
+        ],
+        0,
+      ),
+    ).toEqual({
+      a: 1,
+      b: 1,
+    });
+  });
+
+  it("should leave skipped and parked items out of the time left", () => {
+    const items = [
+      buildItem("a", {
+        estimatedMinutes: 10,
+        isActive: true,
+        startTime: now - minutes(5),
+      }),
+      buildItem("s", { estimatedMinutes: 30, status: "skipped" }),
+      buildItem("p", { estimatedMinutes: 30, status: "deferred" }),
+      buildItem("b", { estimatedMinutes: 10 }),
+    ];
+
+    expect(budgetsOf(items, 20)).toEqual({ a: 10, b: 10 });
+  });
+
+  it("should keep budgets while the active item is within its budget", () => {
+    const items = [
+      buildItem("a", {
+        estimatedMinutes: 10,
+        isActive: true,
+        startTime: now - minutes(4),
+      }),
+      buildItem("b", { estimatedMinutes: 30 }),
+    ];
+
+    // 4 of the original 24 minutes left have been spent on the active item
+    expect(budgetsOf(items, 20)).toEqual({ a: 6, b: 18 });
+  });
+
+  it("should shrink pending items once the active item overruns", () => {
+    const items = [
+      buildItem("a", {
+        estimatedMinutes: 10,
+        isActive: true,
+        startTime: now - minutes(8),
+      }),
+      buildItem("b", { estimatedMinutes: 30 }),
+    ];
+
+    // Active budget was 6 minutes; the 2-minute overrun comes out of b
+    expect(budgetsOf(items, 16)).toEqual({ a: 6, b: 16 });
+  });
+});
@@ -0,0 +1,107 @@
+import { type AgendaItem, timeBox } from "./meeting";
+
+/**
+ * Fixed end-time rebalancing.
+ *
+ * When a meeting has a hard end time, the budgets of the items that have not
+ * finished yet are shrunk proportionally so that they fit into the time left.
+ * Items marked `fixed` keep their time box (estimate plus extensions), and no
+ * item goes below its `minimumMinutes` (1 minute by default). Budgets are
+ * never stretched above the time boxes. Skipped and parked items get no
+ * budget.
+ *
+ * Budgets are derived on every tick instead of being stored: while the
+ * active item is within its budget, time spent on it comes out of the time
+ * left, so every budget stays the same. Once it overruns, the overrun is
+ * taken from the pending items.
+ */
+
+/** Minimum budget of items without an explicit minimum */
+const DEFAULT_MINIMUM_MINUTES = 1;
+
+/**
+ * Distributes a pool of minutes over items in proportion to their time boxes.
+ * Fixed items get their time box first; items whose share would fall below
+ * their minimum are pinned there and the rest is shared again.
+ */
+function allocate(items: AgendaItem[], poolMinutes: number) {
+  const budgets = new Map<string, number>();
+  const flexible = items.filter((item) => !item.fixed);
+  let pool = poolMinutes;
+
+  for (const item of items) {
+    if (item.fixed) {
+      budgets.set(item.id, timeBox(item));
+      pool -= timeBox(item);
+    }
+  }
+
+  const totalFlexible = flexible.reduce((sum, item) => sum + timeBox(item), 0);
+  if (totalFlexible <= pool) {
+    for (const item of flexible) budgets.set(item.id, timeBox(item));
+    return budgets;
+  }
+
+  const minimum = (item: AgendaItem) =>
+    Math.min(item.minimumMinutes ?? DEFAULT_MINIMUM_MINUTES, timeBox(item));
+  let free = flexible;
+  let pinned: AgendaItem[] = [];
+  for (;;) {
+    const available =
+      pool - pinned.reduce((sum, item) => sum + minimum(item), 0);
+    const totalFree = free.reduce((sum, item) => sum + timeBox(item), 0);
+    const scale = totalFree > 0 ? Math.max(available, 0) / totalFree : 0;
+    const belowMinimum = free.filter(
+      (item) => timeBox(item) * scale < minimum(item),
+    );
+    if (belowMinimum.length === 0) {
+      for (const item of free) {
+        budgets.set(item.id, timeBox(item) * scale);
+      }
+      break;
+    }
+    pinned = [...pinned, ...belowMinimum];
+    free = free.filter((item) => !belowMinimum.includes(item));
+  }
+  for (const item of pinned) budgets.set(item.id, minimum(item));
+
+  return budgets;
+}
+
+/**
+ * Computes the budgets of the active and pending items for a meeting that
+ * must end at a fixed time.
+ *
+ * @param items - Agenda items in order
+ * @param now - Current timestamp in milliseconds
+ * @param endTime - Hard end of the meeting in milliseconds
+ * @param getElapsed - Current elapsed time of an item in milliseconds
+ * @returns Budget in minutes by item id, for items without an actual time
+ *   that were not skipped or parked
+ */
+export function rebalanceAgenda(
+  items: AgendaItem[],
+  now: number,
+  endTime: number,
+  getElapsed: (item: AgendaItem) => number,
+): Map<string, number> {
+  const remaining = Math.max(0, endTime - now) / 60000;
+  const active = items.find(
+    (item) => item.isActive && item.actualMinutes === undefined,
+  );
+  const pending = items.filter(
+    (item) =>
+      !item.isActive && item.actualMinutes === undefined && !item.status,
+  );
+  if (!active) return allocate(pending, remaining);
+
+  // Time already spent on the active item is part of its budget
+  const activeElapsed = getElapsed(active) / 60000;
+  const budgets = allocate([active, ...pending], remaining + activeElapsed);
+  const activeBudget = budgets.get(active.id) ?? 0;
+  if (activeElapsed <= activeBudget) return budgets;
+
+  const rebalanced = allocate(pending, remaining);
+  rebalanced.set(active.id, activeBudget);
+  return rebalanced;
+}
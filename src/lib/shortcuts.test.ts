@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { isImeKey, shortcutFor } from "./shortcuts";
+
+/**
+ * Test suite for keyboard shortcut mapping.
+ *
+ * Tests including:
+ * - single-key shortcuts regardless of case
+ * - the command palette shortcut with Ctrl or Cmd
+ * - ignoring keys typed into form fields or with modifiers
+ * - recognizing keys that belong to an IME conversion
+ */
+describe("shortcuts", () => {
+  const press = (key: string, init: Partial<KeyboardEvent> = {}) => ({
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    target: document.body,
+    ...init,
+  });
+
+  it("should map single keys to actions", () => {
+    expect(shortcutFor(press(" "))).toBe("toggleTimer");
+    expect(shortcutFor(press("N"))).toBe("next");
+    expect(shortcutFor(press("ArrowLeft"))).toBe("previous");
+    expect(shortcutFor(press("5"))).toBe("addFiveMinutes");
+    expect(shortcutFor(press("?"))).toBe("help");
+    expect(shortcutFor(press("x"))).toBeUndefined();
+  });
+
+  it("should open the palette with Ctrl or Cmd+K, even in a field", () => {
+    const input = document.createElement("input");
+
+    expect(shortcutFor(press("k", { ctrlKey: true }))).toBe("palette");
+    expect(shortcutFor(press("K", { metaKey: true, target: input }))).toBe(
+      "palette",
+    );
+  });
+
+  it("should ignore typing and other modifier combinations", () => {
+    const textarea = document.createElement("textarea");
+
+    expect(shortcutFor(press("n", { target: textarea }))).toBeUndefined();
+    expect(shortcutFor(press("r", { ctrlKey: true }))).toBeUndefined();
+    expect(shortcutFor(press("n", { altKey: true }))).toBeUndefined();
+  });
+
+  it("should leave keys of an IME conversion to the IME", () => {
+    expect(isImeKey({ isComposing: true, keyCode: 13 })).toBe(true);
+    expect(isImeKey({ isComposing: false, keyCode: 229 })).toBe(true);
+    expect(isImeKey({ isComposing: false, keyCode: 13 })).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Keyboard shortcuts of the meeting tracker.
+ *
+ * Single-key shortcuts are ignored while typing in a form field or with a
+ * modifier held, so they never get in the way of editing. The command
+ * palette shortcut (Ctrl/Cmd+K) works everywhere. Labels are translated
+ * under `shortcuts.<action>`.
+ */
+
+export type ShortcutAction =
+  | "toggleTimer"
+  | "next"
+  | "previous"
+  | "addOneMinute"
+  | "addFiveMinutes"
+  | "reset"
+  | "palette"
+  | "help";
+
+interface Shortcut {
+  action: ShortcutAction;
+  /** Keys as shown in the help overlay */
+  keys: string[];
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { action: "toggleTimer", keys: ["Space"] },
+  { action: "next", keys: ["N", "→"] },
+  { action: "previous", keys: ["P", "←"] },
+  { action: "addOneMinute", keys: ["1"] },
+  { action: "addFiveMinutes", keys: ["5"] },
+  { action: "reset", keys: ["R"] },
+  { action: "palette", keys: ["Ctrl/⌘ K"] },
+  { action: "help", keys: ["?"] },
+];
+
+const SINGLE_KEYS: Record<string, ShortcutAction> = {
+  " ": "toggleTimer",
+  n: "next",
+  ArrowRight: "next",
+  p: "previous",
+  ArrowLeft: "previous",
+  "1": "addOneMinute",
+  "5": "addFiveMinutes",
+  r: "reset",
+  "?": "help",
+};
+
+type ShortcutKeyEvent = Pick<
+  KeyboardEvent,
+  "key" | "ctrlKey" | "metaKey" | "altKey" | "target"
+>;
+
+/**
+ * Whether keys typed into the target are text input.
+ */
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Maps a key press to its shortcut.
+ *
+ * @param event - Key press
+ * @returns The action to run, or undefined if the key is not a shortcut here
+ */
+export function shortcutFor(
+  event: ShortcutKeyEvent,
+): ShortcutAction | undefined {
+  if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+    return "palette";
+  }
+  if (event.ctrlKey || event.metaKey || event.altKey) return undefined;
+  if (isEditable(event.target)) return undefined;
+  const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+  return SINGLE_KEYS[key];
+}
+
+/**
+ * Whether a key press belongs to an IME conversion, such as the Enter
+ * confirming it, and should be left to the IME. Safari reports the
+ * confirming key after the conversion ends, flagged only by keyCode 229.
+ *
+ * @param event - Key press
+ * @returns True if the key is the IME's
+ */
+export const isImeKey = (
+  event: Pick<KeyboardEvent, "isComposing" | "keyCode">,
+) => event.isComposing || event.keyCode === 229;
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import {
+  type VersionedStorageKey,
+  activeSessionStorage,
+  loadVersioned,
+  meetingHistoryStorage,
+  saveVersioned,
+} from "./storage";
+
+/**
+ * Test suite for versioned localStorage persistence.
+ *
+ * Tests the storage envelope including:
+ * - writing and reading the `{ version, data }` envelope
+ * - upgrading unversioned and older payloads through migrations
+ * - quarantining unreadable payloads and invalid history entries
+ */
+describe("versioned storage", () => {
+  const readQuarantine = (key: string) =>
+    JSON.parse(localStorage.getItem(`${key}:quarantine`) || "[]");
+
+  const counterKey: VersionedStorageKey<{ count: number }> = {
+    key: "counter",
+    version: 2,
+    migrations: {
+      0: (data) => ({ value: data }),
+      1: (data) => ({ count: (data as { value: number }).value }),
+    },
+    parse: (data) => z.object({ count: z.number() }).parse(data),
+  };
+
+  it("should return null when nothing is stored", () => {
+    expect(loadVersioned(counterKey)).toBeNull();
+  });
+
+  it("should write values inside a versioned envelope", () => {
+    saveVersioned(counterKey, { count: 3 });
+
+    expect(JSON.parse(localStorage.getItem("counter") || "")).toEqual({
+      version: 2,
+      data: { count: 3 },
+    });
+    expect(loadVersioned(counterKey)).toEqual({ count: 3 });
+  });
+
+  it("should migrate unversioned payloads through every step", () => {
+    localStorage.setItem("counter", "7");
+
+    expect(loadVersioned(counterKey)).toEqual({ count: 7 });
+  });
+
+  it("should migrate older enveloped payloads", () => {
+    localStorage.setItem(
+      "counter",
+      JSON.stringify({ version: 1, data: { value: 4 } }),
+    );
+
+    expect(loadVersioned(counterKey)).toEqual({ count: 4 });
+  });
+
+  it("should quarantine and rethrow unparseable payloads", () => {
+    localStorage.setItem("counter", "{not json");
+
+    expect(() => loadVersioned(counterKey)).toThrow();
+    expect(readQuarantine("counter")).toEqual([
+      expect.objectContaining({ raw: "{not json" }),
+    ]);
+  });
+
+  it("should quarantine payloads from a newer version", () => {
+    localStorage.setItem(
+      "counter",
+      JSON.stringify({ version: 3, data: { count: 1 } }),
+    );
+
+    expect(() => loadVersioned(counterKey)).toThrow(/newer/);
+    expect(readQuarantine("counter")).toHaveLength(1);
+  });
+
+  it("should not duplicate quarantine entries on repeated loads", () => {
+    localStorage.setItem("counter", "{not json");
+
+    expect(() => loadVersioned(counterKey)).toThrow();
+    expect(() => loadVersioned(counterKey)).toThrow();
+
+    expect(readQuarantine("counter")).toHaveLength(1);
+  });
+
+  describe("activeSessionStorage", () => {
+    it("should load the legacy unversioned session blob", () => {
+      const session = { agendaItems: [], isRunning: true, savedAt: 1 };
+      localStorage.setItem("active-meeting-session", JSON.stringify(session));
+
+      expect(loadVersioned(activeSessionStorage)).toEqual(session);
+    });
+  });
+
+  describe("meetingHistoryStorage", () => {
+    it("should keep valid meetings and quarantine invalid ones", () => {
+      const valid = {
+        id: "m1",
+        date: "2021-01-01T00:00:00.000Z",
+        agendaItems: [],
+      };
+      const invalid = { id: "m2", date: 42 };
+      localStorage.setItem("meeting-history", JSON.stringify([valid, invalid]));
+
+      expect(loadVersioned(meetingHistoryStorage)).toEqual([valid]);
+      expect(readQuarantine("meeting-history")).toEqual([
+        expect.objectContaining({ raw: JSON.stringify(invalid) }),
+      ]);
+    });
+
+    it("should not warn on the console for quarantined entries", () => {
+      const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+      localStorage.setItem("meeting-history", JSON.stringify([{ id: "x" }]));
+
+      loadVersioned(meetingHistoryStorage);
+
+      expect(warnSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { z } from "zod";
+import {
+  type ActiveSession,
+  type Meeting,
+  activeSessionSchema,
+  parseMeetingHistory,
+} from "./meeting";
+import { type AgendaTemplate, agendaTemplateSchema } from "./templates";
+
+/**
+ * Versioned localStorage persistence.
+ *
+ * Every value is written inside an envelope `{ version, data }`. On load the
+ * payload is upgraded one version at a time through the key's migrations and
+ * then validated. Payloads written before versioning was introduced (plain
+ * JSON without an envelope) are treated as version 0.
+ *
+ * Anything that cannot be parsed, migrated or validated is copied to a
+ * `<key>:quarantine` list instead of being discarded, so the raw data can
+ * still be recovered by hand.
+ */
+
+interface StorageEnvelope {
+  version: number;
+  data: unknown;
+}
+
+type Migration = (data: unknown) => unknown;
+
+export interface VersionedStorageKey<T> {
+  /** localStorage key */
+  key: string;
+  /** Version written by the current code */
+  version: number;
+  /** Upgrade steps keyed by the version they upgrade from */
+  migrations: Record<number, Migration>;
+  /**
+   * Validates migrated data. Partially valid values may report rejected
+   * parts through `quarantine` and return the rest.
+   */
+  parse: (data: unknown, quarantine: (value: unknown) => void) => T;
+}
+
+interface QuarantineEntry {
+  raw: string;
+  reason: string;
+  quarantinedAt: number;
+}
+
+const isEnvelope = (value: unknown): value is StorageEnvelope =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as StorageEnvelope).version === "number" &&
+  "data" in value;
+
+/**
+ * Stores a raw payload under `<key>:quarantine`.
+ * Identical payloads are only kept once, so repeated loads of the same
+ * corrupt value do not grow the list.
+ *
+ * @param key - Storage key the payload was read from
+ * @param raw - Raw string that failed to load
+ * @param reason - Error or description of why it was rejected
+ */
+function quarantine(key: string, raw: string, reason: unknown) {
+  const quarantineKey = `${key}:quarantine`;
+  let entries: QuarantineEntry[] = [];
+  try {
+    const saved = localStorage.getItem(quarantineKey);
+    entries = saved ? JSON.parse(saved) : [];
+  } catch {
+    entries = [];
+  }
+  if (entries.some((entry) => entry.raw === raw)) return;
+  entries.push({ raw, reason: String(reason), quarantinedAt: Date.now() });
+  localStorage.setItem(quarantineKey, JSON.stringify(entries));
+}
+
+/**
+ * Reads, migrates and validates a versioned value.
+ *
+ * @param spec - Key definition with version, migrations and parser
+ * @returns The parsed value, or null when nothing is stored
+ * @throws When the stored value is unreadable; it is quarantined first
+ */
+export function loadVersioned<T>(spec: VersionedStorageKey<T>): T | null {
+  const raw = localStorage.getItem(spec.key);
+  if (raw === null) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    let { version, data } = isEnvelope(parsed)
+      ? parsed
+      : { version: 0, data: parsed };
+
+    if (version > spec.version) {
+      throw new Error(
+        `Stored version ${version} is newer than supported version ${spec.version}`,
+      );
+    }
+    while (version < spec.version) {
+      const migrate = spec.migrations[version];
+      if (!migrate) {
+        throw new Error(`No migration from version ${version}`);
+      }
+      data = migrate(data);
+      version++;
+    }
+
+    return spec.parse(data, (value) =>
+      quarantine(spec.key, JSON.stringify(value), "Invalid entry"),
+    );
+  } catch (e) {
+    quarantine(spec.key, raw, e);
+    throw e;
+  }
+}
+
+/**
+ * Writes a value inside a versioned envelope.
+ *
+ * @param spec - Key definition
+ * @param data - Value to store
+ */
+export function saveVersioned<T>(spec: VersionedStorageKey<T>, data: T) {
+  const envelope: StorageEnvelope = { version: spec.version, data };
+  localStorage.setItem(spec.key, JSON.stringify(envelope));
+}
+
+/**
+ * The in-progress meeting.
+ * v0: unversioned `{ agendaItems, isRunning, savedAt }`
+ * v1: same shape inside the envelope
+ */
+export const activeSessionStorage: VersionedStorageKey<ActiveSession> = {
+  key: "active-meeting-session",
+  version: 1,
+  migrations: {
+    0: (data) => data,
+  },
+  parse: (data) => activeSessionSchema.parse(data),
+};
+
+/**
+ * Saved meetings, newest first.
+ * v0: unversioned array of meetings
+ * v1: same array inside the envelope
+ */
+export const meetingHistoryStorage: VersionedStorageKey<Meeting[]> = {
+  key: "meeting-history",
+  version: 1,
+  migrations: {
+    0: (data) => data,
+  },
+  parse: (data, quarantineEntry) =>
+    parseMeetingHistory(data, (entry) => quarantineEntry(entry)),
+};
+
+/**
+ * How much meeting history to keep on this device.
+ */
+export const retentionPolicySchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("forever") }),
+  z.object({ kind: z.literal("count"), max: z.number().int().positive() }),
+  z.object({ kind: z.literal("days"), days: z.number().int().positive() }),
+]);
+
+export type RetentionPolicy = z.infer<typeof retentionPolicySchema>;
+
+/**
+ * History retention setting.
+ * v1: initial version
+ */
+export const historyRetentionStorage: VersionedStorageKey<RetentionPolicy> = {
+  key: "history-retention",
+  version: 1,
+  migrations: {},
+  parse: (data) => retentionPolicySchema.parse(data),
+};
+
+/**
+ * User-defined agenda templates (built-in templates are not stored).
+ * v1: initial version
+ */
+export const agendaTemplatesStorage: VersionedStorageKey<AgendaTemplate[]> = {
+  key: "agenda-templates",
+  version: 1,
+  migrations: {},
+  parse: (data) => z.array(agendaTemplateSchema).parse(data),
+};
+
+/**
+ * Whether threshold alert chimes and vibrations are muted on this device.
+ * v1: initial version
+ */
+export const alertsMutedStorage: VersionedStorageKey<boolean> = {
+  key: "alerts-muted",
+  version: 1,
+  migrations: {},
+  parse: (data) => z.boolean().parse(data),
+};
+
+/**
+ * Whether the user opted in to browser notifications while the tracker is
+ * in the background.
+ * v1: initial version
+ */
+export const backgroundNotificationsStorage: VersionedStorageKey<boolean> = {
+  key: "background-notifications",
+  version: 1,
+  migrations: {},
+  parse: (data) => z.boolean().parse(data),
+};
+
+const tabLeaseSchema = z.object({
+  tabId: z.string(),
+  expiresAt: z.number(),
+});
+
+export type TabLease = z.infer<typeof tabLeaseSchema>;
+
+/**
+ * The tracker tab that leads the active session, until its lease runs out
+ * (see lib/tabSync).
+ * v1: initial version
+ */
+export const tabLeaderStorage: VersionedStorageKey<TabLease> = {
+  key: "tab-leader",
+  version: 1,
+  migrations: {},
+  parse: (data) => tabLeaseSchema.parse(data),
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { faviconBadge, tabState, tabTitle } from "./tabStatus";
+
+/**
+ * Test suite for the tab title and favicon status.
+ */
+describe("tabStatus", () => {
+  it("should count down the active item in the title", () => {
+    expect(tabTitle("進捗報告", 133_000, true)).toBe("▶ 02:13 – 進捗報告");
+    expect(tabTitle("進捗報告", -65_000, false)).toBe("⏸ +01:05 – 進捗報告");
+  });
+
+  it("should turn the badge red in overtime", () => {
+    expect(tabState(1000, true)).toBe("running");
+    expect(tabState(1000, false)).toBe("paused");
+    expect(tabState(-1000, false)).toBe("overtime");
+  });
+
+  it("should draw the badge as an SVG data URL", () => {
+    const url = faviconBadge("overtime");
+
+    expect(url.startsWith("data:image/svg+xml,")).toBe(true);
+    expect(decodeURIComponent(url)).toContain('fill="#dc2626"');
+  });
+});
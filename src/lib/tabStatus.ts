@@ -0,0 +1,56 @@
+import { formatCountdown } from "./time";
+
+/**
+ * Meeting status shown on the browser tab.
+ *
+ * While an item is active the tab title counts down its remaining time and
+ * the favicon becomes a colored badge, so the meeting can be followed from
+ * the tab strip while another window is shared.
+ */
+
+export type TabState = "running" | "paused" | "overtime";
+
+const BADGE_COLORS: Record<TabState, string> = {
+  running: "#2563eb",
+  paused: "#6b7280",
+  overtime: "#dc2626",
+};
+
+/**
+ * Builds the tab title for the active item, e.g. `▶ 02:13 – 進捗報告`.
+ *
+ * @param name - Name of the active item
+ * @param remainingMs - Remaining time in milliseconds, negative in overtime
+ * @param isRunning - Whether the timer is running
+ * @returns Title for document.title
+ */
+export function tabTitle(
+  name: string,
+  remainingMs: number,
+  isRunning: boolean,
+): string {
+  return `${isRunning ? "▶" : "⏸"} ${formatCountdown(remainingMs)} – ${name}`;
+}
+
+/**
+ * Picks the badge for the active item: red in overtime, gray while paused.
+ *
+ * @param remainingMs - Remaining time in milliseconds, negative in overtime
+ * @param isRunning - Whether the timer is running
+ * @returns Badge state
+ */
+export function tabState(remainingMs: number, isRunning: boolean): TabState {
+  if (remainingMs < 0) return "overtime";
+  return isRunning ? "running" : "paused";
+}
+
+/**
+ * Draws the favicon badge as an SVG data URL.
+ *
+ * @param state - Badge state
+ * @returns URL for the icon link's href
+ */
+export function faviconBadge(state: TabState): string {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><circle cx="16" cy="16" r="14" fill="${BADGE_COLORS[state]}"/></svg>`;
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { loadVersioned, saveVersioned, tabLeaderStorage } from "./storage";
+import { claimLeadership, releaseLeadership } from "./tabSync";
+
+/**
+ * Test suite for tab leadership.
+ *
+ * Tests the lease including:
+ * - claiming a free or expired lease and renewing an own lease
+ * - leaving a live lease of another tab alone unless forced
+ * - releasing only an own lease
+ */
+describe("tabSync", () => {
+  const now = 1_000_000_000_000;
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it("should claim a free lease and renew it", () => {
+    expect(claimLeadership("a", { now })).toBe(true);
+    expect(claimLeadership("a", { now: now + 3000 })).toBe(true);
+
+    expect(loadVersioned(tabLeaderStorage)).toEqual({
+      tabId: "a",
+      expiresAt: now + 8000,
+    });
+  });
+
+  it("should leave another tab's live lease alone", () => {
+    claimLeadership("a", { now });
+
+    expect(claimLeadership("b", { now: now + 1000 })).toBe(false);
+    expect(loadVersioned(tabLeaderStorage)?.tabId).toBe("a");
+  });
+
+  it("should take over an expired lease, or a live one when forced", () => {
+    claimLeadership("a", { now });
+    expect(claimLeadership("b", { now: now + 5000 })).toBe(true);
+
+    expect(claimLeadership("a", { now: now + 6000, force: true })).toBe(true);
+    expect(loadVersioned(tabLeaderStorage)?.tabId).toBe("a");
+  });
+
+  it("should only release an own lease", () => {
+    saveVersioned(tabLeaderStorage, { tabId: "a", expiresAt: now });
+
+    expect(releaseLeadership("b")).toBe(false);
+    expect(releaseLeadership("a")).toBe(true);
+    expect(loadVersioned(tabLeaderStorage)).toBeNull();
+  });
+});
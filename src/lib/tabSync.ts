@@ -0,0 +1,123 @@
+import type { ActiveSession, AgendaItem, MeetingDetails } from "./meeting";
+import type { MeetingFlowEvent } from "./meetingFlow";
+import {
+  type TabLease,
+  activeSessionStorage,
+  loadVersioned,
+  saveVersioned,
+  tabLeaderStorage,
+} from "./storage";
+
+/**
+ * Coordination between tracker tabs.
+ *
+ * Of all open tracker tabs one is the leader: it owns the clock, applies
+ * every flow event and is the only tab that writes the active session. It
+ * holds a lease in localStorage that it renews on a heartbeat; when the
+ * lease runs out, or the leader resigns as it closes, another tab claims it.
+ * The other tabs mirror the session from the `storage` events of the
+ * leader's writes and send their commands to the leader over a
+ * BroadcastChannel. With a single writer, the tabs cannot diverge or count
+ * the same time twice.
+ */
+
+export const TAB_CHANNEL = "meeting-time-tracker";
+
+/** How often the leader renews its lease and the other tabs check it */
+export const HEARTBEAT_MS = 2000;
+
+/** How long a lease lasts without renewal */
+const LEASE_MS = 5000;
+
+/**
+ * A fresh agenda and details to start a meeting with, e.g. a past meeting's
+ * agenda handed over by "Run again".
+ */
+export interface NewSession {
+  agendaItems: AgendaItem[];
+  details: MeetingDetails;
+}
+
+/**
+ * A request from a mirroring tab to the leader.
+ */
+export type TabCommand =
+  | { type: "flow"; event: MeetingFlowEvent }
+  | { type: "reset" }
+  | { type: "replace"; session: NewSession };
+
+export type TabMessage =
+  /** A command for the leader to apply */
+  | { type: "command"; command: TabCommand }
+  /** The leader gave up its lease; claim it now */
+  | { type: "resign" };
+
+/**
+ * Loads the session another tab saved, for tabs and views that mirror it.
+ *
+ * @returns The active session, or null if there is none or it is unreadable
+ */
+export function loadSession(): ActiveSession | null {
+  try {
+    return loadVersioned(activeSessionStorage);
+  } catch (e) {
+    console.error("Failed to load session:", e);
+    return null;
+  }
+}
+
+/**
+ * Whether a tab may take the lease.
+ *
+ * @param lease - Current lease, or null if there is none
+ * @param tabId - Tab that wants it
+ * @param now - Current timestamp in milliseconds
+ * @returns True if there is no lease, it has run out or the tab already holds it
+ */
+function canClaim(lease: TabLease | null, tabId: string, now: number): boolean {
+  return !lease || lease.tabId === tabId || lease.expiresAt <= now;
+}
+
+/**
+ * Takes or renews the lease when the tab may have it.
+ * Two tabs claiming at once both write; the last write wins, and the tab
+ * reading back another tab's id stays a follower.
+ *
+ * @param tabId - Tab claiming the lease
+ * @param options - now: current timestamp; force: take the lease even from a
+ *   live leader
+ * @returns Whether the tab leads now
+ */
+export function claimLeadership(
+  tabId: string,
+  { now = Date.now(), force = false }: { now?: number; force?: boolean } = {},
+): boolean {
+  try {
+    if (!force && !canClaim(loadVersioned(tabLeaderStorage), tabId, now)) {
+      return false;
+    }
+    saveVersioned(tabLeaderStorage, { tabId, expiresAt: now + LEASE_MS });
+    return loadVersioned(tabLeaderStorage)?.tabId === tabId;
+  } catch (e) {
+    // Without storage there is nothing to coordinate, so every tab leads
+    console.error("Failed to claim tab leadership:", e);
+    return true;
+  }
+}
+
+/**
+ * Gives up the lease if the tab holds it.
+ *
+ * @param tabId - Tab giving up the lease
+ * @returns Whether the tab held the lease
+ */
+export function releaseLeadership(tabId: string): boolean {
+  try {
+    if (loadVersioned(tabLeaderStorage)?.tabId !== tabId) return false;
+    localStorage.removeItem(tabLeaderStorage.key);
+    return true;
+  } catch (e) {
+    console.error("Failed to release tab leadership:", e);
+    return false;
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { AgendaItem } from "./meeting";
+import {
+  SAMPLE_TEMPLATE,
+  agendaFromTemplate,
+  templateFromAgenda,
+} from "./templates";
+
+/**
+ * Test suite for agenda templates.
+ *
+ * Tests conversion between agendas and templates including:
+ * - dropping timing state when saving a template
+ * - creating fresh, uniquely identified items when applying one
+ */
+describe("templates", () => {
+  it("should keep only names and estimates when saving an agenda", () => {
+    const items: AgendaItem[] = [
+      {
+        id: "item_1",
+        name: "Standup",
+        estimatedMinutes: 15,
+        actualMinutes: 17,
+        isActive: false,
+        elapsedTime: 1020000,
+      },
+    ];
+
+    const template = templateFromAgenda("Daily", items);
+
+    expect(template.name).toBe("Daily");
+    expect(template.builtIn).toBeUndefined();
+    expect(template.items).toEqual([{ name: "Standup", estimatedMinutes: 15 }]);
+  });
+
+  it("should create untimed agenda items from a template", () => {
+    const items = agendaFromTemplate(SAMPLE_TEMPLATE);
+
+    expect(items).toHaveLength(SAMPLE_TEMPLATE.items.length);
+    expect(items[0]).toEqual({
+      id: expect.stringMatching(/^sample_\d+_1$/),
+      name: SAMPLE_TEMPLATE.items[0].name,
+      estimatedMinutes: SAMPLE_TEMPLATE.items[0].estimatedMinutes,
+      isActive: false,
+      elapsedTime: 0,
+    });
+  });
+
+  it("should keep planned breaks through a template", () => {
+    const template = templateFromAgenda("With break", [
+      {
+        id: "item_1",
+        name: "Coffee",
+        estimatedMinutes: 10,
+        isActive: false,
+        elapsedTime: 0,
+        isBreak: true,
+      },
+    ]);
+
+    expect(template.items).toEqual([
+      { name: "Coffee", estimatedMinutes: 10, isBreak: true },
+    ]);
+    expect(agendaFromTemplate(template)[0].isBreak).toBe(true);
+  });
+});
@@ -0,0 +1,86 @@
+import { z } from "zod";
+import type { AgendaItem } from "./meeting";
+
+/**
+ * Reusable agenda templates.
+ *
+ * A template is a named list of agenda item names and estimates, marking
+ * which items are breaks, without any timing state. Built-in templates ship
+ * with the app and cannot be edited; their `name` is a translation key. User
+ * templates are stored under the versioned `agenda-templates` localStorage
+ * key.
+ */
+
+const templateItemSchema = z.object({
+  name: z.string().min(1),
+  estimatedMinutes: z.number().nonnegative(),
+  isBreak: z.boolean().optional(),
+});
+
+export const agendaTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  items: z.array(templateItemSchema),
+  builtIn: z.boolean().optional(),
+});
+
+export type AgendaTemplate = z.infer<typeof agendaTemplateSchema>;
+
+/**
+ * The demo agenda offered on the empty state.
+ */
+export const SAMPLE_TEMPLATE: AgendaTemplate = {
+  id: "sample",
+  name: "templates.sample",
+  builtIn: true,
+  items: [
+    { name: "プロジェクト概要説明", estimatedMinutes: 5 },
+    { name: "進捗報告", estimatedMinutes: 10 },
+    { name: "課題とディスカッション", estimatedMinutes: 15 },
+    { name: "次回アクション確認", estimatedMinutes: 5 },
+  ],
+};
+
+export const BUILT_IN_TEMPLATES: AgendaTemplate[] = [SAMPLE_TEMPLATE];
+
+/**
+ * Creates a template from the names, estimates and breaks of an agenda.
+ *
+ * @param name - Template name
+ * @param items - Agenda to copy
+ * @returns A new user template
+ */
+export function templateFromAgenda(
+  name: string,
+  items: AgendaItem[],
+): AgendaTemplate {
+  return {
+    id: `template_${Date.now()}`,
+    name,
+    items: items.map(({ name, estimatedMinutes, isBreak }) => ({
+      name,
+      estimatedMinutes,
+      ...(isBreak && { isBreak }),
+    })),
+  };
+}
+
+/**
+ * Creates fresh agenda items from a template.
+ * Ids are `<templateId>_<timestamp>_<n>` so items stay unique when the same
+ * template is applied repeatedly.
+ *
+ * @param template - Template to apply
+ * @returns Untimed agenda items
+ */
+export function agendaFromTemplate(template: AgendaTemplate): AgendaItem[] {
+  const now = Date.now();
+  return template.items.map((item, index) => ({
+    id: `${template.id}_${now}_${index + 1}`,
+    name: item.name,
+    estimatedMinutes: item.estimatedMinutes,
+    isBreak: item.isBreak,
+    isActive: false,
+    elapsedTime: 0,
+  }));
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatCountdown,
+  formatTime,
+  getTimeDifference,
+  localDateStamp,
+} from "./time";
+
+/**
+ * Test suite for duration formatting helpers.
+ */
+describe("time", () => {
+  it("should format fractional minutes as m:ss", () => {
+    expect(formatTime(0)).toBe("0:00");
+    expect(formatTime(12.5)).toBe("12:30");
+  });
+
+  it("should mark only an overrun with a sign", () => {
+    expect(getTimeDifference(10, 12.5)).toBe("+2:30");
+    expect(getTimeDifference(10, 9)).toBe("1:00");
+    expect(getTimeDifference(10, 10)).toBe("+0:00");
+  });
+
+  it("should format a countdown and its overtime as mm:ss", () => {
+    expect(formatCountdown(133_500)).toBe("02:13");
+    expect(formatCountdown(0)).toBe("00:00");
+    expect(formatCountdown(-65_000)).toBe("+01:05");
+  });
+
+  it("should stamp the local calendar date", () => {
+    expect(localDateStamp(new Date(2021, 0, 2, 0, 30))).toBe("2021-01-02");
+    expect(localDateStamp(new Date(2021, 11, 31, 23, 59))).toBe("2021-12-31");
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Formats a duration in minutes as `m:ss`.
+ *
+ * @param minutes - Duration in (fractional) minutes
+ * @returns Formatted duration, e.g. `12:30`
+ */
+export function formatTime(minutes: number): string {
+  const mins = Math.floor(minutes);
+  const secs = Math.floor((minutes - mins) * 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Formats the difference between an estimate and the actual duration.
+ *
+ * @param estimated - Estimated minutes
+ * @param actual - Actual minutes
+ * @returns The difference, prefixed with `+` when over, e.g. `+2:30`, or
+ *   `1:00` when under
+ */
+export function getTimeDifference(estimated: number, actual: number): string {
+  const diff = actual - estimated;
+  const sign = diff >= 0 ? "+" : "";
+  return `${sign}${formatTime(Math.abs(diff))}`;
+}
+
+/**
+ * Formats the remaining time of a countdown as `mm:ss`.
+ *
+ * @param remainingMs - Remaining time in milliseconds, negative in overtime
+ * @returns Remaining time, e.g. `02:13`, or the overtime, e.g. `+01:05`
+ */
+export function formatCountdown(remainingMs: number): string {
+  const seconds = Math.floor(Math.abs(remainingMs) / 1000);
+  const mins = Math.floor(seconds / 60)
+    .toString()
+    .padStart(2, "0");
+  const secs = (seconds % 60).toString().padStart(2, "0");
+  return `${remainingMs < 0 ? "+" : ""}${mins}:${secs}`;
+}
+
+/**
+ * Formats a date as `YYYY-MM-DD` in local time, e.g. for file names.
+ * toISOString would give the UTC date, a day off around midnight.
+ *
+ * @param date - Date to format
+ * @returns Local calendar date, e.g. `2021-01-02`
+ */
+export function localDateStamp(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { cn } from "./utils";
+import { cn, occurrenceKeys } from "./utils";
 
 describe("cn utility function", () => {
   it("should merge class names correctly", () => {
@@ -48,3 +48,20 @@ describe("cn utility function", () => {
     expect(result).toBe("base extra");
   });
 });
+
+describe("occurrenceKeys", () => {
+  it("should number repeated values", () => {
+    expect(occurrenceKeys(["Ship it", "Hire", "Ship it"])).toEqual([
+      "0:Ship it",
+      "0:Hire",
+      "1:Ship it",
+    ]);
+  });
+
+  it("should keep the keys of other values when one is removed", () => {
+    expect(occurrenceKeys(["Hire", "Ship it"])).toEqual([
+      "0:Hire",
+      "0:Ship it",
+    ]);
+  });
+});
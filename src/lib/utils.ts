@@ -4,3 +4,20 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Builds React keys for a list of plain values without ids: the value,
+ * numbered by how often it occurred before, so removing one entry does not
+ * re-key the entries after it.
+ *
+ * @param values - Values in list order
+ * @returns One unique key per value, e.g. `0:Ship it`, `1:Ship it`
+ */
+export function occurrenceKeys(values: string[]): string[] {
+  const seen = new Map<string, number>();
+  return values.map((value) => {
+    const count = seen.get(value) ?? 0;
+    seen.set(value, count + 1);
+    return `${count}:${value}`;
+  });
+}
@@ -12,7 +12,9 @@
 
 import { Route as rootRoute } from './routes/__root'
 import { Route as RetrospectiveImport } from './routes/retrospective'
+import { Route as PresenterImport } from './routes/presenter'
 import { Route as HistoryImport } from './routes/history'
+import { Route as DataImport } from './routes/data'
 import { Route as IndexImport } from './routes/index'
 
 // Create/Update Routes
@@ -23,12 +25,24 @@ const RetrospectiveRoute = RetrospectiveImport.update({
   getParentRoute: () => rootRoute,
 } as any)
 
+const PresenterRoute = PresenterImport.update({
+  id: '/presenter',
+  path: '/presenter',
+  getParentRoute: () => rootRoute,
+} as any)
+
 const HistoryRoute = HistoryImport.update({
   id: '/history',
   path: '/history',
   getParentRoute: () => rootRoute,
 } as any)
 
+const DataRoute = DataImport.update({
+  id: '/data',
+  path: '/data',
+  getParentRoute: () => rootRoute,
+} as any)
+
 const IndexRoute = IndexImport.update({
   id: '/',
   path: '/',
@@ -46,6 +60,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexImport
       parentRoute: typeof rootRoute
     }
+    '/data': {
+      id: '/data'
+      path: '/data'
+      fullPath: '/data'
+      preLoaderRoute: typeof DataImport
+      parentRoute: typeof rootRoute
+    }
     '/history': {
       id: '/history'
       path: '/history'
@@ -53,6 +74,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof HistoryImport
       parentRoute: typeof rootRoute
     }
+    '/presenter': {
+      id: '/presenter'
+      path: '/presenter'
+      fullPath: '/presenter'
+      preLoaderRoute: typeof PresenterImport
+      parentRoute: typeof rootRoute
+    }
     '/retrospective': {
       id: '/retrospective'
       path: '/retrospective'
@@ -67,41 +95,51 @@ declare module '@tanstack/react-router' {
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/data': typeof DataRoute
   '/history': typeof HistoryRoute
+  '/presenter': typeof PresenterRoute
   '/retrospective': typeof RetrospectiveRoute
 }
 
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/data': typeof DataRoute
   '/history': typeof HistoryRoute
+  '/presenter': typeof PresenterRoute
   '/retrospective': typeof RetrospectiveRoute
 }
 
 export interface FileRoutesById {
   __root__: typeof rootRoute
   '/': typeof IndexRoute
+  '/data': typeof DataRoute
   '/history': typeof HistoryRoute
+  '/presenter': typeof PresenterRoute
   '/retrospective': typeof RetrospectiveRoute
 }
 
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/history' | '/retrospective'
+  fullPaths: '/' | '/data' | '/history' | '/presenter' | '/retrospective'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/history' | '/retrospective'
-  id: '__root__' | '/' | '/history' | '/retrospective'
+  to: '/' | '/data' | '/history' | '/presenter' | '/retrospective'
+  id: '__root__' | '/' | '/data' | '/history' | '/presenter' | '/retrospective'
   fileRoutesById: FileRoutesById
 }
 
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  DataRoute: typeof DataRoute
   HistoryRoute: typeof HistoryRoute
+  PresenterRoute: typeof PresenterRoute
   RetrospectiveRoute: typeof RetrospectiveRoute
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  DataRoute: DataRoute,
   HistoryRoute: HistoryRoute,
+  PresenterRoute: PresenterRoute,
   RetrospectiveRoute: RetrospectiveRoute,
 }
 
@@ -116,16 +154,24 @@ export const routeTree = rootRoute
       "filePath": "__root.tsx",
       "children": [
         "/",
+        "/data",
         "/history",
+        "/presenter",
         "/retrospective"
       ]
     },
     "/": {
       "filePath": "index.tsx"
     },
+    "/data": {
+      "filePath": "data.tsx"
+    },
     "/history": {
       "filePath": "history.tsx"
     },
+    "/presenter": {
+      "filePath": "presenter.tsx"
+    },
     "/retrospective": {
       "filePath": "retrospective.tsx"
     }
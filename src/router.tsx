@@ -1,6 +1,7 @@
 import { createRouter as createTanstackRouter } from "@tanstack/react-router";
 import { routerWithQueryClient } from "@tanstack/react-router-with-query";
 import * as TanstackQuery from "./integrations/tanstack-query/root-provider";
+import type { NewSession } from "./lib/tabSync";
 
 // Import the generated route tree
 import { routeTree } from "./routeTree.gen";
@@ -35,4 +36,8 @@ declare module "@tanstack/react-router" {
   interface Register {
     router: ReturnType<typeof createRouter>;
   }
+  // Navigation state: a meeting handed from the history pages to the tracker
+  interface HistoryState {
+    runAgain?: NewSession;
+  }
 }
@@ -0,0 +1,224 @@
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useMeetingHistory } from "@/hooks/useMeetingHistory";
+import { downloadFile } from "@/lib/download";
+import {
+  HistoryImportError,
+  type ImportPreview,
+  createHistoryBundle,
+  meetingsToCsv,
+  parseHistoryBundle,
+} from "@/lib/historyExport";
+import { localDateStamp } from "@/lib/time";
+import { createFileRoute } from "@tanstack/react-router";
+import { Download, FileJson, Upload } from "lucide-react";
+import { useState } from "react";
+
+/**
+ * Data management route component
+ * Exports the meeting history as CSV or JSON and imports JSON backups
+ */
+export const Route = createFileRoute("/data")({
+  component: DataPage,
+});
+
+type ImportMode = "merge" | "replace";
+
+/**
+ * Data management page
+ * Provides backups of the full meeting history and moves history between
+ * browsers by importing a JSON export, merging with or replacing the
+ * current history.
+ */
+function DataPage() {
+  const { t } = useLanguage();
+  const { exportMeetings, importMeetings } = useMeetingHistory();
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = localDateStamp(new Date());
+
+  /**
+   * Downloads the whole history in the chosen format.
+   */
+  const handleExport = async (format: "json" | "csv") => {
+    try {
+      const meetings = await exportMeetings();
+      if (format === "json") {
+        downloadFile(
+          `meeting-history-${today}.json`,
+          createHistoryBundle(meetings),
+          "application/json",
+        );
+      } else {
+        downloadFile(
+          `meeting-history-${today}.csv`,
+          meetingsToCsv(meetings),
+          "text/csv",
+        );
+      }
+    } catch (e) {
+      console.error("Failed to export meeting history:", e);
+    }
+  };
+
+  /**
+   * Reads and validates the selected file, then shows what would be imported.
+   */
+  const handleFile = async (file: File | undefined) => {
+    setPreview(null);
+    setMessage(null);
+    setError(null);
+    if (!file) return;
+    try {
+      const existing = await exportMeetings();
+      setPreview(
+        parseHistoryBundle(
+          await file.text(),
+          existing.map((meeting) => meeting.id),
+        ),
+      );
+    } catch (e) {
+      if (e instanceof HistoryImportError) {
+        setError(
+          [t(`data.error.${e.code}`), e.detail].filter(Boolean).join(" "),
+        );
+      } else {
+        console.error("Failed to read import file:", e);
+        setError(t("data.error.invalidJson"));
+      }
+    }
+  };
+
+  /**
+   * Imports the previewed meetings after confirming a replace.
+   */
+  const handleImport = async () => {
+    if (!preview) return;
+    if (mode === "replace" && !window.confirm(t("data.replaceConfirm"))) {
+      return;
+    }
+    try {
+      const added = await importMeetings(preview.meetings, mode);
+      setMessage(`${t("data.imported")} ${added}`);
+      setPreview(null);
+    } catch (e) {
+      console.error("Failed to import meeting history:", e);
+      setError(t("data.error.importFailed"));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="container mx-auto px-4 py-6 pb-20">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <h1 className="text-2xl font-bold text-foreground">
+            {t("data.title")}
+          </h1>
+
+          <section className="bg-card rounded-lg shadow-lg p-6 border border-border">
+            <h2 className="text-lg font-semibold text-card-foreground mb-2">
+              {t("data.export")}
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              {t("data.exportDescription")}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => handleExport("json")}
+                className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors flex items-center gap-2"
+              >
+                <FileJson size={16} />
+                {t("data.exportJson")}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport("csv")}
+                className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors flex items-center gap-2"
+              >
+                <Download size={16} />
+                {t("data.exportCsv")}
+              </button>
+            </div>
+          </section>
+
+          <section className="bg-card rounded-lg shadow-lg p-6 border border-border">
+            <h2 className="text-lg font-semibold text-card-foreground mb-2">
+              {t("data.import")}
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              {t("data.importDescription")}
+            </p>
+            <label className="inline-flex items-center gap-2 px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors cursor-pointer">
+              <Upload size={16} />
+              {t("data.chooseFile")}
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+                className="sr-only"
+              />
+            </label>
+
+            {error && (
+              <p className="mt-4 text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+            {message && (
+              <p className="mt-4 text-sm text-green-700 dark:text-green-500">
+                {message}
+              </p>
+            )}
+
+            {preview && (
+              <div className="mt-4 space-y-3">
+                <p className="text-sm">
+                  {t("data.previewMeetings")} {preview.meetings.length}
+                  {preview.existingIds.length > 0 && (
+                    <>
+                      {" • "}
+                      {t("data.previewExisting")} {preview.existingIds.length}
+                    </>
+                  )}
+                </p>
+                <fieldset className="space-y-1 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="import-mode"
+                      checked={mode === "merge"}
+                      onChange={() => setMode("merge")}
+                    />
+                    {t("data.modeMerge")}
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      name="import-mode"
+                      checked={mode === "replace"}
+                      onChange={() => setMode("replace")}
+                    />
+                    {t("data.modeReplace")}
+                  </label>
+                </fieldset>
+                <button
+                  type="button"
+                  onClick={handleImport}
+                  className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+                >
+                  {t("data.importButton")}
+                </button>
+              </div>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,18 @@
+import { MeetingHistoryCard } from "@/components/MeetingHistoryCard";
+import { RetentionSettings } from "@/components/RetentionSettings";
 import { useLanguage } from "@/contexts/LanguageContext";
-import { createFileRoute } from "@tanstack/react-router";
+import { useMeetingHistory } from "@/hooks/useMeetingHistory";
+import {
+  type HistoryFilter,
+  type HistorySort,
+  defaultHistoryFilter,
+  filterMeetings,
+  needsFullHistory,
+} from "@/lib/historyFilter";
+import type { Meeting } from "@/lib/meeting";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { Database, Search } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
 
 /**
  * Meeting history route component
@@ -9,46 +22,193 @@ export const Route = createFileRoute("/history")({
   component: HistoryPage,
 });
 
+const sortOptions: HistorySort[] = ["newest", "oldest", "longest", "overrun"];
+
 /**
  * History page component that shows meeting history
- * Provides interface for viewing past meetings and their retrospectives
+ * Lists saved meetings with their totals and lets the user search, filter
+ * by date, sort, duplicate and delete them. Older pages are loaded on
+ * demand, or all at once as soon as a filter or sort order needs them.
  */
 function HistoryPage() {
   const { t } = useLanguage();
+  const {
+    meetingHistory,
+    hasMoreHistory,
+    isHistoryLoading,
+    loadMoreHistory,
+    loadAllHistory,
+    duplicateMeeting,
+    deleteMeeting,
+    retention,
+    setRetention,
+  } = useMeetingHistory();
+  const [filter, setFilter] = useState<HistoryFilter>(defaultHistoryFilter);
+
+  const visibleMeetings = useMemo(
+    () => filterMeetings(meetingHistory, filter),
+    [meetingHistory, filter],
+  );
+  const isFiltering = needsFullHistory(filter);
+
+  /**
+   * Effect that loads the rest of the history once a filter or sort order
+   * needs it, so matches on older pages are not missed.
+   */
+  useEffect(() => {
+    if (isFiltering && hasMoreHistory && !isHistoryLoading) {
+      loadAllHistory();
+    }
+  }, [isFiltering, hasMoreHistory, isHistoryLoading, loadAllHistory]);
+
+  /**
+   * Updates one field of the filter.
+   */
+  const updateFilter = (changes: Partial<HistoryFilter>) => {
+    setFilter((current) => ({ ...current, ...changes }));
+  };
+
+  /**
+   * Deletes a meeting after the user confirms.
+   */
+  const handleDelete = (meeting: Meeting) => {
+    if (window.confirm(t("history.deleteConfirm"))) {
+      deleteMeeting(meeting.id);
+    }
+  };
+
+  const inputClassName =
+    "px-2 py-1 border border-border rounded-md bg-background text-foreground text-sm";
 
   return (
     <div className="min-h-screen bg-background">
       <main className="container mx-auto px-4 py-6 pb-20">
         <div className="max-w-2xl mx-auto">
-          <h1 className="text-2xl font-bold text-foreground mb-6">
-            {t("meetingHistory")}
-          </h1>
-
-          <div className="text-center py-12">
-            <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
-              <svg
-                className="w-8 h-8 text-muted-foreground"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-                role="img"
-                aria-label="Clock icon"
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-6">
+            <h1 className="text-2xl font-bold text-foreground">
+              {t("meetingHistory")}
+            </h1>
+            <div className="flex flex-wrap items-center gap-3">
+              <RetentionSettings value={retention} onChange={setRetention} />
+              <Link
+                to="/data"
+                className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground transition-colors"
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
-                />
-              </svg>
+                <Database size={16} />
+                {t("data.link")}
+              </Link>
             </div>
-            <h2 className="text-lg font-medium text-foreground mb-2">
-              {t("noMeetingHistory")}
-            </h2>
-            <p className="text-muted-foreground mb-6">
-              {t("noMeetingHistoryDescription")}
-            </p>
           </div>
+
+          {meetingHistory.length > 0 && (
+            <div className="flex flex-wrap items-end gap-3 mb-4">
+              <div className="relative flex-1 min-w-48">
+                <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <input
+                  type="search"
+                  value={filter.query}
+                  onChange={(e) => updateFilter({ query: e.target.value })}
+                  placeholder={t("history.search")}
+                  aria-label={t("history.search")}
+                  className={`${inputClassName} w-full pl-8`}
+                />
+              </div>
+              <label className="flex flex-col text-xs text-muted-foreground gap-1">
+                {t("history.from")}
+                <input
+                  type="date"
+                  value={filter.from}
+                  onChange={(e) => updateFilter({ from: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="flex flex-col text-xs text-muted-foreground gap-1">
+                {t("history.to")}
+                <input
+                  type="date"
+                  value={filter.to}
+                  onChange={(e) => updateFilter({ to: e.target.value })}
+                  className={inputClassName}
+                />
+              </label>
+              <label className="flex flex-col text-xs text-muted-foreground gap-1">
+                {t("history.sort")}
+                <select
+                  value={filter.sort}
+                  onChange={(e) =>
+                    updateFilter({ sort: e.target.value as HistorySort })
+                  }
+                  className={inputClassName}
+                >
+                  {sortOptions.map((option) => (
+                    <option key={option} value={option}>
+                      {t(`history.sort.${option}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+
+          {visibleMeetings.length > 0 && (
+            <ul className="space-y-3">
+              {visibleMeetings.map((meeting) => (
+                <MeetingHistoryCard
+                  key={meeting.id}
+                  meeting={meeting}
+                  onDuplicate={duplicateMeeting}
+                  onDelete={handleDelete}
+                />
+              ))}
+            </ul>
+          )}
+
+          {meetingHistory.length > 0 &&
+            visibleMeetings.length === 0 &&
+            !hasMoreHistory && (
+              <p className="text-center text-muted-foreground py-8">
+                {t("history.noMatches")}
+              </p>
+            )}
+
+          {hasMoreHistory && (
+            <button
+              type="button"
+              onClick={loadMoreHistory}
+              disabled={isHistoryLoading}
+              className="w-full mt-4 px-3 py-2 text-sm text-muted-foreground border border-border rounded-md hover:bg-muted disabled:opacity-50 transition-colors"
+            >
+              {t("history.loadMore")}
+            </button>
+          )}
+
+          {!isHistoryLoading && meetingHistory.length === 0 && (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center">
+                <svg
+                  className="w-8 h-8 text-muted-foreground"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  role="img"
+                  aria-label="Clock icon"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+              </div>
+              <h2 className="text-lg font-medium text-foreground mb-2">
+                {t("noMeetingHistory")}
+              </h2>
+              <p className="text-muted-foreground mb-6">
+                {t("noMeetingHistoryDescription")}
+              </p>
+            </div>
+          )}
         </div>
       </main>
     </div>
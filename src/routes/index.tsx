@@ -1,19 +1,57 @@
-import { Link, createFileRoute } from "@tanstack/react-router";
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
 import {
   BarChart3,
+  Bell,
+  BellOff,
+  BellRing,
   ChevronLeft,
   ChevronRight,
   History,
+  Keyboard,
+  MonitorPlay,
+  MonitorSmartphone,
   Pause,
   Play,
   RotateCcw,
+  SkipForward,
+  SquareParking,
+  X,
 } from "lucide-react";
+import { useState } from "react";
+import { CarryOverSuggestion } from "../components/CarryOverSuggestion";
+import {
+  CommandPalette,
+  type PaletteCommand,
+} from "../components/CommandPalette";
+import { ExportMinutesButtons } from "../components/ExportMinutesButtons";
+import { MeetingDetailsForm } from "../components/MeetingDetailsForm";
 import { MeetingProgress } from "../components/MeetingProgress";
 import { MeetingTimer } from "../components/MeetingTimer";
+import { ShortcutHelp } from "../components/ShortcutHelp";
 import { useLanguage } from "../contexts/LanguageContext";
-import { type AgendaItem, useMeetingState } from "../hooks/useMeetingState";
+import { useAgendaTemplates } from "../hooks/useAgendaTemplates";
+import { useBackgroundStatus } from "../hooks/useBackgroundStatus";
+import { useKeyboardShortcuts } from "../hooks/useKeyboardShortcuts";
+import { useMeetingFlow } from "../hooks/useMeetingFlow";
+import { useMeetingState } from "../hooks/useMeetingState";
+import { useRunAgainHandOver } from "../hooks/useRunAgain";
+import { useTabSync } from "../hooks/useTabSync";
+import { useThresholdAlerts } from "../hooks/useThresholdAlerts";
 import { useTimeCalculations } from "../hooks/useTimeCalculations";
 import { useTimerState } from "../hooks/useTimerState";
+import type { AgendaImportMode } from "../lib/agendaText";
+import type { CalendarMeeting } from "../lib/ics";
+import { type AgendaItem, type Meeting, carryOverItems } from "../lib/meeting";
+import type { MeetingFlowEvent } from "../lib/meetingFlow";
+import { totalPausedTime } from "../lib/meetingLog";
+import { rebalanceAgenda } from "../lib/rebalance";
+import { activeSessionStorage, loadVersioned } from "../lib/storage";
+import type { NewSession, TabCommand } from "../lib/tabSync";
+import {
+  type AgendaTemplate,
+  SAMPLE_TEMPLATE,
+  agendaFromTemplate,
+} from "../lib/templates";
 
 export const Route = createFileRoute("/")({
   component: MeetingTimeTracker,
@@ -21,14 +59,15 @@ export const Route = createFileRoute("/")({
 
 function MeetingTimeTracker() {
   const { t } = useLanguage();
+  const navigate = useNavigate();
+  const templateLibrary = useAgendaTemplates();
 
   // Initialize timer state with restored running state from localStorage
   const initialIsRunning = (() => {
     try {
-      const savedSession = localStorage.getItem("active-meeting-session");
-      if (savedSession) {
-        const session = JSON.parse(savedSession);
-        return session.isRunning || false;
+      const session = loadVersioned(activeSessionStorage);
+      if (session) {
+        return session.isRunning;
       }
     } catch (e) {
       // Ignore errors and default to false
@@ -38,165 +77,213 @@ function MeetingTimeTracker() {
 
   const { isRunning, currentTime, setIsRunning } =
     useTimerState(initialIsRunning);
-  const { agendaItems, setAgendaItems, saveMeeting, resetSession } =
-    useMeetingState(isRunning);
+  // One tab leads the meeting; the others mirror it and send it commands
+  const { isLeader, sendCommand, takeOver } = useTabSync(
+    (command) => runCommand(command),
+    (session) => {
+      mirrorSession(session);
+      setIsRunning(session.isRunning);
+    },
+  );
+  const {
+    agendaItems,
+    setAgendaItems,
+    details,
+    setDetails,
+    events,
+    logEvent,
+    meetingHistory,
+    saveMeeting,
+    resetSession,
+    replaceSession,
+    mirrorSession,
+  } = useMeetingState(isRunning, isLeader);
+  // Last saved meeting, offered for minutes export until dismissed
+  const [savedMeeting, setSavedMeeting] = useState<Meeting | null>(null);
+  const [isCarryOverDismissed, setIsCarryOverDismissed] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
   const { getCurrentElapsed, totalElapsed, totalEstimated } =
-    useTimeCalculations(agendaItems, currentTime, isRunning, setAgendaItems);
-
-  const startMeeting = () => {
-    if (agendaItems.length > 0 && !isRunning) {
-      setIsRunning(true);
-      const firstIncompleteIndex = agendaItems.findIndex(
-        (item) => !item.actualMinutes,
-      );
-      if (firstIncompleteIndex !== -1) {
-        setAgendaItems((items) =>
-          items.map((item, index) => ({
-            ...item,
-            isActive: index === firstIncompleteIndex,
-            startTime:
-              index === firstIncompleteIndex ? Date.now() : item.startTime,
-          })),
-        );
-      }
-    }
-  };
+    useTimeCalculations(
+      agendaItems,
+      currentTime,
+      isRunning,
+      setAgendaItems,
+      isLeader,
+    );
 
-  const pauseMeeting = () => {
-    setIsRunning(false);
-    setAgendaItems((items) =>
-      items.map((item) => {
-        if (item.isActive && item.startTime) {
-          return {
-            ...item,
-            elapsedTime: item.elapsedTime + (Date.now() - item.startTime),
-            startTime: undefined,
-          };
-        }
-        return { ...item, isActive: false };
-      }),
+  // Wall-clock start of the meeting and the time spent paused since
+  const meetingStartTime = events.find((event) => event.type === "start")?.at;
+  const pausedTime = totalPausedTime(events, currentTime);
+
+  // Hard end of the meeting in fixed end-time mode
+  const fixedEndTime =
+    details.fixedEnd && details.scheduledEnd
+      ? Date.parse(details.scheduledEnd)
+      : undefined;
+  const budgets =
+    fixedEndTime !== undefined
+      ? rebalanceAgenda(
+          agendaItems,
+          currentTime,
+          fixedEndTime,
+          getCurrentElapsed,
+        )
+      : undefined;
+  const { flash, isMuted, toggleMuted } = useThresholdAlerts(
+    agendaItems,
+    getCurrentElapsed,
+    details.alerts,
+    budgets,
+    isLeader,
+  );
+
+  const { notificationsSupported, notificationsEnabled, toggleNotifications } =
+    useBackgroundStatus(
+      agendaItems,
+      getCurrentElapsed,
+      isRunning,
+      fixedEndTime !== undefined
+        ? fixedEndTime - currentTime
+        : totalEstimated - totalElapsed,
+      budgets,
+      isLeader,
     );
+
+  const { dispatch: applyEvent, can } = useMeetingFlow(
+    agendaItems,
+    setAgendaItems,
+    isRunning,
+    setIsRunning,
+    logEvent,
+  );
+
+  /**
+   * Applies a flow event, or sends it to the leading tab when this tab only
+   * mirrors the meeting.
+   */
+  const dispatch = (event: MeetingFlowEvent) => {
+    if (isLeader) {
+      applyEvent(event);
+    } else {
+      sendCommand({ type: "flow", event });
+    }
   };
 
-  const completeCurrentItem = () => {
-    const activeIndex = agendaItems.findIndex((item) => item.isActive);
-    if (activeIndex !== -1) {
-      setAgendaItems((items) =>
-        items.map((item, index) => {
-          if (index === activeIndex) {
-            const totalElapsed = item.startTime
-              ? item.elapsedTime + (Date.now() - item.startTime)
-              : item.elapsedTime;
-            return {
-              ...item,
-              isActive: false,
-              actualMinutes: Math.round((totalElapsed / 60000) * 10) / 10,
-              startTime: undefined,
-            };
-          }
-          if (index === activeIndex + 1 && isRunning) {
-            return {
-              ...item,
-              isActive: true,
-              startTime: Date.now(),
-            };
-          }
-          return item;
-        }),
-      );
+  const resetMeeting = () => {
+    if (!isLeader) {
+      sendCommand({ type: "reset" });
+      return;
     }
+    setIsRunning(false);
+    resetSession();
   };
 
-  const nextAgendaItem = () => {
-    if (isRunning) {
-      completeCurrentItem();
+  /**
+   * Runs a command sent by a mirroring tab.
+   */
+  const runCommand = (command: TabCommand) => {
+    if (command.type === "flow") {
+      applyEvent(command.event);
+    } else if (command.type === "replace") {
+      startSession(command.session);
     } else {
-      // If not running, just move to next incomplete item
-      const nextIncompleteIndex = agendaItems.findIndex(
-        (item) => !item.actualMinutes,
-      );
-      if (nextIncompleteIndex !== -1) {
-        setAgendaItems((items) =>
-          items.map((item, index) => ({
-            ...item,
-            isActive: index === nextIncompleteIndex,
-            startTime: index === nextIncompleteIndex ? Date.now() : undefined,
-          })),
-        );
-        setIsRunning(true);
-      }
+      resetMeeting();
     }
   };
 
-  const previousAgendaItem = () => {
-    const currentActiveIndex = agendaItems.findIndex((item) => item.isActive);
-    let targetIndex = -1;
-
-    if (currentActiveIndex > 0) {
-      // If there's an active item, go to the previous one
-      targetIndex = currentActiveIndex - 1;
-    } else if (currentActiveIndex === -1) {
-      // If no active item, find the last completed item
-      for (let i = agendaItems.length - 1; i >= 0; i--) {
-        if (agendaItems[i].actualMinutes) {
-          targetIndex = i;
-          break;
-        }
-      }
+  const hasProgress = agendaItems.some(
+    (item) =>
+      item.isActive ||
+      item.elapsedTime > 0 ||
+      item.actualMinutes ||
+      item.status,
+  );
+
+  // Parking lot of the previous meeting, suggested until the meeting starts
+  const lastMeeting = meetingHistory[0];
+  const carriedItems = lastMeeting
+    ? carryOverItems(lastMeeting, agendaItems)
+    : [];
+  const showCarryOver =
+    isLeader &&
+    carriedItems.length > 0 &&
+    !hasProgress &&
+    !isCarryOverDismissed &&
+    !agendaItems.some((item) => item.carriedFrom === lastMeeting?.id);
+
+  /**
+   * Swaps in a new agenda. The running item is paused through the flow, and
+   * the old meeting's log goes with its agenda so its start and pauses do
+   * not carry over.
+   */
+  const startOver = (items: AgendaItem[]) => {
+    if (isRunning) applyEvent({ type: "pause" });
+    replaceSession(items);
+  };
+
+  /**
+   * Replaces the agenda, asking first if the current agenda already has
+   * timing data.
+   *
+   * @returns Whether the agenda was replaced
+   */
+  const replaceAgenda = (items: AgendaItem[]) => {
+    if (hasProgress && !window.confirm(t("templates.confirmReplace"))) {
+      return false;
     }
+    startOver(items);
+    return true;
+  };
 
-    if (targetIndex >= 0) {
-      // Pause current timer if running
-      if (isRunning) {
-        pauseMeeting();
-      }
+  /**
+   * Starts a new meeting with the given agenda and details; the history
+   * pages have already asked before discarding the current one.
+   */
+  const startSession = (session: NewSession) => {
+    startOver(session.agendaItems);
+    setDetails(session.details);
+  };
 
-      // Restore the target item to continue from where it was
-      setAgendaItems((items) =>
-        items.map((item, index) => {
-          if (index === targetIndex) {
-            // If item was completed, restore its elapsed time from actualMinutes
-            const restoredElapsedTime = item.actualMinutes
-              ? item.actualMinutes * 60000 // Convert minutes back to milliseconds
-              : item.elapsedTime; // Use existing elapsed time if not completed
-
-            return {
-              ...item,
-              isActive: true,
-              actualMinutes: undefined, // Clear completion status to allow continuation
-              startTime: Date.now(),
-              elapsedTime: restoredElapsedTime, // Restore previous elapsed time
-            };
-          }
-          return {
-            ...item,
-            isActive: false,
-            startTime: undefined,
-          };
-        }),
-      );
-
-      // Start the timer
-      setIsRunning(true);
+  // "Run again" from the history pages: the leader starts the meeting
+  useRunAgainHandOver((session) => {
+    if (isLeader) {
+      startSession(session);
+    } else {
+      sendCommand({ type: "replace", session });
     }
+  });
+
+  const applyTemplate = (template: AgendaTemplate) => {
+    replaceAgenda(agendaFromTemplate(template));
   };
 
-  const resetMeeting = () => {
-    setIsRunning(false);
-    resetSession();
+  /**
+   * Adds pasted agenda items, either replacing the agenda or after the
+   * existing items.
+   */
+  const importAgenda = (items: AgendaItem[], mode: AgendaImportMode) => {
+    if (mode === "replace") {
+      replaceAgenda(items);
+    } else {
+      setAgendaItems((current) => [...current, ...items]);
+    }
   };
 
-  // const loadMeeting = (meeting: Meeting) => {
-  //   setAgendaItems(
-  //     meeting.agendaItems.map((item) => ({
-  //       ...item,
-  //       isActive: false,
-  //       startTime: undefined,
-  //       elapsedTime: 0,
-  //     })),
-  //   );
-  //   setIsRunning(false);
-  // };
+  /**
+   * Applies a calendar event: its title and scheduled times update the
+   * meeting details and its agenda, if it has one, replaces the current one.
+   */
+  const importCalendarEvent = (meeting: CalendarMeeting) => {
+    if (meeting.agendaItems.length > 0 && !replaceAgenda(meeting.agendaItems)) {
+      return;
+    }
+    setDetails({
+      ...details,
+      ...meeting.details,
+      title: meeting.details.title ?? details.title,
+    });
+  };
 
   // const formatTime = (minutes: number): string => {
   //   const mins = Math.floor(minutes);
@@ -221,20 +308,16 @@ function MeetingTimeTracker() {
 
   // const completedItems = agendaItems.filter((item) => item.actualMinutes);
   const allItemsComplete =
-    agendaItems.length > 0 && agendaItems.every((item) => item.actualMinutes);
+    agendaItems.length > 0 &&
+    agendaItems.every((item) => item.actualMinutes || item.status);
   const hasActiveItem = agendaItems.some((item) => item.isActive);
-  const hasNextItem = agendaItems.some((item) => !item.actualMinutes);
-
-  const hasPreviousItem = () => {
-    const currentActiveIndex = agendaItems.findIndex((item) => item.isActive);
-    if (currentActiveIndex > 0) {
-      return true; // Has items before current active
-    }
-    if (currentActiveIndex === -1) {
-      return agendaItems.some((item) => item.actualMinutes); // Has completed items
-    }
-    return false;
-  };
+  const hasNextItem = agendaItems.some(
+    (item) => !item.actualMinutes && !item.status,
+  );
+  // Start resumes the paused item, if there is one
+  const startEvent = hasActiveItem
+    ? ({ type: "resume" } as const)
+    : ({ type: "start" } as const);
 
   const deleteAgendaItem = (id: string) => {
     setAgendaItems((items) => items.filter((item) => item.id !== id));
@@ -245,6 +328,15 @@ function MeetingTimeTracker() {
     newName: string,
     newEstimatedMinutes: number,
   ) => {
+    const item = agendaItems.find((item) => item.id === id);
+    if (item && item.estimatedMinutes !== newEstimatedMinutes) {
+      logEvent({
+        type: "editEstimate",
+        at: Date.now(),
+        itemId: id,
+        estimatedMinutes: newEstimatedMinutes,
+      });
+    }
     setAgendaItems((items) =>
       items.map((item) =>
         item.id === id
@@ -254,17 +346,76 @@ function MeetingTimeTracker() {
     );
   };
 
-  const reorderAgendaItems = (fromIndex: number, toIndex: number) => {
-    setAgendaItems((items) => {
-      const newItems = [...items];
-      const [movedItem] = newItems.splice(fromIndex, 1);
-      newItems.splice(toIndex, 0, movedItem);
-      return newItems;
-    });
-  };
+  useKeyboardShortcuts(
+    {
+      toggleTimer: () => dispatch(isRunning ? { type: "pause" } : startEvent),
+      next: () =>
+        dispatch(hasActiveItem ? { type: "complete" } : { type: "start" }),
+      previous: () => dispatch({ type: "goBack" }),
+      addOneMinute: () => dispatch({ type: "extend", minutes: 1 }),
+      addFiveMinutes: () => dispatch({ type: "extend", minutes: 5 }),
+      reset: () => {
+        if (window.confirm(t("shortcuts.confirmReset"))) resetMeeting();
+      },
+      palette: () => setIsPaletteOpen(true),
+      help: () => setIsHelpOpen(true),
+    },
+    !isPaletteOpen && !isHelpOpen,
+  );
+
+  const paletteCommands: PaletteCommand[] = [
+    ...agendaItems.flatMap((item, index) =>
+      can({ type: "jump", index })
+        ? [
+            {
+              id: `item-${item.id}`,
+              label: item.name,
+              group: t("palette.items"),
+              run: () => dispatch({ type: "jump", index }),
+            },
+          ]
+        : [],
+    ),
+    // Mirroring tabs only send flow commands
+    ...(isLeader ? templateLibrary.templates : []).map((template) => ({
+      id: `template-${template.id}`,
+      label: template.builtIn ? t(template.name) : template.name,
+      group: t("palette.templates"),
+      run: () => applyTemplate(template),
+    })),
+    {
+      id: "retrospective",
+      label: t("button.retrospective"),
+      group: t("palette.actions"),
+      run: () => navigate({ to: "/retrospective" }),
+    },
+    {
+      id: "shortcuts",
+      label: t("shortcuts.title"),
+      group: t("palette.actions"),
+      run: () => setIsHelpOpen(true),
+    },
+  ];
 
   return (
     <div className="min-h-screen bg-background">
+      {flash && (
+        <div
+          role="alert"
+          className={`fixed inset-0 z-50 pointer-events-none animate-pulse ${
+            flash === "warning" ? "bg-amber-500/20" : "bg-destructive/20"
+          }`}
+        >
+          <span className="sr-only">{t(`alerts.${flash}`)}</span>
+        </div>
+      )}
+      {isPaletteOpen && (
+        <CommandPalette
+          commands={paletteCommands}
+          onClose={() => setIsPaletteOpen(false)}
+        />
+      )}
+      {isHelpOpen && <ShortcutHelp onClose={() => setIsHelpOpen(false)} />}
       <main className="max-w-6xl mx-auto p-4 sm:p-6 pb-20">
         {/* Timer and Navigation Controls */}
         <div className="mb-4 sm:mb-6">
@@ -275,6 +426,9 @@ function MeetingTimeTracker() {
               totalEstimated={totalEstimated}
               isRunning={isRunning}
               agendaItems={agendaItems}
+              fixedEndTime={fixedEndTime}
+              startTime={meetingStartTime}
+              pausedTime={pausedTime}
             />
           )}
 
@@ -284,50 +438,102 @@ function MeetingTimeTracker() {
             <div className="flex gap-2">
               <button
                 type="button"
-                onClick={previousAgendaItem}
-                disabled={!hasPreviousItem()}
+                onClick={() => dispatch({ type: "goBack" })}
+                disabled={!can({ type: "goBack" })}
                 className="px-6 py-3 bg-gray-600 dark:bg-gray-600 text-white rounded-md hover:bg-gray-700 dark:hover:bg-gray-700 transition-colors flex items-center gap-2 min-h-[48px] font-medium disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-gray-600 dark:disabled:hover:bg-gray-600"
               >
                 <ChevronLeft size={18} />
                 {t("button.previousAgenda")}
               </button>
-              
+
               <button
                 type="button"
-                onClick={nextAgendaItem}
+                onClick={() =>
+                  dispatch(
+                    hasActiveItem ? { type: "complete" } : { type: "start" },
+                  )
+                }
                 disabled={!hasNextItem}
                 className="px-6 py-3 bg-blue-600 dark:bg-blue-600 text-white rounded-md hover:bg-blue-700 dark:hover:bg-blue-700 transition-colors flex items-center gap-2 min-h-[48px] font-medium disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-blue-600 dark:disabled:hover:bg-blue-600"
               >
                 <ChevronRight size={18} />
-                {hasActiveItem
-                  ? t("button.nextAgenda")
-                  : t("button.startNext")}
+                {hasActiveItem ? t("button.nextAgenda") : t("button.startNext")}
+              </button>
+
+              <button
+                type="button"
+                onClick={() => dispatch({ type: "skip" })}
+                disabled={!can({ type: "skip" })}
+                className="px-4 py-3 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors flex items-center gap-2 min-h-[48px] font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <SkipForward size={18} />
+                {t("agenda.skip")}
+              </button>
+
+              <button
+                type="button"
+                onClick={() => dispatch({ type: "defer" })}
+                disabled={!can({ type: "defer" })}
+                className="px-4 py-3 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors flex items-center gap-2 min-h-[48px] font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <SquareParking size={18} />
+                {t("agenda.defer")}
               </button>
             </div>
 
             {/* Control buttons */}
-            {!isRunning && agendaItems.length > 0 && (
+            {can(startEvent) && (
               <button
                 type="button"
-                onClick={startMeeting}
+                onClick={() => dispatch(startEvent)}
                 className="px-6 py-3 bg-green-600 dark:bg-green-600 text-white rounded-md hover:bg-green-700 dark:hover:bg-green-700 transition-colors flex items-center gap-2 min-h-[48px] font-medium"
               >
                 <Play size={18} />
                 {t("button.startMeeting")}
               </button>
             )}
-            
-            {allItemsComplete && (
+
+            {agendaItems.length > 0 && (
               <button
                 type="button"
-                onClick={saveMeeting}
+                onClick={toggleMuted}
+                aria-label={isMuted ? t("alerts.unmute") : t("alerts.mute")}
+                aria-pressed={isMuted}
+                title={isMuted ? t("alerts.unmute") : t("alerts.mute")}
+                className="px-4 py-3 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors flex items-center min-h-[48px]"
+              >
+                {isMuted ? <BellOff size={18} /> : <Bell size={18} />}
+              </button>
+            )}
+
+            {agendaItems.length > 0 && notificationsSupported && (
+              <button
+                type="button"
+                onClick={toggleNotifications}
+                aria-pressed={notificationsEnabled}
+                title={t("notifications.description")}
+                className={`px-4 py-3 rounded-md transition-colors flex items-center gap-2 min-h-[48px] text-sm ${
+                  notificationsEnabled
+                    ? "bg-primary text-primary-foreground hover:bg-primary/90"
+                    : "bg-secondary text-secondary-foreground hover:bg-secondary/90"
+                }`}
+              >
+                <BellRing size={18} />
+                {t("notifications.toggle")}
+              </button>
+            )}
+
+            {allItemsComplete && isLeader && (
+              <button
+                type="button"
+                onClick={() => setSavedMeeting(saveMeeting())}
                 className="px-6 py-3 bg-purple-600 dark:bg-purple-600 text-white rounded-md hover:bg-purple-700 dark:hover:bg-purple-700 transition-colors flex items-center gap-2 min-h-[48px] font-medium"
               >
                 <History size={18} />
                 {t("button.saveMeeting")}
               </button>
             )}
-            
+
             {allItemsComplete && (
               <Link
                 to="/retrospective"
@@ -340,6 +546,52 @@ function MeetingTimeTracker() {
           </div>
         </div>
 
+        {savedMeeting && (
+          <div className="bg-card rounded-lg shadow-lg p-4 border border-border mb-4 sm:mb-6 flex flex-wrap items-center gap-3">
+            <span className="text-sm text-card-foreground">
+              {t("minutes.saved")}
+            </span>
+            <ExportMinutesButtons meeting={savedMeeting} />
+            <button
+              type="button"
+              onClick={() => setSavedMeeting(null)}
+              aria-label={t("button.cancel")}
+              className="ml-auto p-1 text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
+        {showCarryOver && (
+          <CarryOverSuggestion
+            items={carriedItems}
+            onAdd={() => setAgendaItems([...agendaItems, ...carriedItems])}
+            onDismiss={() => setIsCarryOverDismissed(true)}
+          />
+        )}
+
+        {!isLeader && (
+          <div className="bg-card rounded-lg shadow-lg p-4 border border-primary/50 mb-4 sm:mb-6 flex flex-wrap items-center gap-3">
+            <MonitorSmartphone className="w-5 h-5 text-primary" />
+            <span className="flex-1 text-sm text-card-foreground">
+              {t("tabSync.mirroring")}
+            </span>
+            <button
+              type="button"
+              onClick={takeOver}
+              className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors text-sm"
+            >
+              {t("tabSync.takeOver")}
+            </button>
+          </div>
+        )}
+
+        {/* Mirroring tabs edit nothing; the leading tab owns the agenda */}
+        <fieldset disabled={!isLeader} className="min-w-0">
+          <MeetingDetailsForm details={details} onChange={setDetails} />
+        </fieldset>
+
         {/* Agenda Management and Progress */}
         <div className="bg-card rounded-lg shadow-lg p-4 sm:p-6 border border-border">
           <div className="flex items-center gap-2 mb-6">
@@ -348,74 +600,98 @@ function MeetingTimeTracker() {
               {t("agenda.management")}
             </h2>
           </div>
-          <MeetingProgress
-            items={agendaItems}
-            isTimerRunning={isRunning}
-            getCurrentElapsed={getCurrentElapsed}
-            onItemClick={(index) => {
-              if (agendaItems[index].isActive) {
-                completeCurrentItem();
-              }
-            }}
-            onItemEdit={(index, name, estimatedMinutes) => {
-              editAgendaItem(agendaItems[index].id, name, estimatedMinutes);
-            }}
-            onItemDelete={(index) => {
-              deleteAgendaItem(agendaItems[index].id);
-            }}
-            onItemReorder={reorderAgendaItems}
-            onItemAdd={(name, estimatedMinutes) => {
-              const newItem: AgendaItem = {
-                id: Date.now().toString(),
-                name,
-                estimatedMinutes,
-                isActive: false,
-                elapsedTime: 0,
-              };
-              setAgendaItems([...agendaItems, newItem]);
-            }}
-            onAddSample={() => {
-              const now = Date.now();
-              const sampleItems = [
-                {
-                  id: `sample_${now}_1`,
-                  name: "プロジェクト概要説明",
-                  estimatedMinutes: 5,
+          <fieldset disabled={!isLeader} className="min-w-0">
+            <MeetingProgress
+              items={agendaItems}
+              isTimerRunning={isRunning}
+              getCurrentElapsed={getCurrentElapsed}
+              onItemClick={(index) => {
+                if (agendaItems[index].isActive) {
+                  dispatch({ type: "complete" });
+                }
+              }}
+              onItemEdit={(index, name, estimatedMinutes) => {
+                editAgendaItem(agendaItems[index].id, name, estimatedMinutes);
+              }}
+              onItemDelete={(index) => {
+                deleteAgendaItem(agendaItems[index].id);
+              }}
+              onItemReorder={(fromIndex, toIndex) => {
+                dispatch({ type: "reorder", fromIndex, toIndex });
+              }}
+              onItemRevisit={(index) => {
+                dispatch({ type: "revisit", index });
+              }}
+              onItemExtend={(minutes) => {
+                dispatch({ type: "extend", minutes });
+              }}
+              participants={details.participants}
+              onItemOwnerChange={(index, owner) => {
+                setAgendaItems((items) =>
+                  items.map((item, i) =>
+                    i === index ? { ...item, owner } : item,
+                  ),
+                );
+              }}
+              budgets={budgets}
+              onItemRebalanceChange={(index, changes) => {
+                setAgendaItems((items) =>
+                  items.map((item, i) =>
+                    i === index ? { ...item, ...changes } : item,
+                  ),
+                );
+              }}
+              onItemAlertsChange={(index, alerts) => {
+                setAgendaItems((items) =>
+                  items.map((item, i) =>
+                    i === index ? { ...item, alerts } : item,
+                  ),
+                );
+              }}
+              onItemMinutesChange={(index, minutes) => {
+                setAgendaItems((items) =>
+                  items.map((item, i) =>
+                    i === index ? { ...item, ...minutes } : item,
+                  ),
+                );
+              }}
+              onItemAdd={(name, estimatedMinutes) => {
+                const newItem: AgendaItem = {
+                  id: Date.now().toString(),
+                  name,
+                  estimatedMinutes,
                   isActive: false,
                   elapsedTime: 0,
-                },
-                {
-                  id: `sample_${now}_2`,
-                  name: "進捗報告",
+                };
+                setAgendaItems([...agendaItems, newItem]);
+              }}
+              onBreakAdd={() => {
+                const breakItem: AgendaItem = {
+                  id: Date.now().toString(),
+                  name: t("agenda.break"),
                   estimatedMinutes: 10,
                   isActive: false,
                   elapsedTime: 0,
-                },
-                {
-                  id: `sample_${now}_3`,
-                  name: "課題とディスカッション",
-                  estimatedMinutes: 15,
-                  isActive: false,
-                  elapsedTime: 0,
-                },
-                {
-                  id: `sample_${now}_4`,
-                  name: "次回アクション確認",
-                  estimatedMinutes: 5,
-                  isActive: false,
-                  elapsedTime: 0,
-                },
-              ];
-              setAgendaItems(sampleItems);
-            }}
-          />
+                  isBreak: true,
+                };
+                setAgendaItems([...agendaItems, breakItem]);
+              }}
+              onAddSample={() => {
+                setAgendaItems(agendaFromTemplate(SAMPLE_TEMPLATE));
+              }}
+              onApplyTemplate={applyTemplate}
+              templateLibrary={templateLibrary}
+              onImportAgenda={importAgenda}
+              onImportCalendarEvent={importCalendarEvent}
+            />
+          </fieldset>
 
           {/* Secondary actions */}
           <div className="mt-6 pt-4 border-t border-border flex justify-center gap-3">
             {isRunning && (
               <button
                 type="button"
-                onClick={pauseMeeting}
+                onClick={() => dispatch({ type: "pause" })}
                 className="px-4 py-2 bg-yellow-600 dark:bg-yellow-600 text-white rounded-md hover:bg-yellow-700 dark:hover:bg-yellow-700 transition-colors flex items-center gap-2 text-sm"
               >
                 <Pause size={16} />
@@ -430,6 +706,24 @@ function MeetingTimeTracker() {
               <RotateCcw size={16} />
               {t("button.reset")}
             </button>
+            <button
+              type="button"
+              onClick={() => setIsHelpOpen(true)}
+              title={t("shortcuts.title")}
+              aria-label={t("shortcuts.title")}
+              className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors flex items-center gap-2 text-sm"
+            >
+              <Keyboard size={16} />
+            </button>
+            <Link
+              to="/presenter"
+              target="_blank"
+              title={t("presenter.open")}
+              className="px-4 py-2 bg-secondary text-secondary-foreground rounded-md hover:bg-secondary/90 transition-colors flex items-center gap-2 text-sm"
+            >
+              <MonitorPlay size={16} />
+              {t("presenter.open")}
+            </Link>
           </div>
         </div>
       </main>
@@ -0,0 +1,218 @@
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { ArrowLeft, Maximize, Mic, Minimize, MonitorPlay } from "lucide-react";
+import { useEffect } from "react";
+import { MeetingTimer } from "../components/MeetingTimer";
+import { useLanguage } from "../contexts/LanguageContext";
+import { useFullscreen } from "../hooks/useFullscreen";
+import { useSessionMirror } from "../hooks/useSessionMirror";
+import { useTimeCalculations } from "../hooks/useTimeCalculations";
+import { useTimerState } from "../hooks/useTimerState";
+import { timeBox } from "../lib/meeting";
+import { totalPausedTime } from "../lib/meetingLog";
+import { rebalanceAgenda } from "../lib/rebalance";
+import { formatCountdown } from "../lib/time";
+
+export const Route = createFileRoute("/presenter")({
+  component: Presenter,
+});
+
+/** The presenter never changes the mirrored items; the tracker's tab does */
+const leaveItemsAlone = () => {};
+
+/**
+ * Full-screen view for a projector or second monitor.
+ *
+ * Shows the meeting countdown, the current item with its owner, the next
+ * item and the agenda progress, and nothing to edit. It mirrors the session
+ * of the tracker page (see useSessionMirror) and only runs its own clock to
+ * count the active item up between updates. The screen turns red while the
+ * current item is over its time.
+ */
+function Presenter() {
+  const { t } = useLanguage();
+  const session = useSessionMirror();
+  const { currentTime, setIsRunning } = useTimerState(
+    session?.isRunning ?? false,
+  );
+  const { isSupported, isFullscreen, toggleFullscreen } = useFullscreen();
+
+  const sessionIsRunning = session?.isRunning ?? false;
+  useEffect(() => {
+    setIsRunning(sessionIsRunning);
+  }, [sessionIsRunning, setIsRunning]);
+
+  const agendaItems = session?.agendaItems ?? [];
+  const details = session?.details ?? {};
+  const events = session?.events ?? [];
+
+  const { getCurrentElapsed, totalElapsed, totalEstimated } =
+    useTimeCalculations(
+      agendaItems,
+      currentTime,
+      sessionIsRunning,
+      leaveItemsAlone,
+      false,
+    );
+  const meetingStartTime = events.find((event) => event.type === "start")?.at;
+  const fixedEndTime =
+    details.fixedEnd && details.scheduledEnd
+      ? Date.parse(details.scheduledEnd)
+      : undefined;
+
+  const activeIndex = agendaItems.findIndex((item) => item.isActive);
+  const activeItem = agendaItems[activeIndex];
+  const nextItem = agendaItems.find(
+    (item, index) =>
+      index > activeIndex &&
+      !item.isActive &&
+      item.actualMinutes === undefined &&
+      !item.status,
+  );
+  // Count down the rebalanced budget when there is one, as the tracker does
+  const activeBudget =
+    activeItem &&
+    (fixedEndTime !== undefined
+      ? rebalanceAgenda(
+          agendaItems,
+          currentTime,
+          fixedEndTime,
+          getCurrentElapsed,
+        ).get(activeItem.id)
+      : undefined);
+  const activeRemaining = activeItem
+    ? (activeBudget ?? timeBox(activeItem)) * 60000 -
+      getCurrentElapsed(activeItem)
+    : undefined;
+  const isOvertime = activeRemaining !== undefined && activeRemaining < 0;
+
+  const doneCount = agendaItems.filter(
+    (item) => item.actualMinutes !== undefined || item.status,
+  ).length;
+  const progressPercentage =
+    agendaItems.length > 0 ? (doneCount / agendaItems.length) * 100 : 0;
+
+  return (
+    <div
+      className={`fixed inset-0 z-50 overflow-y-auto flex flex-col transition-colors ${
+        isOvertime ? "bg-red-700 text-white" : "bg-background text-foreground"
+      }`}
+    >
+      <div className="flex items-center gap-2 p-4">
+        <Link
+          to="/"
+          className={`flex items-center gap-2 px-3 py-2 rounded-md text-sm transition-colors ${
+            isOvertime
+              ? "hover:bg-white/10"
+              : "text-muted-foreground hover:text-foreground hover:bg-muted"
+          }`}
+        >
+          <ArrowLeft size={16} />
+          {t("presenter.back")}
+        </Link>
+        {details.title && (
+          <h1 className="flex-1 text-center text-xl font-semibold truncate">
+            {details.title}
+          </h1>
+        )}
+        {isSupported && (
+          <button
+            type="button"
+            onClick={toggleFullscreen}
+            aria-pressed={isFullscreen}
+            className={`ml-auto flex items-center gap-2 px-3 py-2 rounded-md text-sm transition-colors ${
+              isOvertime
+                ? "hover:bg-white/10"
+                : "text-muted-foreground hover:text-foreground hover:bg-muted"
+            }`}
+          >
+            {isFullscreen ? <Minimize size={16} /> : <Maximize size={16} />}
+            {isFullscreen
+              ? t("presenter.exitFullscreen")
+              : t("presenter.fullscreen")}
+          </button>
+        )}
+      </div>
+
+      {session && agendaItems.length > 0 ? (
+        <main className="flex-1 flex flex-col justify-center gap-8 w-full max-w-5xl mx-auto px-6 pb-10">
+          <MeetingTimer
+            totalElapsed={totalElapsed}
+            totalEstimated={totalEstimated}
+            isRunning={session.isRunning}
+            startTime={meetingStartTime}
+            agendaItems={agendaItems}
+            fixedEndTime={fixedEndTime}
+            pausedTime={totalPausedTime(events, currentTime)}
+            size="large"
+          />
+
+          <section className="text-center">
+            <div
+              className={`text-sm font-medium uppercase tracking-wide ${
+                isOvertime ? "text-white/80" : "text-muted-foreground"
+              }`}
+            >
+              {isOvertime ? t("presenter.overtime") : t("presenter.current")}
+            </div>
+            <div className="text-4xl sm:text-6xl font-bold mt-2 break-words">
+              {activeItem ? activeItem.name : t("presenter.notStarted")}
+            </div>
+            {activeItem && activeRemaining !== undefined && (
+              <div className="text-3xl sm:text-4xl font-mono tabular-nums mt-2">
+                {formatCountdown(activeRemaining)}
+              </div>
+            )}
+            {activeItem?.owner && (
+              <div
+                className={`flex items-center justify-center gap-2 mt-3 text-2xl ${
+                  isOvertime ? "" : "text-primary"
+                }`}
+              >
+                <Mic className="w-6 h-6" />
+                {t("agenda.hasFloor")} {activeItem.owner}
+              </div>
+            )}
+          </section>
+
+          <section
+            className={`text-center text-2xl ${
+              isOvertime ? "text-white/80" : "text-muted-foreground"
+            }`}
+          >
+            <span className="font-medium">{t("presenter.next")}</span>{" "}
+            {nextItem ? nextItem.name : t("presenter.noNext")}
+          </section>
+
+          <section>
+            <div className="flex justify-between text-sm mb-2">
+              <span>{t("presenter.progress")}</span>
+              <span>
+                {doneCount} / {agendaItems.length}
+              </span>
+            </div>
+            <div
+              className={`w-full h-3 rounded-full ${
+                isOvertime ? "bg-white/20" : "bg-muted"
+              }`}
+            >
+              <div
+                className={`h-3 rounded-full transition-all duration-300 ${
+                  isOvertime ? "bg-white" : "bg-primary"
+                }`}
+                style={{ width: `${progressPercentage}%` }}
+              />
+            </div>
+          </section>
+        </main>
+      ) : (
+        <main className="flex-1 flex flex-col items-center justify-center gap-4 p-6 text-center">
+          <MonitorPlay className="w-16 h-16 text-muted-foreground" />
+          <h2 className="text-xl font-semibold">{t("presenter.noSession")}</h2>
+          <p className="text-muted-foreground">
+            {t("presenter.noSessionDescription")}
+          </p>
+        </main>
+      )}
+    </div>
+  );
+}
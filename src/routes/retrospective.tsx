@@ -1,55 +1,42 @@
 import { Link, createFileRoute } from "@tanstack/react-router";
-import { BarChart3 } from "lucide-react";
-import { useEffect, useState } from "react";
+import { BarChart3, Coffee, SkipForward, SquareParking } from "lucide-react";
+import { Fragment, useEffect, useState } from "react";
+import { ExportMinutesButtons } from "../components/ExportMinutesButtons";
+import { MeetingTimeline } from "../components/MeetingTimeline";
+import { RunAgainButtons } from "../components/RunAgainButtons";
 import { useLanguage } from "../contexts/LanguageContext";
+import { useMeetingHistory } from "../hooks/useMeetingHistory";
+import {
+  type Meeting,
+  estimateAccuracy,
+  hasItemMinutes,
+  summarizeByOwner,
+  timeBox,
+} from "../lib/meeting";
+import { pausePeriods, totalPausedTime } from "../lib/meetingLog";
+import { formatTime, getTimeDifference } from "../lib/time";
+import { occurrenceKeys } from "../lib/utils";
 
 export const Route = createFileRoute("/retrospective")({
   component: Retrospective,
 });
 
-interface AgendaItem {
-  id: string;
-  name: string;
-  estimatedMinutes: number;
-  actualMinutes?: number;
-  isActive: boolean;
-  startTime?: number;
-  elapsedTime: number;
-}
-
-interface Meeting {
-  id: string;
-  date: string;
-  agendaItems: AgendaItem[];
-}
-
 function Retrospective() {
   const { t } = useLanguage();
-  const [meetingHistory, setMeetingHistory] = useState<Meeting[]>([]);
+  const { meetingHistory, hasMoreHistory, isHistoryLoading, loadMoreHistory } =
+    useMeetingHistory();
   const [selectedMeeting, setSelectedMeeting] = useState<Meeting | null>(null);
 
+  // Select the most recent meeting once the first page has loaded
   useEffect(() => {
-    const saved = localStorage.getItem("meeting-history");
-    if (saved) {
-      const history = JSON.parse(saved);
-      setMeetingHistory(history);
-      if (history.length > 0) {
-        setSelectedMeeting(history[0]);
-      }
+    if (!selectedMeeting && meetingHistory.length > 0) {
+      setSelectedMeeting(meetingHistory[0]);
     }
-  }, []);
+  }, [meetingHistory, selectedMeeting]);
 
-  const formatTime = (minutes: number): string => {
-    const mins = Math.floor(minutes);
-    const secs = Math.floor((minutes - mins) * 60);
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
-  };
-
-  const getTimeDifference = (estimated: number, actual: number): string => {
-    const diff = actual - estimated;
-    const sign = diff >= 0 ? "+" : "";
-    return `${sign}${formatTime(Math.abs(diff))}`;
-  };
+  if (isHistoryLoading && meetingHistory.length === 0) {
+    return <div className="min-h-screen bg-background" />;
+  }
 
   if (meetingHistory.length === 0) {
     return (
@@ -81,10 +68,30 @@ function Retrospective() {
     (sum, item) => sum + item.estimatedMinutes,
     0,
   );
+  // Time granted on the fly; the actuals are measured against plan plus it
+  const totalExtended = completedItems.reduce(
+    (sum, item) => sum + (item.extendedMinutes ?? 0),
+    0,
+  );
   const totalActual = completedItems.reduce(
     (sum, item) => sum + (item.actualMinutes || 0),
     0,
   );
+  const totalTimeBox = totalEstimated + totalExtended;
+  // Unplanned pauses from the event log, and planned break items
+  const events = selectedMeeting?.events ?? [];
+  const pauseCount = pausePeriods(events).length;
+  const totalPaused = totalPausedTime(events, events.at(-1)?.at ?? 0) / 60000;
+  const totalBreaks = completedItems
+    .filter((item) => item.isBreak)
+    .reduce((sum, item) => sum + (item.actualMinutes || 0), 0);
+  // Items skipped or parked instead of discussed
+  const setAsideItems =
+    selectedMeeting?.agendaItems.filter((item) => item.status) || [];
+  const hasOwners = completedItems.some((item) => item.owner);
+  const ownerSummaries = hasOwners ? summarizeByOwner(completedItems) : [];
+  const hasExtensions = totalExtended > 0;
+  const columnCount = 5 + Number(hasOwners) + Number(hasExtensions);
 
   return (
     <div className="min-h-screen bg-background">
@@ -108,7 +115,18 @@ function Retrospective() {
                         : "bg-muted hover:bg-muted/80"
                     }`}
                   >
-                    <div className="font-medium text-sm">
+                    {meeting.title && (
+                      <div className="font-medium text-sm truncate">
+                        {meeting.title}
+                      </div>
+                    )}
+                    <div
+                      className={
+                        meeting.title
+                          ? "text-xs opacity-75"
+                          : "font-medium text-sm"
+                      }
+                    >
                       {new Date(meeting.date).toLocaleDateString()}
                     </div>
                     <div className="text-xs opacity-75">
@@ -122,7 +140,23 @@ function Retrospective() {
                     </div>
                   </button>
                 ))}
+                {hasMoreHistory && (
+                  <button
+                    type="button"
+                    onClick={loadMoreHistory}
+                    disabled={isHistoryLoading}
+                    className="w-full p-2 text-sm text-muted-foreground hover:text-foreground hover:bg-muted rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {t("history.loadMore")}
+                  </button>
+                )}
               </div>
+              {selectedMeeting && (
+                <div className="mt-4 pt-4 border-t border-border space-y-2">
+                  <RunAgainButtons meeting={selectedMeeting} />
+                  <ExportMinutesButtons meeting={selectedMeeting} />
+                </div>
+              )}
             </div>
           </div>
 
@@ -130,8 +164,54 @@ function Retrospective() {
           <div className="lg:col-span-3">
             {selectedMeeting && (
               <>
+                {/* Meeting Details */}
+                {(selectedMeeting.title ||
+                  selectedMeeting.facilitator ||
+                  selectedMeeting.participants?.length ||
+                  selectedMeeting.purpose) && (
+                  <div className="bg-card rounded-lg shadow-lg p-6 border border-border mb-6">
+                    {selectedMeeting.title && (
+                      <h2 className="text-xl font-semibold text-card-foreground mb-2">
+                        {selectedMeeting.title}
+                      </h2>
+                    )}
+                    <dl className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                      {selectedMeeting.facilitator && (
+                        <>
+                          <dt className="text-muted-foreground">
+                            {t("details.facilitator")}
+                          </dt>
+                          <dd>{selectedMeeting.facilitator}</dd>
+                        </>
+                      )}
+                      {selectedMeeting.participants?.length ? (
+                        <>
+                          <dt className="text-muted-foreground">
+                            {t("details.participants")}
+                          </dt>
+                          <dd>{selectedMeeting.participants.join(", ")}</dd>
+                        </>
+                      ) : null}
+                      {selectedMeeting.purpose && (
+                        <>
+                          <dt className="text-muted-foreground">
+                            {t("details.purpose")}
+                          </dt>
+                          <dd className="whitespace-pre-wrap">
+                            {selectedMeeting.purpose}
+                          </dd>
+                        </>
+                      )}
+                    </dl>
+                  </div>
+                )}
+
                 {/* Summary Cards */}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div
+                  className={`grid grid-cols-1 gap-4 mb-6 ${
+                    hasExtensions ? "md:grid-cols-4" : "md:grid-cols-3"
+                  }`}
+                >
                   <div className="bg-primary/10 p-4 rounded-lg">
                     <h3 className="font-semibold text-primary">
                       {t("retrospective.totalEstimated")}
@@ -140,6 +220,16 @@ function Retrospective() {
                       {formatTime(totalEstimated)}
                     </p>
                   </div>
+                  {hasExtensions && (
+                    <div className="bg-amber-500/10 p-4 rounded-lg">
+                      <h3 className="font-semibold text-amber-700 dark:text-amber-500">
+                        {t("retrospective.totalExtended")}
+                      </h3>
+                      <p className="text-2xl font-bold text-amber-600 dark:text-amber-500">
+                        +{formatTime(totalExtended)}
+                      </p>
+                    </div>
+                  )}
                   <div className="bg-green-500/10 p-4 rounded-lg">
                     <h3 className="font-semibold text-green-700 dark:text-green-500">
                       {t("retrospective.totalActual")}
@@ -150,14 +240,14 @@ function Retrospective() {
                   </div>
                   <div
                     className={`p-4 rounded-lg ${
-                      totalActual > totalEstimated
+                      totalActual > totalTimeBox
                         ? "bg-destructive/10"
                         : "bg-green-500/10"
                     }`}
                   >
                     <h3
                       className={`font-semibold ${
-                        totalActual > totalEstimated
+                        totalActual > totalTimeBox
                           ? "text-destructive"
                           : "text-green-700 dark:text-green-500"
                       }`}
@@ -166,16 +256,41 @@ function Retrospective() {
                     </h3>
                     <p
                       className={`text-2xl font-bold ${
-                        totalActual > totalEstimated
+                        totalActual > totalTimeBox
                           ? "text-destructive"
                           : "text-green-600 dark:text-green-500"
                       }`}
                     >
-                      {getTimeDifference(totalEstimated, totalActual)}
+                      {getTimeDifference(totalTimeBox, totalActual)}
                     </p>
                   </div>
                 </div>
 
+                {/* Paused time and breaks */}
+                {(pauseCount > 0 || totalBreaks > 0) && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+                    <div className="bg-muted p-4 rounded-lg">
+                      <h3 className="font-semibold text-muted-foreground">
+                        {t("retrospective.pausedTime")}
+                      </h3>
+                      <p className="text-2xl font-bold">
+                        {formatTime(totalPaused)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {pauseCount} {t("retrospective.pauseCount")}
+                      </p>
+                    </div>
+                    <div className="bg-muted p-4 rounded-lg">
+                      <h3 className="font-semibold text-muted-foreground">
+                        {t("retrospective.breakTime")}
+                      </h3>
+                      <p className="text-2xl font-bold">
+                        {formatTime(totalBreaks)}
+                      </p>
+                    </div>
+                  </div>
+                )}
+
                 {/* Detailed Analysis Table */}
                 <div className="bg-card rounded-lg shadow-lg p-6 border border-border">
                   <h2 className="text-xl font-semibold mb-4 text-card-foreground">
@@ -189,9 +304,19 @@ function Retrospective() {
                           <th className="text-left py-2 px-4 border-b border-border">
                             {t("table.topicName")}
                           </th>
+                          {hasOwners && (
+                            <th className="text-left py-2 px-4 border-b border-border">
+                              {t("table.owner")}
+                            </th>
+                          )}
                           <th className="text-center py-2 px-4 border-b border-border">
                             {t("table.estimated")}
                           </th>
+                          {hasExtensions && (
+                            <th className="text-center py-2 px-4 border-b border-border">
+                              {t("table.extended")}
+                            </th>
+                          )}
                           <th className="text-center py-2 px-4 border-b border-border">
                             {t("table.actual")}
                           </th>
@@ -205,56 +330,252 @@ function Retrospective() {
                       </thead>
                       <tbody>
                         {completedItems.map((item) => {
-                          const difference =
-                            (item.actualMinutes ?? 0) - item.estimatedMinutes;
-                          const accuracy = Math.round(
-                            (1 - Math.abs(difference) / item.estimatedMinutes) *
-                              100,
-                          );
+                          const { difference, accuracy } =
+                            estimateAccuracy(item);
 
                           return (
-                            <tr key={item.id}>
+                            <Fragment key={item.id}>
+                              <tr>
+                                <td className="py-3 px-4 border-b border-border">
+                                  {item.isBreak && (
+                                    <Coffee
+                                      className="inline w-4 h-4 mr-1 -mt-0.5 text-muted-foreground"
+                                      aria-label={t("agenda.break")}
+                                    />
+                                  )}
+                                  {item.name}
+                                </td>
+                                {hasOwners && (
+                                  <td className="py-3 px-4 border-b border-border text-muted-foreground">
+                                    {item.owner ?? "—"}
+                                  </td>
+                                )}
+                                <td className="text-center py-3 px-4 border-b border-border">
+                                  {formatTime(item.estimatedMinutes)}
+                                </td>
+                                {hasExtensions && (
+                                  <td className="text-center py-3 px-4 border-b border-border text-amber-600 dark:text-amber-500">
+                                    {item.extendedMinutes
+                                      ? `+${formatTime(item.extendedMinutes)}`
+                                      : "—"}
+                                  </td>
+                                )}
+                                <td className="text-center py-3 px-4 border-b border-border">
+                                  {formatTime(item.actualMinutes ?? 0)}
+                                </td>
+                                <td
+                                  className={`text-center py-3 px-4 border-b border-border font-semibold ${
+                                    difference > 0
+                                      ? "text-destructive"
+                                      : difference < 0
+                                        ? "text-green-600 dark:text-green-500"
+                                        : "text-muted-foreground"
+                                  }`}
+                                >
+                                  {getTimeDifference(
+                                    timeBox(item),
+                                    item.actualMinutes ?? 0,
+                                  )}
+                                </td>
+                                <td
+                                  className={`text-center py-3 px-4 border-b border-border font-semibold ${
+                                    accuracy >= 80
+                                      ? "text-green-600 dark:text-green-500"
+                                      : accuracy >= 60
+                                        ? "text-yellow-600 dark:text-yellow-500"
+                                        : "text-destructive"
+                                  }`}
+                                >
+                                  {accuracy}%
+                                </td>
+                              </tr>
+                              {hasItemMinutes(item) && (
+                                <tr>
+                                  <td
+                                    colSpan={columnCount}
+                                    className="pb-3 px-4 border-b border-border text-sm space-y-2"
+                                  >
+                                    {item.notes?.trim() && (
+                                      <p className="whitespace-pre-wrap text-muted-foreground">
+                                        {item.notes}
+                                      </p>
+                                    )}
+                                    {item.decisions?.length ? (
+                                      <div>
+                                        <span className="font-medium">
+                                          {t("notes.decisions")}
+                                        </span>
+                                        <ul className="list-disc pl-5">
+                                          {occurrenceKeys(item.decisions).map(
+                                            (key, index) => (
+                                              <li key={key}>
+                                                {item.decisions?.[index]}
+                                              </li>
+                                            ),
+                                          )}
+                                        </ul>
+                                      </div>
+                                    ) : null}
+                                    {item.actionItems?.length ? (
+                                      <div>
+                                        <span className="font-medium">
+                                          {t("notes.actionItems")}
+                                        </span>
+                                        <ul className="list-disc pl-5">
+                                          {item.actionItems.map(
+                                            (actionItem) => (
+                                              <li key={actionItem.id}>
+                                                {actionItem.text}
+                                                {(actionItem.assignee ||
+                                                  actionItem.dueDate) && (
+                                                  <span className="text-muted-foreground">
+                                                    {" "}
+                                                    (
+                                                    {[
+                                                      actionItem.assignee,
+                                                      actionItem.dueDate,
+                                                    ]
+                                                      .filter(Boolean)
+                                                      .join(", ")}
+                                                    )
+                                                  </span>
+                                                )}
+                                              </li>
+                                            ),
+                                          )}
+                                        </ul>
+                                      </div>
+                                    ) : null}
+                                  </td>
+                                </tr>
+                              )}
+                            </Fragment>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+
+                {/* Skipped and parked items */}
+                {setAsideItems.length > 0 && (
+                  <div className="bg-card rounded-lg shadow-lg p-6 border border-border mt-6">
+                    <h2 className="text-xl font-semibold mb-4 text-card-foreground">
+                      {t("retrospective.setAside")}
+                    </h2>
+                    <ul className="space-y-2">
+                      {setAsideItems.map((item) => (
+                        <li
+                          key={item.id}
+                          className="flex flex-wrap items-center gap-2"
+                        >
+                          {item.status === "deferred" ? (
+                            <SquareParking className="w-4 h-4 text-amber-600 dark:text-amber-500" />
+                          ) : (
+                            <SkipForward className="w-4 h-4 text-muted-foreground" />
+                          )}
+                          <span
+                            className={
+                              item.status === "skipped"
+                                ? "line-through text-muted-foreground"
+                                : undefined
+                            }
+                          >
+                            {item.name}
+                          </span>
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded ${
+                              item.status === "deferred"
+                                ? "bg-amber-500/10 text-amber-600 dark:text-amber-500"
+                                : "bg-muted text-muted-foreground"
+                            }`}
+                          >
+                            {t(`agenda.${item.status}`)}
+                          </span>
+                          {item.status === "deferred" && (
+                            <span className="text-sm text-muted-foreground">
+                              {t("retrospective.carriedOver")}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Event log */}
+                {selectedMeeting.events?.length ? (
+                  <div className="bg-card rounded-lg shadow-lg p-6 border border-border mt-6">
+                    <h2 className="text-xl font-semibold mb-4 text-card-foreground">
+                      {t("retrospective.timeline")}
+                    </h2>
+                    <MeetingTimeline meeting={selectedMeeting} />
+                  </div>
+                ) : null}
+
+                {/* Per-owner roll-up */}
+                {hasOwners && (
+                  <div className="bg-card rounded-lg shadow-lg p-6 border border-border mt-6">
+                    <h2 className="text-xl font-semibold mb-4 text-card-foreground">
+                      {t("retrospective.byOwner")}
+                    </h2>
+                    <div className="overflow-x-auto">
+                      <table className="w-full border-collapse">
+                        <thead>
+                          <tr className="bg-muted">
+                            <th className="text-left py-2 px-4 border-b border-border">
+                              {t("table.owner")}
+                            </th>
+                            <th className="text-center py-2 px-4 border-b border-border">
+                              {t("history.items")}
+                            </th>
+                            <th className="text-center py-2 px-4 border-b border-border">
+                              {t("table.estimated")}
+                            </th>
+                            <th className="text-center py-2 px-4 border-b border-border">
+                              {t("table.actual")}
+                            </th>
+                            <th className="text-center py-2 px-4 border-b border-border">
+                              {t("table.difference")}
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {ownerSummaries.map((summary) => (
+                            <tr key={summary.owner ?? ""}>
                               <td className="py-3 px-4 border-b border-border">
-                                {item.name}
+                                {summary.owner ?? t("agenda.noOwner")}
                               </td>
                               <td className="text-center py-3 px-4 border-b border-border">
-                                {formatTime(item.estimatedMinutes)}
+                                {summary.itemCount}
                               </td>
                               <td className="text-center py-3 px-4 border-b border-border">
-                                {formatTime(item.actualMinutes ?? 0)}
+                                {formatTime(summary.totalEstimated)}
+                              </td>
+                              <td className="text-center py-3 px-4 border-b border-border">
+                                {formatTime(summary.totalActual)}
                               </td>
                               <td
                                 className={`text-center py-3 px-4 border-b border-border font-semibold ${
-                                  difference > 0
+                                  summary.totalActual > summary.totalTimeBox
                                     ? "text-destructive"
-                                    : difference < 0
+                                    : summary.totalActual < summary.totalTimeBox
                                       ? "text-green-600 dark:text-green-500"
                                       : "text-muted-foreground"
                                 }`}
                               >
                                 {getTimeDifference(
-                                  item.estimatedMinutes,
-                                  item.actualMinutes ?? 0,
+                                  summary.totalTimeBox,
+                                  summary.totalActual,
                                 )}
                               </td>
-                              <td
-                                className={`text-center py-3 px-4 border-b border-border font-semibold ${
-                                  accuracy >= 80
-                                    ? "text-green-600 dark:text-green-500"
-                                    : accuracy >= 60
-                                      ? "text-yellow-600 dark:text-yellow-500"
-                                      : "text-destructive"
-                                }`}
-                              >
-                                {accuracy}%
-                              </td>
                             </tr>
-                          );
-                        })}
-                      </tbody>
-                    </table>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
                   </div>
-                </div>
+                )}
               </>
             )}
           </div>
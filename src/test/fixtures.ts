@@ -0,0 +1,39 @@
+import type { AgendaItem, Meeting } from "../lib/meeting";
+
+/**
+ * Builds a pending ten-minute agenda item named after its id.
+ *
+ * @param id - Item id, also used as its name
+ * @param overrides - Fields to set on top of the defaults
+ * @returns The agenda item
+ */
+export const buildItem = (
+  id: string,
+  overrides: Partial<AgendaItem> = {},
+): AgendaItem => ({
+  id,
+  name: id,
+  estimatedMinutes: 10,
+  isActive: false,
+  elapsedTime: 0,
+  ...overrides,
+});
+
+/**
+ * Builds a saved meeting without agenda items.
+ *
+ * @param id - Meeting id
+ * @param date - ISO timestamp of the meeting
+ * @param overrides - Fields to set on top of the defaults
+ * @returns The meeting
+ */
+export const buildMeeting = (
+  id: string,
+  date: string,
+  overrides: Partial<Meeting> = {},
+): Meeting => ({
+  id,
+  date,
+  agendaItems: [],
+  ...overrides,
+});